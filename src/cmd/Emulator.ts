@@ -1,5 +1,7 @@
 import { Manager } from '../core';
+import type { LaunchProfileConfig } from '../core';
 import { ICommandProp, Executable, CommandType } from './Executable';
+import { shellQuote } from '../device/AdbClient';
 
 export enum Command {
     run = "Run"
@@ -25,3 +27,95 @@ export class Emulator extends Executable {
         super(manager, manager.android.getEmulator() ?? "", commands);
     }
 }
+
+/** `emulator` command-line options for a profile, in a stable order. */
+export function profileArgs(profile: LaunchProfileConfig): string[] {
+    const args: string[] = [];
+    if (profile.coldBoot) {
+        args.push('-no-snapshot-load');
+    }
+    if (profile.wipeData) {
+        args.push('-wipe-data');
+    }
+    if (profile.noWindow) {
+        args.push('-no-window');
+    }
+    if (profile.gpu) {
+        args.push('-gpu', profile.gpu);
+    }
+    if (profile.port) {
+        args.push('-port', String(profile.port));
+    }
+    if (profile.readOnly) {
+        args.push('-read-only');
+    }
+    if (profile.memory) {
+        args.push('-memory', String(profile.memory));
+    }
+    if (profile.dnsServer) {
+        args.push('-dns-server', profile.dnsServer);
+    }
+    if (profile.httpProxy) {
+        args.push('-http-proxy', profile.httpProxy);
+    }
+    return args;
+}
+
+/**
+ * Splits a command line the way the shell does for `Command.run`: on
+ * whitespace, with '...' and "..." quoting and backslash escapes, so
+ * `emulatorOpt` means the same when passed as argv.
+ */
+export function parseCommandLine(line: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let inArg = false;
+    let quote: '"' | "'" | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (quote === "'") {
+            if (c === "'") {
+                quote = undefined;
+            } else {
+                current += c;
+            }
+        } else if (c === '\\' && i + 1 < line.length && (quote !== '"' || /["\\$`]/.test(line[i + 1]))) {
+            current += line[++i];
+            inArg = true;
+        } else if (quote === '"') {
+            if (c === '"') {
+                quote = undefined;
+            } else {
+                current += c;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+            inArg = true;
+        } else if (/\s/.test(c)) {
+            if (inArg) {
+                args.push(current);
+                current = '';
+                inArg = false;
+            }
+        } else {
+            current += c;
+            inArg = true;
+        }
+    }
+    if (inArg) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * Joins arguments for the shell command line of `Command.run`. POSIX shells
+ * get single quotes, which keep `$`, backticks and `\` literal; cmd.exe only
+ * knows double quotes.
+ */
+export function toCommandLine(args: string[], platform: NodeJS.Platform = process.platform): string {
+    if (platform === 'win32') {
+        return args.map(arg => arg === '' || /[\s"&|<>^]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg).join(' ');
+    }
+    return args.map(shellQuote).join(' ');
+}
@@ -8,6 +8,47 @@ import { Cache } from "./module/cache";
 import { Platform } from "./module/platform";
 import { BuildVariantService } from "./service/BuildVariantService";
 import { GradleService } from "./service/GradleService";
+import { AdbClient } from "./device/AdbClient";
+import { DeviceTracker } from "./device/DeviceTracker";
+
+/** One entry of `android-studio-lite.portRules`. */
+export interface PortRuleConfig {
+    type: 'forward' | 'reverse'
+    /** Host side: a port number or an adb socket spec such as `tcp:8080`. */
+    local: string | number
+    /** Device side, same format. */
+    remote: string | number
+    /** Serial or AVD name; applies to every device when omitted. */
+    device?: string
+}
+
+/** One entry of `android-studio-lite.launchProfiles`. */
+export interface LaunchProfileConfig {
+    name: string
+    /** Only offer this profile for this AVD; offered for every AVD when omitted. */
+    avd?: string
+    /** `-no-snapshot-load` */
+    coldBoot?: boolean
+    /** `-wipe-data` */
+    wipeData?: boolean
+    /** `-no-window` */
+    noWindow?: boolean
+    /** `-gpu <mode>` */
+    gpu?: string
+    /** `-port <port>`; even, 5554-5682. */
+    port?: number
+    /** `-read-only` */
+    readOnly?: boolean
+    /** `-memory <MB>` */
+    memory?: number
+    /** `-dns-server <servers>` */
+    dnsServer?: string
+    /** `-http-proxy <proxy>` */
+    httpProxy?: string
+}
+
+/** How the AVD view groups AVDs. */
+export type AVDGroupBy = "none" | "apiLevel" | "abi" | "deviceType";
 
 export interface IConfig {
     /** PATHS */
@@ -23,9 +64,26 @@ export interface IConfig {
     executable?: string
     emulator?: string
     sdkManager?: string
+    adb?: string
 
     /** opts */
     emulatorOpt?: string
+    devicePollInterval: number
+    autoSelectDevice: boolean
+
+    /** captures */
+    captureFolder: string
+    screenRecordSize: string
+    screenRecordBitRate: number
+
+    /** port forwarding */
+    portRules: PortRuleConfig[]
+
+    /** emulator launch profiles */
+    launchProfiles: LaunchProfileConfig[]
+
+    /** views */
+    avdGroupBy: AVDGroupBy
 }
 
 export enum ConfigItem {
@@ -36,6 +94,15 @@ export enum ConfigItem {
     emulator = "emulator",
     emulatorOpt = "emulatorOpt",
     sdkManager = "sdkManager",
+    adbPath = "adbPath",
+    devicePollInterval = "devicePollInterval",
+    autoSelectDevice = "autoSelectDevice",
+    captureFolder = "captureFolder",
+    screenRecordSize = "screenRecordSize",
+    screenRecordBitRate = "screenRecordBitRate",
+    portRules = "portRules",
+    launchProfiles = "launchProfiles",
+    avdGroupBy = "avdGroupBy",
 }
 
 export enum ConfigScope {
@@ -59,6 +126,8 @@ export class Manager {
     readonly avd: AVDService;
     readonly buildVariant: BuildVariantService;
     readonly gradle: GradleService;
+    readonly adb: AdbClient;
+    readonly deviceTracker: DeviceTracker;
     readonly output: Output;
     readonly cache: Cache;
 
@@ -69,6 +138,8 @@ export class Manager {
         this.avd = new AVDService(this);
         this.buildVariant = new BuildVariantService(this);
         this.gradle = new GradleService(this);
+        this.adb = new AdbClient({ adbPath: () => this.android.getAdb() });
+        this.deviceTracker = new DeviceTracker(this);
         this.output = new Output("Android Studio Lite");
     }
 
@@ -137,6 +208,7 @@ export class Manager {
         let executable = config.get<string>(ConfigItem.executable, "avdmanager");
         let sdkManager = config.get<string>(ConfigItem.sdkManager, "sdkmanager");
         let emulator = config.get<string>(ConfigItem.emulator, "emulator");
+        let adb = config.get<string>(ConfigItem.adbPath, "");
 
         return {
             sdkPath: sdkPath,
@@ -150,7 +222,16 @@ export class Manager {
             executable: executable,
             sdkManager: sdkManager,
             emulator: emulator,
-            emulatorOpt: config.get<string>(ConfigItem.emulatorOpt, "")
+            adb: adb,
+            emulatorOpt: config.get<string>(ConfigItem.emulatorOpt, ""),
+            devicePollInterval: config.get<number>(ConfigItem.devicePollInterval, 3000),
+            autoSelectDevice: config.get<boolean>(ConfigItem.autoSelectDevice, false),
+            captureFolder: config.get<string>(ConfigItem.captureFolder, "captures"),
+            screenRecordSize: config.get<string>(ConfigItem.screenRecordSize, ""),
+            screenRecordBitRate: config.get<number>(ConfigItem.screenRecordBitRate, 8),
+            portRules: config.get<PortRuleConfig[]>(ConfigItem.portRules, []),
+            launchProfiles: config.get<LaunchProfileConfig[]>(ConfigItem.launchProfiles, []),
+            avdGroupBy: config.get<AVDGroupBy>(ConfigItem.avdGroupBy, "none")
         };
     }
 
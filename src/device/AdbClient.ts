@@ -0,0 +1,903 @@
+import * as net from 'net';
+import * as cp from 'child_process';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 5037;
+const CONNECT_TIMEOUT_MS = 5000;
+const SYNC_DATA_MAX = 64 * 1024;
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+const SHELL_TIMEOUT_MS = 30000;
+
+/** Shell protocol v2 packet ids. */
+const SHELL_STDIN = 0;
+const SHELL_STDOUT = 1;
+const SHELL_STDERR = 2;
+const SHELL_EXIT = 3;
+const SHELL_CLOSE_STDIN = 4;
+const SHELL_WINDOW_SIZE = 5;
+
+export type AdbDeviceState =
+    | 'device'
+    | 'offline'
+    | 'unauthorized'
+    | 'authorizing'
+    | 'connecting'
+    | 'bootloader'
+    | 'recovery'
+    | 'sideload'
+    | 'no permissions'
+    | string;
+
+/** One entry of `host:devices-l`. */
+export interface AdbDevice {
+    serial: string;
+    state: AdbDeviceState;
+    product?: string;
+    model?: string;
+    device?: string;
+    transportId?: string;
+    /** USB bus path, only present for devices attached over USB. */
+    usb?: string;
+}
+
+/** Result of a sync STAT / one entry of a sync LIST. */
+export interface AdbFileEntry {
+    name: string;
+    mode: number;
+    size: number;
+    mtime: number;
+}
+
+/** One line of `host:mdns:services`. */
+export interface AdbMdnsService {
+    /** Instance name, e.g. `adb-R5CT1234-AbCdEf` or `studio-x1y2z3`. */
+    name: string;
+    /** `_adb-tls-connect._tcp` or `_adb-tls-pairing._tcp`. */
+    type: string;
+    /** `ip:port` */
+    address: string;
+}
+
+/** One `adb forward --list` / `adb reverse --list` entry. */
+export interface AdbForward {
+    serial: string;
+    /** Host side socket, e.g. `tcp:8080`. */
+    local: string;
+    /** Device side socket, e.g. `tcp:8080` or `localabstract:chrome_devtools_remote`. */
+    remote: string;
+}
+
+export interface AdbClientOptions {
+    host?: string;
+    port?: number;
+    /** Resolves the adb binary, used to start the server when nothing listens on the port. */
+    adbPath?: () => string | null;
+}
+
+/** Raised when the adb server answers FAIL or the connection breaks mid-request. */
+export class AdbError extends Error {
+    constructor(message: string, readonly service?: string) {
+        super(message);
+        this.name = 'AdbError';
+    }
+}
+
+/**
+ * Client for the adb server socket protocol (tcp:5037).
+ *
+ * Requests are `<4 hex digit length><service>`; the server replies `OKAY` or
+ * `FAIL<4 hex length><message>`. Device services go through
+ * `host:transport:<serial>` first, after which the socket belongs to the device.
+ */
+export class AdbClient {
+    private readonly host: string;
+    private readonly port: number;
+    private serverStart: Promise<void> | null = null;
+
+    constructor(private readonly options: AdbClientOptions = {}) {
+        this.host = options.host ?? DEFAULT_HOST;
+        this.port = options.port ?? (parseInt(process.env.ANDROID_ADB_SERVER_PORT ?? '', 10) || DEFAULT_PORT);
+    }
+
+    /** Opens a raw connection to the adb server, starting the server once if needed. */
+    async connect(): Promise<AdbConnection> {
+        try {
+            return await this.openSocket();
+        } catch (error: any) {
+            if (error?.code !== 'ECONNREFUSED' || !this.options.adbPath) {
+                throw new AdbError(`Cannot reach adb server on ${this.host}:${this.port}: ${error?.message ?? error}`);
+            }
+        }
+        await this.startServer();
+        return this.openSocket();
+    }
+
+    /** Runs a host service that answers with a length-prefixed payload (e.g. `host:version`). */
+    async hostQuery(service: string): Promise<string> {
+        const conn = await this.connect();
+        try {
+            await conn.request(service);
+            return await conn.readString();
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** Runs a host service that answers with a bare OKAY (e.g. forwards). */
+    async hostCommand(service: string): Promise<void> {
+        const conn = await this.connect();
+        try {
+            await conn.request(service);
+        } finally {
+            conn.close();
+        }
+    }
+
+    async listDevices(): Promise<AdbDevice[]> {
+        return parseDevices(await this.hostQuery('host:devices-l'));
+    }
+
+    /**
+     * Opens `host:track-devices-l`. The server pushes the full device list
+     * (length-prefixed, same format as `host:devices-l`) on every change.
+     */
+    async trackDevices(
+        onDevices: (devices: AdbDevice[]) => void,
+        onClose: (error?: Error) => void,
+    ): Promise<AdbConnection> {
+        const conn = await this.connect();
+        try {
+            await conn.request('host:track-devices-l');
+        } catch (error) {
+            conn.close();
+            throw error;
+        }
+
+        let pending = Buffer.alloc(0);
+        conn.stream((chunk) => {
+            pending = Buffer.concat([pending, chunk]);
+            while (pending.length >= 4) {
+                const length = parseInt(pending.toString('ascii', 0, 4), 16);
+                if (isNaN(length)) {
+                    conn.close();
+                    return;
+                }
+                if (pending.length < 4 + length) {
+                    break;
+                }
+                const payload = pending.toString('utf8', 4, 4 + length);
+                pending = pending.subarray(4 + length);
+                onDevices(parseDevices(payload));
+            }
+        }, onClose);
+        return conn;
+    }
+
+    /** Connects and switches the socket to the given device. */
+    async transport(serial: string): Promise<AdbConnection> {
+        const conn = await this.connect();
+        try {
+            await conn.request(`host:transport:${serial}`);
+            return conn;
+        } catch (error) {
+            conn.close();
+            throw error;
+        }
+    }
+
+    /** Runs a device service on a fresh transport and returns the open stream. */
+    async openService(serial: string, service: string): Promise<AdbConnection> {
+        const conn = await this.transport(serial);
+        try {
+            await conn.request(service);
+            return conn;
+        } catch (error) {
+            conn.close();
+            throw error;
+        }
+    }
+
+    /**
+     * Runs a shell command and returns its output (stdout and stderr merged).
+     * Array commands are quoted argument by argument.
+     */
+    async shell(serial: string, command: string | string[], timeoutMs?: number): Promise<string> {
+        const conn = await this.openShell(serial, command);
+        try {
+            const out = await conn.readAll(timeoutMs);
+            return out.toString('utf8');
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** Starts a shell command and returns the live stream (for logcat, interactive shells...). */
+    openShell(serial: string, command: string | string[] = ''): Promise<AdbConnection> {
+        return this.openService(serial, `shell:${toCommand(command)}`);
+    }
+
+    /**
+     * Starts a command over the v2 shell protocol (`shell,v2,...:`), which keeps
+     * stdout, stderr and the exit code apart and carries window size changes.
+     * Needs the `shell_v2` feature; see `features()`. With `pty`, the device
+     * allocates a terminal (an empty command then starts an interactive shell).
+     */
+    async openShellV2(
+        serial: string,
+        command: string | string[] = '',
+        options: { pty?: boolean; term?: string } = {},
+    ): Promise<AdbShellSession> {
+        const args = ['shell', 'v2', options.pty ? 'pty' : 'raw'];
+        if (options.term) {
+            args.push(`TERM=${options.term}`);
+        }
+        return new AdbShellSession(await this.openService(serial, `${args.join(',')}:${toCommand(command)}`));
+    }
+
+    /** Like `adb exec-out`: binary-safe output with no pty translation. */
+    async execOut(serial: string, command: string | string[], timeoutMs?: number): Promise<Buffer> {
+        const conn = await this.openService(serial, `exec:${toCommand(command)}`);
+        try {
+            return await conn.readAll(timeoutMs);
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** Transport features adbd and the server both support (`shell_v2`, `cmd`, `stat_v2`...). */
+    async features(serial: string): Promise<string[]> {
+        const output = await this.hostQuery(`host-serial:${serial}:features`);
+        return output.split(',').map((feature) => feature.trim()).filter((feature) => feature.length > 0);
+    }
+
+    /** Installed package names (`pm list packages`), optionally only third-party ones (`-3`). */
+    async listPackages(serial: string, thirdPartyOnly: boolean = false): Promise<string[]> {
+        const output = await this.shell(serial, ['pm', 'list', 'packages', ...(thirdPartyOnly ? ['-3'] : [])], SHELL_TIMEOUT_MS);
+        return output.split('\n')
+            .map((line) => line.trim().replace(/^package:/, ''))
+            .filter((name) => name.length > 0)
+            .sort();
+    }
+
+    async getProp(serial: string, prop: string): Promise<string> {
+        return (await this.shell(serial, ['getprop', prop], CONNECT_TIMEOUT_MS)).trim();
+    }
+
+    /** All system properties in one round trip (`getprop` with no arguments). */
+    async getProps(serial: string): Promise<{ [key: string]: string }> {
+        return parseProps(await this.shell(serial, 'getprop', CONNECT_TIMEOUT_MS));
+    }
+
+    /**
+     * AVD name of an emulator serial. Read from the system properties set by the
+     * emulator (`ro.boot.qemu.avd_name` on API 31+, `ro.kernel.qemu.avd_name` before).
+     */
+    async getAvdName(serial: string): Promise<string | null> {
+        return avdNameFromProps(await this.getProps(serial));
+    }
+
+    /** Battery level in percent from `dumpsys battery`, or undefined if not reported. */
+    async getBatteryLevel(serial: string): Promise<number | undefined> {
+        const out = await this.shell(serial, ['dumpsys', 'battery'], CONNECT_TIMEOUT_MS);
+        const match = out.match(/^\s*level:\s*(\d+)/m);
+        return match ? parseInt(match[1], 10) : undefined;
+    }
+
+    /** `reboot:` service; `mode` is '' for a normal reboot, or 'bootloader' / 'recovery'. */
+    async reboot(serial: string, mode: '' | 'bootloader' | 'recovery' = ''): Promise<void> {
+        const conn = await this.openService(serial, `reboot:${mode}`);
+        try {
+            // The device drops the connection once it goes down
+            await conn.readAll(CONNECT_TIMEOUT_MS).catch(() => undefined);
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** Wireless debugging pairing (`adb pair`); returns the server's message. */
+    async pair(address: string, code: string): Promise<string> {
+        const message = (await this.hostQuery(`host:pair:${code}:${address}`)).trim();
+        if (!/^Successfully paired/i.test(message)) {
+            throw new AdbError(message || `Failed to pair with ${address}`, 'host:pair');
+        }
+        return message;
+    }
+
+    /** `adb connect`; the server answers OKAY even on failure, so the message is checked. */
+    async connectDevice(address: string): Promise<string> {
+        const message = (await this.hostQuery(`host:connect:${address}`)).trim();
+        if (!/^(already )?connected to/i.test(message)) {
+            throw new AdbError(message || `Failed to connect to ${address}`, 'host:connect');
+        }
+        return message;
+    }
+
+    /** Services the adb server has discovered over mDNS (`adb mdns services`). */
+    async mdnsServices(): Promise<AdbMdnsService[]> {
+        return parseMdnsServices(await this.hostQuery('host:mdns:services'));
+    }
+
+    /** Drops a TCP/IP device (`adb disconnect`); returns the server's message. */
+    async disconnect(serial: string): Promise<string> {
+        return this.hostQuery(`host:disconnect:${serial}`);
+    }
+
+    /** All forwards on all devices (`host:list-forward`). */
+    async listForwards(): Promise<AdbForward[]> {
+        return parseForwards(await this.hostQuery('host:list-forward'));
+    }
+
+    /** `adb forward <local> <remote>`: connections to the host socket go to the device. */
+    async forward(serial: string, local: string, remote: string): Promise<void> {
+        await this.hostSerialCommand(serial, `forward:${local};${remote}`);
+    }
+
+    async removeForward(serial: string, local: string): Promise<void> {
+        await this.hostSerialCommand(serial, `killforward:${local}`);
+    }
+
+    /** Reverses on one device (`reverse:list-forward`). */
+    async listReverses(serial: string): Promise<AdbForward[]> {
+        const conn = await this.openService(serial, 'reverse:list-forward');
+        try {
+            // adbd lists its side first: `<transport> <device socket> <host socket>`
+            return parseForwards(await conn.readString())
+                .map((entry) => ({ serial, local: entry.remote, remote: entry.local }));
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** `adb reverse <remote> <local>`: connections to the device socket come back to the host. */
+    async reverse(serial: string, remote: string, local: string): Promise<void> {
+        await this.deviceCommand(serial, `reverse:forward:${remote};${local}`);
+    }
+
+    async removeReverse(serial: string, remote: string): Promise<void> {
+        await this.deviceCommand(serial, `reverse:killforward:${remote}`);
+    }
+
+    /**
+     * `adb emu <args>`. The adb server has no service for this (the adb binary
+     * talks to the emulator console itself), so it goes through the executable.
+     */
+    emu(serial: string, args: string[]): Promise<string> {
+        const adbPath = this.options.adbPath?.();
+        return new Promise((resolve, reject) => {
+            if (!adbPath) {
+                reject(new AdbError('ADB not found. Configure Android SDK path in settings.'));
+                return;
+            }
+            const argv = ['-P', String(this.port), '-s', serial, 'emu', ...args];
+            cp.execFile(adbPath, argv, { timeout: 15000 }, (err, stdout, stderr) => {
+                if (err) {
+                    reject(new AdbError((stderr || err.message).trim(), `emu ${args.join(' ')}`));
+                    return;
+                }
+                resolve(stdout);
+            });
+        });
+    }
+
+    /** AVD name from the emulator console (`adb emu avd name`), which answers while the guest is still booting. */
+    async emuAvdName(serial: string): Promise<string | null> {
+        const name = (await this.emu(serial, ['avd', 'name'])).split(/\r?\n/)[0].trim();
+        return name && name !== 'OK' && !name.startsWith('KO') ? name : null;
+    }
+
+    /**
+     * Like `adb install -r -t`: pushes the APK to `/data/local/tmp` and installs
+     * it with `pm`, which reports failures on stdout.
+     */
+    async install(serial: string, apk: Buffer, fileName: string): Promise<void> {
+        const remotePath = `/data/local/tmp/${fileName.replace(/[^\w.-]/g, '_')}`;
+        const sync = await this.sync(serial);
+        try {
+            await sync.push(apk, remotePath);
+        } finally {
+            sync.close();
+        }
+        try {
+            const output = (await this.shell(serial, ['pm', 'install', '-r', '-t', remotePath], INSTALL_TIMEOUT_MS)).trim();
+            if (!/^Success/m.test(output)) {
+                throw new AdbError(output || 'pm install produced no output', 'pm install');
+            }
+        } finally {
+            await this.shell(serial, ['rm', '-f', remotePath], CONNECT_TIMEOUT_MS).catch(() => undefined);
+        }
+    }
+
+    /** Opens a file sync session (`sync:`) on the device. */
+    async sync(serial: string): Promise<AdbSync> {
+        return new AdbSync(await this.openService(serial, 'sync:'));
+    }
+
+    /** `host-serial:` services answer OKAY once for the device and once more for the result. */
+    private async hostSerialCommand(serial: string, service: string): Promise<void> {
+        const conn = await this.connect();
+        try {
+            await conn.request(`host-serial:${serial}:${service}`);
+            await conn.readStatus(service);
+        } finally {
+            conn.close();
+        }
+    }
+
+    /** Device services that answer OKAY when opened, then OKAY or FAIL for the result. */
+    private async deviceCommand(serial: string, service: string): Promise<void> {
+        const conn = await this.openService(serial, service);
+        try {
+            await conn.readStatus(service);
+        } finally {
+            conn.close();
+        }
+    }
+
+    private openSocket(): Promise<AdbConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host: this.host, port: this.port });
+            socket.setTimeout(CONNECT_TIMEOUT_MS);
+            const onError = (err: Error) => {
+                socket.destroy();
+                reject(err);
+            };
+            socket.once('error', onError);
+            socket.once('timeout', () => onError(new AdbError('Timed out connecting to adb server')));
+            socket.once('connect', () => {
+                socket.removeListener('error', onError);
+                socket.removeAllListeners('timeout');
+                socket.setTimeout(0);
+                resolve(new AdbConnection(socket));
+            });
+        });
+    }
+
+    private startServer(): Promise<void> {
+        if (!this.serverStart) {
+            const adbPath = this.options.adbPath?.();
+            this.serverStart = new Promise<void>((resolve, reject) => {
+                if (!adbPath) {
+                    reject(new AdbError('ADB not found. Configure Android SDK path in settings.'));
+                    return;
+                }
+                cp.execFile(adbPath, ['-P', String(this.port), 'start-server'], { timeout: 30000 }, (err) => {
+                    if (err) {
+                        reject(new AdbError(`Failed to start adb server: ${err.message}`));
+                        return;
+                    }
+                    resolve();
+                });
+            }).finally(() => {
+                this.serverStart = null;
+            });
+        }
+        return this.serverStart;
+    }
+}
+
+/**
+ * One socket to the adb server. Reads are buffered so protocol replies can be
+ * consumed piecewise; `stream()` hands the remaining bytes to a listener instead.
+ */
+export class AdbConnection {
+    private buffer: Buffer = Buffer.alloc(0);
+    private ended = false;
+    private error: Error | null = null;
+    private waiter: (() => void) | null = null;
+    private onData: ((chunk: Buffer) => void) | null = null;
+    private onClose: ((error?: Error) => void) | null = null;
+
+    constructor(readonly socket: net.Socket) {
+        socket.on('data', (chunk: Buffer) => {
+            if (this.onData) {
+                this.onData(chunk);
+                return;
+            }
+            this.buffer = Buffer.concat([this.buffer, chunk]);
+            this.wake();
+        });
+        socket.on('error', (err) => {
+            this.error = err;
+            this.wake();
+        });
+        socket.on('close', () => {
+            this.ended = true;
+            this.wake();
+            this.onClose?.(this.error ?? undefined);
+            this.onClose = null;
+        });
+    }
+
+    get closed(): boolean {
+        return this.ended;
+    }
+
+    /** Sends a length-prefixed service request and waits for OKAY. */
+    async request(service: string): Promise<void> {
+        this.write(encodeRequest(service));
+        await this.readStatus(service);
+    }
+
+    async readStatus(service?: string): Promise<void> {
+        const status = (await this.read(4)).toString('ascii');
+        if (status === 'OKAY') {
+            return;
+        }
+        if (status === 'FAIL') {
+            throw new AdbError(await this.readString(), service);
+        }
+        throw new AdbError(`Unexpected adb response "${status}"`, service);
+    }
+
+    /** Reads a `<4 hex length><payload>` string. */
+    async readString(): Promise<string> {
+        const length = parseInt((await this.read(4)).toString('ascii'), 16);
+        if (isNaN(length)) {
+            throw new AdbError('Malformed length prefix from adb server');
+        }
+        return (await this.read(length)).toString('utf8');
+    }
+
+    async read(length: number): Promise<Buffer> {
+        while (this.buffer.length < length) {
+            if (this.error) {
+                throw new AdbError(this.error.message);
+            }
+            if (this.ended) {
+                throw new AdbError('Connection closed by adb server');
+            }
+            await this.wait();
+        }
+        const out = this.buffer.subarray(0, length);
+        this.buffer = this.buffer.subarray(length);
+        return out;
+    }
+
+    /** Reads until the remote side closes the stream. */
+    async readAll(timeoutMs?: number): Promise<Buffer> {
+        let timer: NodeJS.Timeout | undefined;
+        if (timeoutMs) {
+            timer = setTimeout(() => {
+                this.error = new AdbError(`Timed out after ${timeoutMs}ms`);
+                this.socket.destroy();
+            }, timeoutMs);
+        }
+        try {
+            while (!this.ended) {
+                if (this.error) {
+                    throw new AdbError(this.error.message);
+                }
+                await this.wait();
+            }
+            if (this.error) {
+                throw new AdbError(this.error.message);
+            }
+            const out = this.buffer;
+            this.buffer = Buffer.alloc(0);
+            return out;
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+        }
+    }
+
+    /** Switches to streaming: buffered and future bytes are delivered to `onData`. */
+    stream(onData: (chunk: Buffer) => void, onClose?: (error?: Error) => void): void {
+        this.onData = onData;
+        this.onClose = onClose ?? null;
+        if (this.buffer.length > 0) {
+            const pending = this.buffer;
+            this.buffer = Buffer.alloc(0);
+            onData(pending);
+        }
+        if (this.ended) {
+            this.onClose?.(this.error ?? undefined);
+            this.onClose = null;
+        }
+    }
+
+    write(data: Buffer | string): void {
+        this.socket.write(data);
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+
+    private wait(): Promise<void> {
+        return new Promise((resolve) => {
+            this.waiter = resolve;
+        });
+    }
+
+    private wake(): void {
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter?.();
+    }
+}
+
+export interface AdbShellHandlers {
+    onStdout(data: Buffer): void;
+    onStderr(data: Buffer): void;
+    /** `code` is undefined when the stream ended without an exit packet. */
+    onExit(code: number | undefined, error?: Error): void;
+}
+
+/**
+ * Shell protocol v2 session. Packets in both directions are
+ * `<1 byte id><uint32 LE length><payload>`.
+ */
+export class AdbShellSession {
+    private pending: Buffer = Buffer.alloc(0);
+
+    constructor(private readonly conn: AdbConnection) { }
+
+    get closed(): boolean {
+        return this.conn.closed;
+    }
+
+    start(handlers: AdbShellHandlers): void {
+        let exitCode: number | undefined;
+        this.conn.stream(
+            (chunk) => {
+                this.pending = Buffer.concat([this.pending, chunk]);
+                while (this.pending.length >= 5) {
+                    const length = this.pending.readUInt32LE(1);
+                    if (this.pending.length < 5 + length) {
+                        break;
+                    }
+                    const id = this.pending[0];
+                    const payload = this.pending.subarray(5, 5 + length);
+                    this.pending = this.pending.subarray(5 + length);
+                    if (id === SHELL_STDOUT) {
+                        handlers.onStdout(payload);
+                    } else if (id === SHELL_STDERR) {
+                        handlers.onStderr(payload);
+                    } else if (id === SHELL_EXIT && payload.length > 0) {
+                        exitCode = payload[0];
+                    }
+                }
+            },
+            (error) => handlers.onExit(exitCode, error),
+        );
+    }
+
+    write(data: Buffer | string): void {
+        this.send(SHELL_STDIN, typeof data === 'string' ? Buffer.from(data, 'utf8') : data);
+    }
+
+    /** Resizes the device pty; the payload is `<rows>x<cols>,<xpixels>x<ypixels>` NUL-terminated. */
+    resize(rows: number, columns: number): void {
+        this.send(SHELL_WINDOW_SIZE, Buffer.from(`${rows}x${columns},0x0\0`, 'ascii'));
+    }
+
+    closeStdin(): void {
+        this.send(SHELL_CLOSE_STDIN, Buffer.alloc(0));
+    }
+
+    close(): void {
+        this.conn.close();
+    }
+
+    private send(id: number, payload: Buffer): void {
+        if (this.conn.closed) {
+            return;
+        }
+        const header = Buffer.alloc(5);
+        header[0] = id;
+        header.writeUInt32LE(payload.length, 1);
+        this.conn.write(Buffer.concat([header, payload]));
+    }
+}
+
+/**
+ * File sync session. Requests are `<4 byte id><uint32 LE length><payload>`,
+ * replies carry the same framing (`STAT`, `DENT`, `DATA`, `DONE`, `OKAY`, `FAIL`).
+ */
+export class AdbSync {
+    constructor(private readonly conn: AdbConnection) { }
+
+    async stat(path: string): Promise<AdbFileEntry> {
+        this.sendRequest('STAT', path);
+        const id = await this.readId();
+        if (id !== 'STAT') {
+            throw new AdbError(`Unexpected sync response "${id}"`, 'STAT');
+        }
+        const body = await this.conn.read(12);
+        return {
+            name: path.split('/').pop() ?? path,
+            mode: body.readUInt32LE(0),
+            size: body.readUInt32LE(4),
+            mtime: body.readUInt32LE(8),
+        };
+    }
+
+    async list(path: string): Promise<AdbFileEntry[]> {
+        this.sendRequest('LIST', path);
+        const entries: AdbFileEntry[] = [];
+        for (; ;) {
+            const id = await this.readId();
+            if (id === 'DONE') {
+                await this.conn.read(16);
+                return entries;
+            }
+            if (id === 'FAIL') {
+                throw new AdbError(await this.readFailMessage(), 'LIST');
+            }
+            if (id !== 'DENT') {
+                throw new AdbError(`Unexpected sync response "${id}"`, 'LIST');
+            }
+            const body = await this.conn.read(16);
+            const name = (await this.conn.read(body.readUInt32LE(12))).toString('utf8');
+            if (name === '.' || name === '..') {
+                continue;
+            }
+            entries.push({
+                name,
+                mode: body.readUInt32LE(0),
+                size: body.readUInt32LE(4),
+                mtime: body.readUInt32LE(8),
+            });
+        }
+    }
+
+    async pull(path: string): Promise<Buffer> {
+        this.sendRequest('RECV', path);
+        const chunks: Buffer[] = [];
+        for (; ;) {
+            const id = await this.readId();
+            if (id === 'DONE') {
+                await this.conn.read(4);
+                return Buffer.concat(chunks);
+            }
+            if (id === 'FAIL') {
+                throw new AdbError(await this.readFailMessage(), 'RECV');
+            }
+            if (id !== 'DATA') {
+                throw new AdbError(`Unexpected sync response "${id}"`, 'RECV');
+            }
+            const length = (await this.conn.read(4)).readUInt32LE(0);
+            chunks.push(await this.conn.read(length));
+        }
+    }
+
+    async push(data: Buffer, path: string, mode: number = 0o644): Promise<void> {
+        this.sendRequest('SEND', `${path},${mode}`);
+        for (let offset = 0; offset < data.length; offset += SYNC_DATA_MAX) {
+            const chunk = data.subarray(offset, offset + SYNC_DATA_MAX);
+            this.conn.write(syncHeader('DATA', chunk.length));
+            this.conn.write(chunk);
+        }
+        this.conn.write(syncHeader('DONE', Math.floor(Date.now() / 1000)));
+        const id = await this.readId();
+        if (id === 'FAIL') {
+            throw new AdbError(await this.readFailMessage(), 'SEND');
+        }
+        if (id !== 'OKAY') {
+            throw new AdbError(`Unexpected sync response "${id}"`, 'SEND');
+        }
+        await this.conn.read(4);
+    }
+
+    close(): void {
+        if (!this.conn.closed) {
+            this.conn.write(syncHeader('QUIT', 0));
+        }
+        this.conn.close();
+    }
+
+    private sendRequest(id: string, path: string): void {
+        const payload = Buffer.from(path, 'utf8');
+        this.conn.write(Buffer.concat([syncHeader(id, payload.length), payload]));
+    }
+
+    private async readId(): Promise<string> {
+        return (await this.conn.read(4)).toString('ascii');
+    }
+
+    private async readFailMessage(): Promise<string> {
+        const length = (await this.conn.read(4)).readUInt32LE(0);
+        return (await this.conn.read(length)).toString('utf8');
+    }
+}
+
+/** Parses `host:devices-l` output. */
+export function parseDevices(output: string): AdbDevice[] {
+    const devices: AdbDevice[] = [];
+    for (const line of output.split('\n')) {
+        const tokens = line.trim().split(/\s+/);
+        if (tokens.length < 2 || !tokens[0]) {
+            continue;
+        }
+
+        const stateTokens: string[] = [];
+        const props: { [key: string]: string } = {};
+        for (const token of tokens.slice(1)) {
+            const match = token.match(/^([a-z_]+):(.*)$/);
+            if (match && (stateTokens.length > 0 || Object.keys(props).length > 0)) {
+                props[match[1]] = match[2];
+            } else if (Object.keys(props).length === 0) {
+                stateTokens.push(token);
+            }
+        }
+
+        devices.push({
+            serial: tokens[0],
+            state: stateTokens.join(' ').replace(/\s*\(.*$/, ''),
+            product: props['product'],
+            model: props['model'],
+            device: props['device'],
+            transportId: props['transport_id'],
+            usb: props['usb'],
+        });
+    }
+    return devices;
+}
+
+/** Parses `host:mdns:services` output (`name\ttype\tip:port` per line). */
+export function parseMdnsServices(output: string): AdbMdnsService[] {
+    const services: AdbMdnsService[] = [];
+    for (const line of output.split('\n')) {
+        const [name, type, address] = line.trim().split(/\t+/);
+        if (name && type && address) {
+            services.push({ name, type: type.replace(/\.$/, ''), address });
+        }
+    }
+    return services;
+}
+
+/** Parses `<serial> <local> <remote>` lines. */
+export function parseForwards(output: string): AdbForward[] {
+    const forwards: AdbForward[] = [];
+    for (const line of output.split('\n')) {
+        const [serial, local, remote] = line.trim().split(/\s+/);
+        if (serial && local && remote) {
+            forwards.push({ serial, local, remote });
+        }
+    }
+    return forwards;
+}
+
+/** Parses `getprop` output (`[key]: [value]` per line). */
+export function parseProps(output: string): { [key: string]: string } {
+    const props: { [key: string]: string } = {};
+    for (const line of output.split('\n')) {
+        const match = line.trim().match(/^\[(.+?)\]: \[(.*)\]$/);
+        if (match) {
+            props[match[1]] = match[2];
+        }
+    }
+    return props;
+}
+
+/** AVD name from emulator system properties (API 31+ first). */
+export function avdNameFromProps(props: { [key: string]: string }): string | null {
+    return props['ro.boot.qemu.avd_name'] || props['ro.kernel.qemu.avd_name'] || null;
+}
+
+/** Quotes one argument for the device's `sh`. */
+export function shellQuote(arg: string): string {
+    if (arg !== '' && /^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function toCommand(command: string | string[]): string {
+    return Array.isArray(command) ? command.map(shellQuote).join(' ') : command;
+}
+
+function encodeRequest(service: string): Buffer {
+    const payload = Buffer.from(service, 'utf8');
+    const length = payload.length.toString(16).padStart(4, '0');
+    return Buffer.concat([Buffer.from(length, 'ascii'), payload]);
+}
+
+function syncHeader(id: string, value: number): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 4, 'ascii');
+    header.writeUInt32LE(value, 4);
+    return header;
+}
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import type { DeviceFile, DeviceFileSystem } from './DeviceFileSystem';
+
+export const ADBFS_SCHEME = 'adbfs';
+
+/** `adbfs://<serial>/<path>` */
+export function adbfsUri(serial: string, path: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: ADBFS_SCHEME, authority: serial, path });
+}
+
+/**
+ * Read-only `adbfs://<serial>/<path>` file system so device files open in the
+ * editor. Changes go through the Device Files view commands instead.
+ */
+export class AdbFileSystemProvider implements vscode.FileSystemProvider {
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private readonly files: DeviceFileSystem) { }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { });
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const file = await this.call(uri, () => this.files.stat(uri.authority, uri.path));
+        return {
+            type: toFileType(file),
+            ctime: file.mtime * 1000,
+            mtime: file.mtime * 1000,
+            size: file.size,
+            permissions: vscode.FilePermission.Readonly,
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const entries = await this.call(uri, () => this.files.list(uri.authority, uri.path));
+        return entries.map((file) => [file.name, toFileType(file)]);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        return this.call(uri, () => this.files.read(uri.authority, uri.path));
+    }
+
+    writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    private async call<T>(uri: vscode.Uri, run: () => Promise<T>): Promise<T> {
+        try {
+            return await run();
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            if (/No such file/i.test(message)) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            if (/Permission denied|not debuggable/i.test(message)) {
+                throw vscode.FileSystemError.NoPermissions(message);
+            }
+            throw vscode.FileSystemError.Unavailable(message);
+        }
+    }
+}
+
+function toFileType(file: DeviceFile): vscode.FileType {
+    switch (file.type) {
+        case 'directory':
+            return vscode.FileType.Directory;
+        case 'file':
+            return vscode.FileType.File;
+        case 'symlink':
+            return vscode.FileType.SymbolicLink | vscode.FileType.File;
+        default:
+            return vscode.FileType.Unknown;
+    }
+}
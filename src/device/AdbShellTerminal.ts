@@ -0,0 +1,127 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { shellQuote } from './AdbClient';
+import type { AdbClient, AdbConnection, AdbShellSession } from './AdbClient';
+
+const TERM = 'xterm-256color';
+
+export interface AdbShellTerminalOptions {
+    /** Run the shell as this app (`run-as <applicationId>`); only works for debuggable apps. */
+    runAs?: string;
+}
+
+/**
+ * Interactive `adb shell` as a VS Code terminal. Uses a device pty over the v2
+ * shell protocol when adbd supports `shell_v2`, so resizes reach the device;
+ * older devices get the legacy `shell:` stream, which has a pty but a fixed size.
+ */
+export class AdbShellTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+
+    private session: AdbShellSession | undefined;
+    private legacy: AdbConnection | undefined;
+    private dimensions: vscode.TerminalDimensions | undefined;
+    private readonly decoder = new StringDecoder('utf8');
+    /** Set once the shell is gone; the next key press closes the terminal. */
+    private ended = false;
+
+    constructor(
+        private readonly adb: AdbClient,
+        private readonly serial: string,
+        private readonly options: AdbShellTerminalOptions = {},
+    ) { }
+
+    open(initialDimensions: vscode.TerminalDimensions | undefined): void {
+        this.dimensions = initialDimensions;
+        void this.connect();
+    }
+
+    close(): void {
+        this.ended = true;
+        this.session?.close();
+        this.legacy?.close();
+    }
+
+    handleInput(data: string): void {
+        if (this.ended) {
+            this.closeEmitter.fire();
+            return;
+        }
+        if (this.session) {
+            this.session.write(data);
+        } else {
+            this.legacy?.write(data);
+        }
+    }
+
+    setDimensions(dimensions: vscode.TerminalDimensions): void {
+        this.dimensions = dimensions;
+        this.session?.resize(dimensions.rows, dimensions.columns);
+    }
+
+    private async connect(): Promise<void> {
+        const runAs = this.options.runAs;
+        try {
+            const features = await this.adb.features(this.serial);
+            if (features.includes('shell_v2')) {
+                const session = await this.adb.openShellV2(this.serial, runAs ? ['run-as', runAs] : '', { pty: true, term: TERM });
+                this.session = session;
+                if (this.dimensions) {
+                    session.resize(this.dimensions.rows, this.dimensions.columns);
+                }
+                session.start({
+                    onStdout: (data) => this.output(data),
+                    onStderr: (data) => this.output(data),
+                    onExit: (code, error) => this.exit(code, error),
+                });
+            } else {
+                const conn = await this.adb.openShell(this.serial);
+                this.legacy = conn;
+                conn.stream((data) => this.output(data), (error) => this.exit(undefined, error));
+                if (runAs) {
+                    // The legacy service only allocates a pty for an empty command
+                    conn.write(`exec run-as ${shellQuote(runAs)}\n`);
+                }
+            }
+        } catch (error: any) {
+            this.exit(undefined, error);
+        }
+    }
+
+    private output(data: Buffer): void {
+        this.writeEmitter.fire(this.decoder.write(data));
+    }
+
+    private exit(code: number | undefined, error?: Error): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        const rest = this.decoder.end();
+        if (rest) {
+            this.writeEmitter.fire(rest);
+        }
+        if (!error && !code) {
+            this.closeEmitter.fire(code);
+            return;
+        }
+        // Keep the terminal open so a failed run-as or a lost device can be read
+        const reason = error ? (error.message || String(error)) : `Shell exited with code ${code}`;
+        this.writeEmitter.fire(`\r\n\x1b[31m${reason}\x1b[0m\r\nPress any key to close the terminal.\r\n`);
+    }
+}
+
+/** Opens and shows an adb shell terminal on a device. */
+export function openDeviceShell(adb: AdbClient, serial: string, label: string, options: AdbShellTerminalOptions = {}): vscode.Terminal {
+    const name = options.runAs ? `adb shell (${options.runAs}): ${label}` : `adb shell: ${label}`;
+    const terminal = vscode.window.createTerminal({
+        name,
+        pty: new AdbShellTerminal(adb, serial, options),
+        iconPath: new vscode.ThemeIcon('terminal'),
+    });
+    terminal.show();
+    return terminal;
+}
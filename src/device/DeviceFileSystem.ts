@@ -0,0 +1,179 @@
+import * as crypto from 'crypto';
+import { posix as nodePath } from 'path';
+import { AdbClient, AdbError } from './AdbClient';
+import type { AdbFileEntry, AdbSync } from './AdbClient';
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+const SHELL_TIMEOUT_MS = 30000;
+const TRANSFER_TIMEOUT_MS = 5 * 60 * 1000;
+/** `stat -c` format for run-as listings: `%f` is the raw mode in hex, `%Y` the mtime in seconds. */
+const STAT_FORMAT = '%f|%s|%Y|%n';
+
+export type DeviceFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface DeviceFile {
+    name: string;
+    /** Absolute path on the device. */
+    path: string;
+    type: DeviceFileType;
+    size: number;
+    /** Seconds since the epoch. */
+    mtime: number;
+}
+
+/**
+ * Files on a device. Regular paths go through the sync service; paths inside an
+ * app's data directory (`/data/data/<pkg>`, `/data/user/<n>/<pkg>`) are only
+ * readable by that app, so they go through `run-as <pkg>` shell commands and
+ * only work for debuggable apps.
+ */
+export class DeviceFileSystem {
+    constructor(private readonly adb: AdbClient) { }
+
+    async list(serial: string, path: string): Promise<DeviceFile[]> {
+        const pkg = appPackageOf(path);
+        if (pkg) {
+            const output = await this.runAs(serial, pkg, [
+                'find', path, '-mindepth', '1', '-maxdepth', '1', '-exec', 'stat', '-c', STAT_FORMAT, '{}', '+',
+            ]);
+            const files = parseStatLines(output);
+            if (files.length === 0 && output.trim()) {
+                throw new AdbError(output.trim(), 'find');
+            }
+            return files;
+        }
+        // The trailing slash makes LIST follow symlinks such as /sdcard
+        const entries = await this.withSync(serial, (sync) => sync.list(path.endsWith('/') ? path : `${path}/`));
+        return entries.map((entry) => toDeviceFile(nodePath.join(path, entry.name), entry));
+    }
+
+    async stat(serial: string, path: string): Promise<DeviceFile> {
+        const pkg = appPackageOf(path);
+        if (pkg) {
+            const [file] = parseStatLines(await this.runAs(serial, pkg, ['stat', '-c', STAT_FORMAT, path]));
+            if (!file) {
+                throw new AdbError(`${path}: No such file or directory`, 'stat');
+            }
+            return file;
+        }
+        const entry = await this.withSync(serial, (sync) => sync.stat(path));
+        // STAT reports an all-zero entry for paths that do not exist or are not accessible
+        if (entry.mode === 0) {
+            throw new AdbError(`${path}: No such file or directory`, 'STAT');
+        }
+        return toDeviceFile(path, entry);
+    }
+
+    async read(serial: string, path: string): Promise<Buffer> {
+        const pkg = appPackageOf(path);
+        if (pkg) {
+            return this.adb.execOut(serial, ['run-as', pkg, 'cat', path], TRANSFER_TIMEOUT_MS);
+        }
+        return this.withSync(serial, (sync) => sync.pull(path));
+    }
+
+    /** Creates or replaces a file. App data is staged in /data/local/tmp and copied in with `run-as`. */
+    async write(serial: string, path: string, data: Buffer): Promise<void> {
+        const pkg = appPackageOf(path);
+        if (!pkg) {
+            await this.withSync(serial, (sync) => sync.push(data, path));
+            return;
+        }
+        const staging = `/data/local/tmp/.asl-${crypto.randomBytes(6).toString('hex')}`;
+        await this.withSync(serial, (sync) => sync.push(data, staging));
+        try {
+            await this.runAs(serial, pkg, ['cp', staging, path]);
+        } finally {
+            await this.adb.shell(serial, ['rm', '-f', staging], SHELL_TIMEOUT_MS).catch(() => undefined);
+        }
+    }
+
+    async delete(serial: string, path: string): Promise<void> {
+        await this.exec(serial, path, ['rm', '-rf', path]);
+    }
+
+    async mkdir(serial: string, path: string): Promise<void> {
+        await this.exec(serial, path, ['mkdir', '-p', path]);
+    }
+
+    /** Runs a command that prints nothing on success, as the app for app data paths. */
+    private async exec(serial: string, path: string, command: string[]): Promise<void> {
+        const pkg = appPackageOf(path);
+        const output = pkg
+            ? await this.runAs(serial, pkg, command)
+            : await this.adb.shell(serial, command, SHELL_TIMEOUT_MS);
+        if (output.trim()) {
+            throw new AdbError(output.trim(), command[0]);
+        }
+    }
+
+    private async runAs(serial: string, pkg: string, command: string[]): Promise<string> {
+        const output = await this.adb.shell(serial, ['run-as', pkg, ...command], SHELL_TIMEOUT_MS);
+        // e.g. "run-as: package not debuggable: com.example"
+        if (/^run-as:/m.test(output)) {
+            throw new AdbError(output.trim(), 'run-as');
+        }
+        return output;
+    }
+
+    private async withSync<T>(serial: string, run: (sync: AdbSync) => Promise<T>): Promise<T> {
+        const sync = await this.adb.sync(serial);
+        try {
+            return await run(sync);
+        } finally {
+            sync.close();
+        }
+    }
+}
+
+/** The package owning an app data path, if any. */
+export function appPackageOf(path: string): string | undefined {
+    const match = /^\/data\/(?:data|user\/\d+)\/([^/]+)/.exec(path);
+    return match?.[1];
+}
+
+export function fileTypeOf(mode: number): DeviceFileType {
+    switch (mode & S_IFMT) {
+        case S_IFDIR:
+            return 'directory';
+        case S_IFREG:
+            return 'file';
+        case S_IFLNK:
+            return 'symlink';
+        default:
+            return 'other';
+    }
+}
+
+function toDeviceFile(path: string, entry: AdbFileEntry): DeviceFile {
+    return {
+        name: nodePath.basename(path) || '/',
+        path,
+        type: fileTypeOf(entry.mode),
+        size: entry.size,
+        mtime: entry.mtime,
+    };
+}
+
+/** Parses `stat -c '%f|%s|%Y|%n'` output; error lines from find/stat are skipped. */
+function parseStatLines(output: string): DeviceFile[] {
+    const files: DeviceFile[] = [];
+    for (const line of output.split('\n')) {
+        const match = /^([0-9a-f]+)\|(\d+)\|(\d+)\|(.+)$/.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        const path = match[4];
+        files.push({
+            name: nodePath.basename(path) || '/',
+            path,
+            type: fileTypeOf(parseInt(match[1], 16)),
+            size: Number(match[2]),
+            mtime: Number(match[3]),
+        });
+    }
+    return files;
+}
@@ -0,0 +1,294 @@
+import { Disposable, EventEmitter } from 'vscode';
+import type { Manager } from '../core';
+import { avdNameFromProps } from './AdbClient';
+import type { AdbConnection, AdbDevice, AdbDeviceState } from './AdbClient';
+
+const MIN_POLL_INTERVAL_MS = 500;
+/** Backoff for re-reading properties of an online device whose shell was not ready. */
+const PROPS_RETRY_BASE_MS = 1000;
+const PROPS_RETRY_MAX_MS = 15000;
+const PROPS_RETRY_ATTEMPTS = 8;
+
+export interface TrackedDevice extends AdbDevice {
+    /**
+     * AVD name for emulators ('' if not an emulator): from the console while an
+     * emulator boots, then from its properties once online.
+     */
+    avdName?: string;
+    /** `ro.build.version.sdk`, e.g. "34". */
+    apiLevel?: string;
+    /** `ro.build.version.release`, e.g. "14". */
+    release?: string;
+    /** `ro.product.cpu.abi`, e.g. "arm64-v8a". */
+    abi?: string;
+    manufacturer?: string;
+}
+
+export interface DeviceStateChange {
+    device: TrackedDevice;
+    previousState: AdbDeviceState;
+}
+
+/**
+ * Keeps the list of devices known to the adb server up to date.
+ *
+ * Holds an open `host:track-devices-l` stream; if the stream cannot be opened
+ * or drops, it falls back to listing devices every `devicePollInterval` ms and
+ * keeps trying to re-open the stream on each tick.
+ */
+export class DeviceTracker implements Disposable {
+    private readonly _devices = new Map<string, TrackedDevice>();
+    private readonly resolving = new Set<string>();
+    /** Devices whose properties have been read; `avdName` alone may come from the console. */
+    private readonly resolved = new WeakSet<TrackedDevice>();
+    /** Pending property retries by serial; the stream sends nothing new while a device stays online. */
+    private readonly propsRetries = new Map<string, NodeJS.Timeout>();
+    /** Warnings already written since the stream last opened; polling would repeat them every tick. */
+    private readonly warned = new Set<string>();
+    private stream: AdbConnection | null = null;
+    private pollTimer: NodeJS.Timeout | undefined;
+    private connecting = false;
+    private disposed = false;
+
+    private readonly _onDeviceAdded = new EventEmitter<TrackedDevice>();
+    readonly onDeviceAdded = this._onDeviceAdded.event;
+
+    private readonly _onDeviceRemoved = new EventEmitter<TrackedDevice>();
+    readonly onDeviceRemoved = this._onDeviceRemoved.event;
+
+    private readonly _onDeviceStateChanged = new EventEmitter<DeviceStateChange>();
+    readonly onDeviceStateChanged = this._onDeviceStateChanged.event;
+
+    /** Fires after any add/remove/state change or once a device's properties are known. */
+    private readonly _onDidChangeDevices = new EventEmitter<TrackedDevice[]>();
+    readonly onDidChangeDevices = this._onDidChangeDevices.event;
+
+    constructor(private readonly manager: Manager) { }
+
+    get isTracking(): boolean {
+        return this.stream !== null;
+    }
+
+    get devices(): TrackedDevice[] {
+        return Array.from(this._devices.values());
+    }
+
+    getDevice(serial: string): TrackedDevice | undefined {
+        return this._devices.get(serial);
+    }
+
+    findByAvdName(avdName: string): TrackedDevice | undefined {
+        return this.devices.find((d) => d.avdName === avdName);
+    }
+
+    start(): void {
+        void this.track();
+    }
+
+    /** One-shot `host:devices-l`, for callers that cannot wait for the next stream update. */
+    async refresh(): Promise<TrackedDevice[]> {
+        try {
+            this.update(await this.manager.adb.listDevices());
+        } catch (error: any) {
+            this.warn(`Device list unavailable: ${error?.message ?? error}`);
+        }
+        return this.devices;
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.stopPolling();
+        for (const serial of [...this.propsRetries.keys()]) {
+            this.cancelPropsRetry(serial);
+        }
+        this.stream?.close();
+        this.stream = null;
+        this._onDeviceAdded.dispose();
+        this._onDeviceRemoved.dispose();
+        this._onDeviceStateChanged.dispose();
+        this._onDidChangeDevices.dispose();
+    }
+
+    private async track(): Promise<void> {
+        if (this.disposed || this.stream || this.connecting) {
+            return;
+        }
+
+        this.connecting = true;
+        let conn: AdbConnection | null = null;
+        let closedEarly = false;
+        try {
+            conn = await this.manager.adb.trackDevices(
+                (devices) => this.update(devices),
+                (error) => {
+                    if (!conn || this.stream !== conn) {
+                        closedEarly = true;
+                        return;
+                    }
+                    this.warn(`Device stream closed${error ? `: ${error.message}` : ''}`);
+                    this.stream = null;
+                    this.startPolling();
+                },
+            );
+        } catch (error: any) {
+            this.warn(`Cannot track devices, polling instead: ${error?.message ?? error}`);
+        } finally {
+            this.connecting = false;
+        }
+
+        if (!conn || closedEarly || this.disposed) {
+            conn?.close();
+            this.startPolling();
+            return;
+        }
+        this.stream = conn;
+        this.warned.clear();
+        this.stopPolling();
+    }
+
+    private startPolling(): void {
+        if (this.pollTimer || this.disposed) {
+            return;
+        }
+        const interval = Math.max(MIN_POLL_INTERVAL_MS, this.manager.getConfig().devicePollInterval);
+        this.pollTimer = setInterval(async () => {
+            await this.track();
+            if (!this.isTracking) {
+                await this.refresh();
+            }
+        }, interval);
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    private update(devices: AdbDevice[]): void {
+        let changed = false;
+        const seen = new Set<string>();
+
+        for (const device of devices) {
+            seen.add(device.serial);
+            let tracked = this._devices.get(device.serial);
+            if (!tracked) {
+                tracked = { ...device };
+                this._devices.set(device.serial, tracked);
+                this._onDeviceAdded.fire(tracked);
+                changed = true;
+            } else if (tracked.state !== device.state) {
+                const previousState = tracked.state;
+                Object.assign(tracked, device);
+                this._onDeviceStateChanged.fire({ device: tracked, previousState });
+                changed = true;
+            } else {
+                Object.assign(tracked, device);
+            }
+
+            if (tracked.state === 'device' && !this.resolved.has(tracked)) {
+                void this.resolveProperties(tracked);
+            } else if (tracked.state !== 'device' && tracked.avdName === undefined && /^emulator-\d+$/.test(tracked.serial)) {
+                void this.resolveEmulatorName(tracked);
+            }
+        }
+
+        for (const [serial, tracked] of this._devices) {
+            if (!seen.has(serial)) {
+                this._devices.delete(serial);
+                this.cancelPropsRetry(serial);
+                this._onDeviceRemoved.fire(tracked);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this._onDidChangeDevices.fire(this.devices);
+        }
+    }
+
+    private async resolveProperties(device: TrackedDevice, attempt: number = 0): Promise<void> {
+        if (this.resolving.has(device.serial) || (attempt === 0 && this.propsRetries.has(device.serial))) {
+            return;
+        }
+        this.resolving.add(device.serial);
+        let failed = false;
+        try {
+            const props = await this.manager.adb.getProps(device.serial);
+            if (this._devices.get(device.serial) !== device) {
+                return;
+            }
+            device.avdName = avdNameFromProps(props) ?? device.avdName ?? '';
+            this.resolved.add(device);
+            device.apiLevel = props['ro.build.version.sdk'];
+            device.release = props['ro.build.version.release'];
+            device.abi = props['ro.product.cpu.abi'];
+            device.manufacturer = props['ro.product.manufacturer'];
+            device.model = device.model ?? props['ro.product.model'];
+            this._onDidChangeDevices.fire(this.devices);
+        } catch {
+            // shell not ready yet
+            failed = true;
+        } finally {
+            this.resolving.delete(device.serial);
+        }
+        if (failed) {
+            this.schedulePropsRetry(device, attempt + 1);
+        }
+    }
+
+    private schedulePropsRetry(device: TrackedDevice, attempt: number): void {
+        this.cancelPropsRetry(device.serial);
+        if (this.disposed) {
+            return;
+        }
+        if (attempt > PROPS_RETRY_ATTEMPTS) {
+            this.warn(`Gave up reading properties of ${device.serial} until the next device update`);
+            return;
+        }
+        const delay = Math.min(PROPS_RETRY_MAX_MS, PROPS_RETRY_BASE_MS * 2 ** (attempt - 1));
+        const timer = setTimeout(() => {
+            this.propsRetries.delete(device.serial);
+            if (this._devices.get(device.serial) === device && device.state === 'device' && !this.resolved.has(device)) {
+                void this.resolveProperties(device, attempt);
+            }
+        }, delay);
+        this.propsRetries.set(device.serial, timer);
+    }
+
+    private cancelPropsRetry(serial: string): void {
+        const timer = this.propsRetries.get(serial);
+        if (timer) {
+            clearTimeout(timer);
+            this.propsRetries.delete(serial);
+        }
+    }
+
+    private warn(message: string): void {
+        if (!this.warned.has(message)) {
+            this.warned.add(message);
+            this.manager.output.append(`[DeviceTracker] ${message}`, 'warning');
+        }
+    }
+
+    /** `emu avd name`, so a booting emulator is matched to its AVD before adb can reach the guest. */
+    private async resolveEmulatorName(device: TrackedDevice): Promise<void> {
+        const key = `emu:${device.serial}`;
+        if (this.resolving.has(key)) {
+            return;
+        }
+        this.resolving.add(key);
+        try {
+            const name = await this.manager.adb.emuAvdName(device.serial);
+            if (name && this._devices.get(device.serial) === device && device.avdName === undefined) {
+                device.avdName = name;
+                this._onDidChangeDevices.fire(this.devices);
+            }
+        } catch {
+            // console not up yet; retried on the next update for this device
+        } finally {
+            this.resolving.delete(key);
+        }
+    }
+}
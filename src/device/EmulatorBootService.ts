@@ -1,28 +1,37 @@
 import * as cp from 'child_process';
 import * as vscode from 'vscode';
+import type { Manager } from '../core';
 
-const POLL_INTERVAL_MS = 2000;
+const TICK_INTERVAL_MS = 1000;
 const BOOT_TIMEOUT_MS = 120000;
 const SETTLE_DELAY_MS = 2000;
 
+/** Blocks on the device until boot has completed and the boot animation has stopped. */
+const WAIT_FOR_BOOT_SCRIPT =
+    'while [ "$(getprop sys.boot_completed)" != "1" ] || [ "$(getprop init.svc.bootanim)" != "stopped" ]; do sleep 1; done; echo booted';
+
 export type OutputChannelLike = { appendLine(line: string): void };
 export type ProgressLike = vscode.Progress<{ message?: string }>;
 
 export class EmulatorBootService {
     constructor(
-        private readonly adbPath: string,
+        private readonly manager: Manager,
         private readonly emulatorPath: string,
         private readonly outputChannel: OutputChannelLike,
+        /** Called with the serial once an emulator this service waited on has finished booting. */
+        private readonly onBooted?: (serial: string) => void,
     ) {}
 
     /**
      * Launch emulator (if not already running) and wait until
      * ADB reports it fully booted. Returns the resolved ADB serial.
+     * `emulatorArgs` only apply when the emulator has to be started.
      */
     async launchAndWait(
         avdName: string,
         progress: ProgressLike,
         cancellationToken?: vscode.CancellationToken,
+        emulatorArgs: string[] = [],
     ): Promise<string> {
         // Step 1: Check if already running
         const existing = await this._findSerialForAvd(avdName);
@@ -34,23 +43,33 @@ export class EmulatorBootService {
                 return existing;
             }
             this._log(`${existing} found but not fully booted yet — waiting...`);
-            return this._waitForBoot(existing, avdName, progress, cancellationToken);
+            return this._booted(await this._waitForBoot(existing, avdName, progress, cancellationToken));
         }
 
         // Step 2: Fire-and-forget spawn — DO NOT await; process runs until emulator is closed
-        this._spawnEmulator(avdName);
+        this._spawnEmulator(avdName, emulatorArgs);
+
+        // Step 3: Wait for the device tracker to report it, then for boot
+        return this._booted(await this._waitForBoot(null, avdName, progress, cancellationToken));
+    }
 
-        // Step 3: Poll ADB in parallel
-        return this._waitForBoot(null, avdName, progress, cancellationToken);
+    private _booted(serial: string): string {
+        try {
+            this.onBooted?.(serial);
+        } catch (error: any) {
+            this._log(`onBooted failed for ${serial}: ${error?.message ?? error}`);
+        }
+        return serial;
     }
 
     /**
      * Spawns the emulator detached — never awaited.
      */
-    private _spawnEmulator(avdName: string): void {
-        this._log(`Spawning: ${this.emulatorPath} @${avdName}`);
+    private _spawnEmulator(avdName: string, emulatorArgs: string[]): void {
+        const args = [`@${avdName}`, ...emulatorArgs];
+        this._log(`Spawning: ${this.emulatorPath} ${args.join(' ')}`);
 
-        const proc = cp.spawn(this.emulatorPath, [`@${avdName}`], {
+        const proc = cp.spawn(this.emulatorPath, args, {
             detached: true,
             stdio: 'ignore',
         });
@@ -64,8 +83,8 @@ export class EmulatorBootService {
     }
 
     /**
-     * Phase 1 — poll adb devices until our AVD serial appears.
-     * Phase 2 — poll boot_completed + bootanim on that serial.
+     * Phase 1 — wait for the device tracker to report our AVD online.
+     * Phase 2 — block on the device until boot_completed + bootanim stopped.
      */
     private async _waitForBoot(
         knownSerial: string | null,
@@ -79,10 +98,10 @@ export class EmulatorBootService {
 
         if (!serial) {
             progress.report({ message: `Starting ${avdName}...` });
-            serial = await this._pollForSerial(avdName, start, progress, cancellationToken);
+            serial = await this._waitForSerial(avdName, start, progress, cancellationToken);
         }
 
-        await this._pollForBootCompleted(serial, start, progress, cancellationToken);
+        await this._waitForBootCompleted(serial, start, progress, cancellationToken);
 
         progress.report({ message: 'Almost ready...' });
         await this._delay(SETTLE_DELAY_MS);
@@ -91,77 +110,105 @@ export class EmulatorBootService {
         return serial;
     }
 
-    private _pollForSerial(
+    /**
+     * Resolves once the tracker knows an online device for `avdName`. The
+     * interval only drives progress, cancellation and timeout; when the tracker
+     * has no live stream it also triggers its fallback refresh.
+     */
+    private _waitForSerial(
         avdName: string,
         start: number,
         progress: ProgressLike,
         cancellationToken?: vscode.CancellationToken,
     ): Promise<string> {
         return new Promise((resolve, reject) => {
-            const timer = setInterval(async () => {
+            const finish = (error: Error | null, serial?: string) => {
+                clearInterval(timer);
+                listener.dispose();
+                if (error) {
+                    reject(error);
+                } else {
+                    this._log(`Resolved ADB serial: ${serial}`);
+                    resolve(serial!);
+                }
+            };
+            const check = () => {
+                const device = this.manager.deviceTracker.findByAvdName(avdName);
+                if (device && device.state === 'device') {
+                    finish(null, device.serial);
+                }
+            };
+
+            const listener = this.manager.deviceTracker.onDidChangeDevices(check);
+            const timer = setInterval(() => {
                 const elapsed = Math.round((Date.now() - start) / 1000);
 
                 if (cancellationToken?.isCancellationRequested) {
-                    clearInterval(timer);
-                    reject(new Error('Build was cancelled'));
+                    finish(new Error('Build was cancelled'));
                     return;
                 }
                 if (Date.now() - start > BOOT_TIMEOUT_MS) {
-                    clearInterval(timer);
-                    reject(new Error(`Timed out waiting for ${avdName} to appear in adb devices (${elapsed}s)`));
+                    finish(new Error(`Timed out waiting for ${avdName} to appear in adb devices (${elapsed}s)`));
                     return;
                 }
 
                 progress.report({ message: `Waiting for emulator to connect... (${elapsed}s)` });
-
-                try {
-                    const serial = await this._findSerialForAvd(avdName);
-                    if (serial) {
-                        clearInterval(timer);
-                        this._log(`Resolved ADB serial: ${serial}`);
-                        resolve(serial);
-                    }
-                } catch {
-                    /* adb not ready */
+                if (!this.manager.deviceTracker.isTracking) {
+                    void this.manager.deviceTracker.refresh();
                 }
-            }, POLL_INTERVAL_MS);
+            }, TICK_INTERVAL_MS);
+
+            check();
         });
     }
 
-    private _pollForBootCompleted(
+    /**
+     * Runs one blocking shell loop on the device instead of polling getprop.
+     * If the shell drops (device briefly offline while booting) it is re-opened.
+     */
+    private async _waitForBootCompleted(
         serial: string,
         start: number,
         progress: ProgressLike,
         cancellationToken?: vscode.CancellationToken,
     ): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const timer = setInterval(async () => {
-                const elapsed = Math.round((Date.now() - start) / 1000);
+        const timer = setInterval(() => {
+            const elapsed = Math.round((Date.now() - start) / 1000);
+            progress.report({ message: `Emulator booting... (${elapsed}s)` });
+        }, TICK_INTERVAL_MS);
 
+        try {
+            for (; ;) {
                 if (cancellationToken?.isCancellationRequested) {
-                    clearInterval(timer);
-                    reject(new Error('Build was cancelled'));
-                    return;
+                    throw new Error('Build was cancelled');
                 }
-                if (Date.now() - start > BOOT_TIMEOUT_MS) {
-                    clearInterval(timer);
-                    reject(new Error(`Emulator ${serial} did not finish booting (${elapsed}s)`));
-                    return;
+                const remaining = BOOT_TIMEOUT_MS - (Date.now() - start);
+                if (remaining <= 0) {
+                    throw new Error(`Emulator ${serial} did not finish booting (${Math.round((Date.now() - start) / 1000)}s)`);
                 }
 
-                progress.report({ message: `Emulator booting... (${elapsed}s)` });
-
                 try {
-                    const booted = await this._isBooted(serial);
-                    if (booted) {
-                        clearInterval(timer);
-                        resolve();
+                    const conn = await this.manager.adb.openShell(serial, WAIT_FOR_BOOT_SCRIPT);
+                    const cancelListener = cancellationToken?.onCancellationRequested(() => conn.close());
+                    try {
+                        const out = (await conn.readAll(remaining)).toString('utf8');
+                        if (out.includes('booted')) {
+                            this._log(`${serial} — boot_completed=1 bootanim=stopped`);
+                            return;
+                        }
+                    } finally {
+                        cancelListener?.dispose();
+                        conn.close();
                     }
-                } catch {
-                    /* shell not ready yet */
+                } catch (error: any) {
+                    this._log(`${serial} — waiting for shell: ${error?.message ?? error}`);
                 }
-            }, POLL_INTERVAL_MS);
-        });
+
+                await this._delay(Math.max(TICK_INTERVAL_MS, this._pollInterval()));
+            }
+        } finally {
+            clearInterval(timer);
+        }
     }
 
     private async _isBooted(serial: string): Promise<boolean> {
@@ -174,25 +221,24 @@ export class EmulatorBootService {
     }
 
     private async _findSerialForAvd(avdName: string): Promise<string | null> {
-        const output = await this._exec(`"${this.adbPath}" devices -l`);
-        const lines = output.split('\n').filter((l) => /^emulator-\d+/.test(l.trim()));
-
-        for (const line of lines) {
-            if (line.includes(`avd_name:${avdName}`)) {
-                return line.trim().split(/\s+/)[0];
-            }
+        if (!this.manager.deviceTracker.isTracking) {
+            await this.manager.deviceTracker.refresh();
+        }
+        const tracked = this.manager.deviceTracker.findByAvdName(avdName);
+        if (tracked) {
+            return tracked.serial;
         }
 
-        for (const line of lines) {
-            const serial = line.trim().split(/\s+/)[0];
-            if (!serial) continue;
-            try {
-                const name = await this._exec(`"${this.adbPath}" -s ${serial} emu avd name`);
-                if (name.split('\n')[0].trim() === avdName) {
-                    return serial;
-                }
-            } catch {
-                /* this emulator not responding yet */
+        // Tracker may not have resolved AVD names yet — ask unresolved emulators directly
+        for (const device of this.manager.deviceTracker.devices) {
+            if (!/^emulator-\d+$/.test(device.serial) || device.avdName !== undefined) {
+                continue;
+            }
+            // The console answers while the device is offline or booting; getprop needs it online
+            const name = await this.manager.adb.emuAvdName(device.serial).catch(() => null)
+                ?? (device.state === 'device' ? await this.manager.adb.getAvdName(device.serial).catch(() => null) : null);
+            if (name === avdName) {
+                return device.serial;
             }
         }
 
@@ -200,21 +246,11 @@ export class EmulatorBootService {
     }
 
     private _getProp(serial: string, prop: string): Promise<string> {
-        return this._exec(`"${this.adbPath}" -s ${serial} shell getprop ${prop}`)
-            .then((s) => s.trim())
-            .catch(() => '');
+        return this.manager.adb.getProp(serial, prop).catch(() => '');
     }
 
-    private _exec(cmd: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            cp.exec(cmd, { timeout: 5000 }, (err, stdout) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-                resolve(stdout ?? '');
-            });
-        });
+    private _pollInterval(): number {
+        return this.manager.getConfig().devicePollInterval;
     }
 
     private _delay(ms: number): Promise<void> {
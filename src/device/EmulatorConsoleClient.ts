@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+const DEFAULT_HOST = '127.0.0.1';
+const CONNECT_TIMEOUT_MS = 5000;
+const COMMAND_TIMEOUT_MS = 10000;
+const AUTH_TOKEN_FILE = '.emulator_console_auth_token';
+
+/** Values accepted by `network speed`. */
+export const NETWORK_SPEEDS = ['full', 'lte', 'hsdpa', 'umts', 'edge', 'gprs', 'hscsd', 'gsm', 'evdo'];
+/** Values accepted by `network delay`. */
+export const NETWORK_DELAYS = ['none', 'umts', 'edge', 'gprs'];
+/** Values accepted by `power status`. */
+export const BATTERY_STATUSES = ['charging', 'discharging', 'not-charging', 'full', 'unknown'];
+
+/** Parsed `power display`. */
+export interface EmulatorBatteryState {
+    /** Charger (AC) connected. */
+    acOnline: boolean;
+    /** Lower-case status, e.g. `charging`, `not-charging`. */
+    status: string;
+    capacity: number;
+}
+
+export interface EmulatorConsoleOptions {
+    /** Console port; an emulator listening on `<port>` is adb serial `emulator-<port>`. */
+    port: number;
+    host?: string;
+    /** Defaults to the contents of `~/.emulator_console_auth_token`. */
+    authToken?: string;
+    timeoutMs?: number;
+}
+
+/** Raised when the console answers `KO`, times out or drops the connection. */
+export class EmulatorConsoleError extends Error {
+    constructor(message: string, readonly command?: string) {
+        super(message);
+        this.name = 'EmulatorConsoleError';
+    }
+}
+
+/**
+ * Client for the emulator's telnet console (port 5554, 5556...).
+ *
+ * Every reply, including the greeting, is a block of CRLF-terminated lines
+ * ending with `OK` or `KO: <message>`. Since emulator 27 the console asks for
+ * `auth <token>` first, with the token read from `~/.emulator_console_auth_token`.
+ * Commands are sent one at a time over a single connection.
+ */
+export class EmulatorConsoleClient {
+    private readonly host: string;
+    private socket: net.Socket | null = null;
+    private connecting: Promise<void> | null = null;
+    private buffer = '';
+    private pending: { resolve: (lines: string[]) => void; reject: (error: Error) => void; lines: string[] } | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly options: EmulatorConsoleOptions) {
+        this.host = options.host ?? DEFAULT_HOST;
+    }
+
+    /** Client for an adb serial such as `emulator-5554`; undefined for other devices. */
+    static forSerial(serial: string, options: Omit<EmulatorConsoleOptions, 'port'> = {}): EmulatorConsoleClient | undefined {
+        const match = /^emulator-(\d+)$/.exec(serial);
+        return match ? new EmulatorConsoleClient({ ...options, port: parseInt(match[1], 10) }) : undefined;
+    }
+
+    get port(): number {
+        return this.options.port;
+    }
+
+    get connected(): boolean {
+        return this.socket !== null && !this.socket.destroyed;
+    }
+
+    /** Sends one command and returns its output (without the final `OK`). */
+    command(command: string): Promise<string> {
+        const run = this.queue.then(async () => {
+            await this.connect();
+            return (await this.send(command)).join('\n');
+        });
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /** Rotates the screen 90 degrees counterclockwise. */
+    async rotate(): Promise<void> {
+        await this.command('rotate');
+    }
+
+    /** `geo fix` takes longitude first. */
+    async setLocation(latitude: number, longitude: number, altitude?: number): Promise<void> {
+        await this.command(['geo', 'fix', longitude, latitude, ...(altitude !== undefined ? [altitude] : [])].join(' '));
+    }
+
+    async getBattery(): Promise<EmulatorBatteryState> {
+        return parsePowerDisplay(await this.command('power display'));
+    }
+
+    async setBattery(state: Partial<EmulatorBatteryState>): Promise<void> {
+        if (state.acOnline !== undefined) {
+            await this.command(`power ac ${state.acOnline ? 'on' : 'off'}`);
+        }
+        if (state.status !== undefined) {
+            await this.command(`power status ${state.status}`);
+        }
+        if (state.capacity !== undefined) {
+            await this.command(`power capacity ${Math.max(0, Math.min(100, Math.round(state.capacity)))}`);
+        }
+    }
+
+    async setNetwork(speed?: string, delay?: string): Promise<void> {
+        if (speed) {
+            await this.command(`network speed ${speed}`);
+        }
+        if (delay) {
+            await this.command(`network delay ${delay}`);
+        }
+    }
+
+    async sendSms(phoneNumber: string, message: string): Promise<void> {
+        await this.command(`sms send ${phoneNumber} ${message.replace(/\r?\n/g, ' ')}`);
+    }
+
+    async call(phoneNumber: string): Promise<void> {
+        await this.command(`gsm call ${phoneNumber}`);
+    }
+
+    async cancelCall(phoneNumber: string): Promise<void> {
+        await this.command(`gsm cancel ${phoneNumber}`);
+    }
+
+    /** Touches the sensor with an enrolled finger id (1-10). */
+    async touchFingerprint(fingerId: number): Promise<void> {
+        await this.command(`finger touch ${fingerId}`);
+    }
+
+    async liftFingerprint(): Promise<void> {
+        await this.command('finger remove');
+    }
+
+    async avdName(): Promise<string> {
+        return (await this.command('avd name')).trim();
+    }
+
+    close(): void {
+        this.socket?.end('quit\r\n');
+        this.cleanup(new EmulatorConsoleError('Console connection closed'));
+    }
+
+    private connect(): Promise<void> {
+        if (this.connected) {
+            return Promise.resolve();
+        }
+        if (!this.connecting) {
+            this.connecting = this.open().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private async open(): Promise<void> {
+        const socket = await new Promise<net.Socket>((resolve, reject) => {
+            const s = net.connect({ host: this.host, port: this.options.port });
+            s.setTimeout(CONNECT_TIMEOUT_MS, () => {
+                s.destroy();
+                reject(new EmulatorConsoleError(`Timed out connecting to the emulator console on port ${this.options.port}`));
+            });
+            s.once('connect', () => {
+                s.setTimeout(0);
+                resolve(s);
+            });
+            s.once('error', (error) => reject(new EmulatorConsoleError(
+                `Cannot reach the emulator console on port ${this.options.port}: ${error.message}`)));
+        });
+        this.socket = socket;
+        this.buffer = '';
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => this.socket === socket && this.onData(chunk));
+        // A socket replaced after a reconnect must not fail the new one's commands
+        socket.on('error', (error) => this.socket === socket && this.cleanup(new EmulatorConsoleError(error.message)));
+        socket.on('close', () => this.socket === socket && this.cleanup(new EmulatorConsoleError('Emulator console closed the connection')));
+
+        try {
+            const greeting = await this.readReply();
+            if (greeting.some(line => /Authentication required/i.test(line))) {
+                const token = this.options.authToken ?? await readAuthToken();
+                if (!token) {
+                    throw new EmulatorConsoleError(`The emulator console requires the token from ~/${AUTH_TOKEN_FILE}, which could not be read`);
+                }
+                await this.send(`auth ${token}`, 'auth');
+            }
+        } catch (error) {
+            socket.destroy();
+            this.socket = null;
+            throw error;
+        }
+    }
+
+    private async send(command: string, label = command): Promise<string[]> {
+        const reply = this.readReply(label);
+        this.socket!.write(`${command}\r\n`);
+        return reply;
+    }
+
+    /** Waits for the next block ending with `OK` / `KO: ...`. */
+    private readReply(label?: string): Promise<string[]> {
+        return new Promise<string[]>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending = null;
+                reject(new EmulatorConsoleError(`Emulator console did not answer${label ? ` "${label}"` : ''}`, label));
+                this.socket?.destroy();
+            }, this.options.timeoutMs ?? COMMAND_TIMEOUT_MS);
+            this.pending = {
+                lines: [],
+                resolve: (lines) => {
+                    clearTimeout(timer);
+                    resolve(lines);
+                },
+                reject: (error) => {
+                    clearTimeout(timer);
+                    reject(error instanceof EmulatorConsoleError && label ? new EmulatorConsoleError(error.message, label) : error);
+                },
+            };
+            this.drain();
+        });
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+        this.drain();
+    }
+
+    private drain(): void {
+        let newline = this.buffer.indexOf('\n');
+        while (this.pending && newline >= 0) {
+            const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(newline + 1);
+            const pending = this.pending;
+            if (line === 'OK') {
+                this.pending = null;
+                pending.resolve(pending.lines);
+            } else if (line.startsWith('KO')) {
+                this.pending = null;
+                pending.reject(new EmulatorConsoleError(line.replace(/^KO:?\s*/, '') || 'Command failed'));
+            } else {
+                pending.lines.push(line);
+            }
+            newline = this.buffer.indexOf('\n');
+        }
+    }
+
+    private cleanup(error: Error): void {
+        this.socket = null;
+        const pending = this.pending;
+        this.pending = null;
+        pending?.reject(error);
+    }
+}
+
+/** `~/.emulator_console_auth_token`; an empty file turns authentication off. */
+async function readAuthToken(): Promise<string | undefined> {
+    try {
+        return (await fs.promises.readFile(path.join(os.homedir(), AUTH_TOKEN_FILE), 'utf8')).trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function parsePowerDisplay(output: string): EmulatorBatteryState {
+    const values: { [key: string]: string } = {};
+    for (const line of output.split('\n')) {
+        const match = /^\s*([\w ]+):\s*(.*)$/.exec(line);
+        if (match) {
+            values[match[1].trim().toLowerCase()] = match[2].trim();
+        }
+    }
+    return {
+        acOnline: values['ac'] === 'online',
+        status: (values['status'] ?? 'unknown').toLowerCase().replace(/\s+/g, '-'),
+        capacity: parseInt(values['capacity'] ?? '', 10) || 0,
+    };
+}
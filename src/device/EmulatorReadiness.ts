@@ -1,5 +1,5 @@
-import * as cp from 'child_process';
 import * as vscode from 'vscode';
+import type { AdbClient } from './AdbClient';
 
 const POLL_INTERVAL_MS = 2000;
 const BOOT_TIMEOUT_MS = 120000;
@@ -18,7 +18,7 @@ export type ProgressLike = vscode.Progress<{ message?: string; increment?: numbe
  * @returns The resolved ADB serial so the caller can use it for install/launch.
  */
 export async function waitForEmulatorReady(
-    adbPath: string,
+    adb: AdbClient,
     avdName: string,
     outputChannel: OutputChannelLike,
     progress: ProgressLike,
@@ -28,11 +28,11 @@ export async function waitForEmulatorReady(
     progress.report({ message: `Waiting for ${avdName} to connect to ADB...` });
     outputChannel.appendLine(`[Emulator] Resolving ADB serial for AVD: ${avdName}`);
 
-    const serial = await resolveAdbSerial(adbPath, avdName, progress, outputChannel, cancellationToken);
+    const serial = await resolveAdbSerial(adb, avdName, progress, outputChannel, cancellationToken);
     outputChannel.appendLine(`[Emulator] Resolved serial: ${serial}`);
 
     // Phase 2: wait for full boot on that serial
-    await waitForBootCompleted(adbPath, serial, progress, outputChannel, cancellationToken);
+    await waitForBootCompleted(adb, serial, progress, outputChannel, cancellationToken);
 
     // Phase 3: package manager settle
     progress.report({ message: 'Boot complete. Preparing package manager...' });
@@ -42,14 +42,11 @@ export async function waitForEmulatorReady(
 }
 
 /**
- * Polls `adb devices -l` until an emulator appears whose AVD name matches.
+ * Polls the adb server until an emulator appears whose AVD name matches.
  * Returns its serial (e.g. "emulator-5554").
- *
- * Strategy A: parse avd_name from `adb devices -l` (newer SDK).
- * Strategy B: for each emulator serial, run `adb -s <serial> emu avd name`.
  */
 function resolveAdbSerial(
-    adbPath: string,
+    adb: AdbClient,
     avdName: string,
     progress: ProgressLike,
     outputChannel: OutputChannelLike,
@@ -75,7 +72,7 @@ function resolveAdbSerial(
             progress.report({ message: `Waiting for ${avdName} to connect to ADB... (${elapsed}s)` });
 
             try {
-                const serial = await findSerialForAvd(adbPath, avdName);
+                const serial = await findSerialForAvd(adb, avdName);
                 if (serial) {
                     clearInterval(poll);
                     resolve(serial);
@@ -88,38 +85,20 @@ function resolveAdbSerial(
 }
 
 /**
- * Runs `adb devices -l` and returns the serial for the given AVD name.
+ * Lists emulators on the adb server and returns the serial for the given AVD name.
  * Returns null if not found yet.
  */
-async function findSerialForAvd(adbPath: string, avdName: string): Promise<string | null> {
-    const devicesOutput = await exec(`"${adbPath}" devices -l`);
-
-    // Strategy A — newer ADB includes avd_name in `devices -l`
-    const lines = devicesOutput.split('\n').filter((l) => l.includes('emulator-'));
-    for (const line of lines) {
-        if (line.includes(`avd_name:${avdName}`) || line.toLowerCase().includes(avdName.toLowerCase())) {
-            const serial = line.trim().split(/\s+/)[0];
-            if (serial) return serial;
-        }
-    }
-
-    // Strategy B — fallback: ask each emulator for its AVD name via emu avd name
-    const emulatorSerials = devicesOutput
-        .split('\n')
-        .filter((l) => l.includes('emulator-') && (l.includes('device') || l.includes('offline') || l.includes('connecting')))
-        .map((l) => l.trim().split(/\s+/)[0])
-        .filter(Boolean);
-
-    for (const serial of emulatorSerials) {
-        try {
-            const name = await exec(`"${adbPath}" -s ${serial} emu avd name`);
-            // Output: "Pixel_2_API_29\nOK" or similar
-            const reportedName = name.split('\n')[0].trim();
-            if (reportedName === avdName) {
-                return serial;
-            }
-        } catch {
-            // This emulator not ready yet
+async function findSerialForAvd(adb: AdbClient, avdName: string): Promise<string | null> {
+    const devices = await adb.listDevices();
+    const emulators = devices
+        .filter((d) => d.serial.startsWith('emulator-') && ['device', 'offline', 'connecting'].includes(d.state));
+
+    for (const device of emulators) {
+        // The console answers while the device is offline or booting; getprop needs it online
+        const name = await adb.emuAvdName(device.serial).catch(() => null)
+            ?? (device.state === 'device' ? await adb.getAvdName(device.serial).catch(() => null) : null);
+        if (name === avdName) {
+            return device.serial;
         }
     }
 
@@ -130,7 +109,7 @@ async function findSerialForAvd(adbPath: string, avdName: string): Promise<strin
  * Polls boot_completed + bootanim on the resolved serial.
  */
 function waitForBootCompleted(
-    adbPath: string,
+    adb: AdbClient,
     serial: string,
     progress: ProgressLike,
     outputChannel: OutputChannelLike,
@@ -156,8 +135,8 @@ function waitForBootCompleted(
             progress.report({ message: `Emulator booting... (${elapsed}s)` });
 
             try {
-                const bootCompleted = await getProp(adbPath, serial, 'sys.boot_completed');
-                const bootAnim = await getProp(adbPath, serial, 'init.svc.bootanim');
+                const bootCompleted = await getProp(adb, serial, 'sys.boot_completed');
+                const bootAnim = await getProp(adb, serial, 'init.svc.bootanim');
 
                 outputChannel.appendLine(`[Emulator] ${serial} — boot_completed=${bootCompleted} bootanim=${bootAnim}`);
 
@@ -172,20 +151,8 @@ function waitForBootCompleted(
     });
 }
 
-function getProp(adbPath: string, serial: string, prop: string): Promise<string> {
-    return exec(`"${adbPath}" -s ${serial} shell getprop ${prop}`).then((s) => s.trim());
-}
-
-function exec(cmd: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-        cp.exec(cmd, { timeout: 5000 }, (err, stdout) => {
-            if (err) {
-                reject(err);
-                return;
-            }
-            resolve(stdout ?? '');
-        });
-    });
+function getProp(adb: AdbClient, serial: string, prop: string): Promise<string> {
+    return adb.getProp(serial, prop);
 }
 
 function delay(ms: number): Promise<void> {
@@ -0,0 +1,119 @@
+import type { Manager } from '../core';
+import type { AVD } from '../cmd/AVDManager';
+import type { AdbDevice } from './AdbClient';
+import type { TrackedDevice } from './DeviceTracker';
+import { avdApiLevel } from '../utils/avdConfig';
+
+export type RunTargetKind = 'avd' | 'device';
+export type ConnectionType = 'emulator' | 'usb' | 'wifi';
+
+/**
+ * Something the app can be run on: an AVD (booted on demand) or a device
+ * already connected to adb (physical phone, or an emulator without a known AVD).
+ */
+export interface RunTarget {
+    /** `avd:<name>` or `device:<serial>`. */
+    id: string;
+    kind: RunTargetKind;
+    label: string;
+    /** Model, API level and connection, for display. */
+    description: string;
+    avdName?: string;
+    /** Set for devices, and for AVDs that are currently running. */
+    serial?: string;
+    /** adb state of `serial` (device, offline, unauthorized...). */
+    state?: string;
+    model?: string;
+    apiLevel?: string;
+    connection?: ConnectionType;
+}
+
+export function avdTargetId(avdName: string): string {
+    return `avd:${avdName}`;
+}
+
+export function deviceTargetId(serial: string): string {
+    return `device:${serial}`;
+}
+
+export function connectionType(device: AdbDevice): ConnectionType {
+    if (/^emulator-\d+$/.test(device.serial)) {
+        return 'emulator';
+    }
+    if (device.usb) {
+        return 'usb';
+    }
+    // host:port or an mDNS service name (adb-XXXX._adb-tls-connect._tcp)
+    return device.serial.includes(':') || device.serial.includes('._adb-tls-') ? 'wifi' : 'usb';
+}
+
+/**
+ * Merges AVD definitions with the devices adb currently knows about.
+ * Running emulators are folded into their AVD entry; every other device
+ * becomes its own target.
+ */
+export async function listRunTargets(manager: Manager): Promise<RunTarget[]> {
+    const avds: AVD[] = (await manager.avd.getAVDList()) || [];
+    const devices = manager.deviceTracker.devices;
+    const avdNames = new Set(avds.map((avd) => avd.name));
+
+    const deviceTargets = devices
+        .filter((device) => !(device.avdName && avdNames.has(device.avdName)))
+        .map(toDeviceTarget);
+
+    const avdTargets = await Promise.all(avds
+        .filter((avd) => avd.name)
+        .map(async (avd) => toAvdTarget(avd, avdApiLevel(await manager.avd.readAVDConfig(avd)),
+            devices.find((d) => d.avdName === avd.name))));
+
+    return [...deviceTargets, ...avdTargets];
+}
+
+export async function findRunTarget(manager: Manager, id: string): Promise<RunTarget | undefined> {
+    return (await listRunTargets(manager)).find((target) => target.id === id);
+}
+
+function toDeviceTarget(device: TrackedDevice): RunTarget {
+    const connection = connectionType(device);
+    const model = (device.model ?? device.avdName ?? device.serial).replace(/_/g, ' ');
+    return {
+        id: deviceTargetId(device.serial),
+        kind: 'device',
+        label: model,
+        description: describe(device.apiLevel, connection, device.state),
+        serial: device.serial,
+        state: device.state,
+        model,
+        apiLevel: device.apiLevel,
+        connection,
+    };
+}
+
+/** `imageApiLevel` comes from the AVD's system image; a running emulator reports its own. */
+function toAvdTarget(avd: AVD, imageApiLevel: string | undefined, running?: TrackedDevice): RunTarget {
+    const apiLevel = running?.apiLevel ?? imageApiLevel;
+    return {
+        id: avdTargetId(avd.name),
+        kind: 'avd',
+        label: avd.name,
+        description: describe(apiLevel, 'emulator', running?.state ?? 'not running'),
+        avdName: avd.name,
+        serial: running?.serial,
+        state: running?.state,
+        model: avd.device,
+        apiLevel,
+        connection: 'emulator',
+    };
+}
+
+function describe(apiLevel: string | undefined, connection: ConnectionType, state: string): string {
+    const parts: string[] = [];
+    if (apiLevel) {
+        parts.push(`API ${apiLevel}`);
+    }
+    parts.push(connection === 'emulator' ? 'Emulator' : connection === 'usb' ? 'USB' : 'Wi-Fi');
+    if (state !== 'device') {
+        parts.push(state);
+    }
+    return parts.join(' · ');
+}
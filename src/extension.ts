@@ -1,12 +1,39 @@
 import * as vscode from 'vscode';
 import { AVDTreeView } from './ui/AVDTreeView';
 import { BuildVariantTreeView } from './ui/BuildVariantTreeView';
+import { DeviceStatusBar } from './ui/DeviceStatusBar';
+import { DeviceTreeView } from './ui/DeviceTreeView';
+import { DeviceFileTreeView } from './ui/DeviceFileTreeView';
 import { Manager, ConfigItem } from './core';
 import { subscribe } from './module/';
 import { WebviewsController } from './webviews/webviewsController';
 import { AVDSelectorProvider } from './webviews/avdSelectorProvider';
+import { WirelessPairingProvider } from './webviews/wirelessPairingProvider';
+import { IntentLauncherProvider } from './webviews/intentLauncherProvider';
+import { EmulatorConsoleProvider } from './webviews/emulatorConsoleProvider';
+import { RoutePlaybackProvider } from './webviews/routePlaybackProvider';
+import { CreateAvdProvider } from './webviews/createAvdProvider';
+import { AvdConfigEditorProvider } from './webviews/avdConfigEditorProvider';
 import { KotlinImportFoldingProvider } from './language/KotlinImportFoldingProvider';
 import { LogcatService } from './service/LogcatService';
+import { AppRunService } from './service/AppRunService';
+import { SelectedDeviceService } from './service/SelectedDeviceService';
+import { DeviceFileSystem } from './device/DeviceFileSystem';
+import { ADBFS_SCHEME, AdbFileSystemProvider } from './device/AdbFileSystemProvider';
+import { WirelessDebuggingService } from './service/WirelessDebuggingService';
+import { ScreenCaptureService } from './service/ScreenCaptureService';
+import { PortForwardService } from './service/PortForwardService';
+import { PortForwardTreeView } from './ui/PortForwardTreeView';
+import { IntentLauncherService } from './service/IntentLauncherService';
+import { PermissionService } from './service/PermissionService';
+import { PermissionTreeView } from './ui/PermissionTreeView';
+import { SystemImageTreeView } from './ui/SystemImageTreeView';
+import { RoutePlaybackService } from './service/RoutePlaybackService';
+import { SnapshotService } from './service/SnapshotService';
+import { AVDStorageService } from './service/AVDStorageService';
+import { SystemImageService } from './service/SystemImageService';
+import { LaunchProfileService } from './service/LaunchProfileService';
+import { toCommandLine } from './cmd/Emulator';
 
 export async function activate(context: vscode.ExtensionContext) {
 	console.log('Android Studio Lite extension is now active!');
@@ -15,6 +42,10 @@ export async function activate(context: vscode.ExtensionContext) {
 	const manager = Manager.getInstance();
 	await manager.android.initCheck();
 
+	// Device tracking: one host:track-devices-l stream shared by views and the boot flow
+	manager.deviceTracker.start();
+	context.subscriptions.push(manager.deviceTracker);
+
 	// Kotlin: provide import folding ranges so editor.foldingImportsByDefault works
 	context.subscriptions.push(
 		vscode.languages.registerFoldingRangeProvider(
@@ -26,6 +57,42 @@ export async function activate(context: vscode.ExtensionContext) {
 	// Logcat: built-in service with its own output channel (logs for last-run app only)
 	const logcatService = new LogcatService(manager, context);
 
+	// Selected run target (AVD or device), persisted per workspace
+	const selectedDevice = new SelectedDeviceService(manager, context);
+	context.subscriptions.push(selectedDevice);
+
+	// Emulator launch profiles (cold boot, headless, GPU...) chosen per AVD
+	const launchProfiles = new LaunchProfileService(manager, context);
+	context.subscriptions.push(launchProfiles);
+
+	// App lifecycle: build/install/launch shared by the sidebar and the palette commands
+	const appRunService = new AppRunService(manager, context, selectedDevice, launchProfiles);
+	context.subscriptions.push(appRunService);
+
+	// Wireless debugging: pairing, mDNS connect and reconnecting remembered devices
+	const wirelessService = new WirelessDebuggingService(manager, context);
+	void wirelessService.reconnectRemembered();
+
+	// Screenshots and screen recordings saved under captureFolder
+	const capture = new ScreenCaptureService(manager);
+	context.subscriptions.push(capture);
+
+	// adb forward / reverse; workspace rules are reapplied on connect and after boot
+	const ports = new PortForwardService(manager, appRunService);
+	context.subscriptions.push(ports);
+
+	// am start with typed extras, manifest deep links and per-workspace recent intents
+	const intentLauncher = new IntentLauncherService(manager, context, appRunService, selectedDevice);
+	context.subscriptions.push(intentLauncher);
+
+	// Runtime permissions and app ops of the last-run app
+	const permissions = new PermissionService(manager, context, appRunService);
+	context.subscriptions.push(permissions);
+
+	// GPX / KML routes played back on an emulator through the console
+	const routePlayback = new RoutePlaybackService(manager);
+	context.subscriptions.push(routePlayback);
+
 	// Register AVD Selector webview view using new architecture
 	const webviewsController = new WebviewsController(context);
 	context.subscriptions.push(webviewsController);
@@ -37,18 +104,108 @@ export async function activate(context: vscode.ExtensionContext) {
 				fileName: 'avdSelector.html',
 				title: 'Android Studio Lite',
 			},
-			async (host) => new AVDSelectorProvider(host, context, true),
+			async (host) => new AVDSelectorProvider(host, context, appRunService, selectedDevice, launchProfiles, true),
 		)
 	);
 
+	const wirelessPairingPanel = webviewsController.registerWebviewPanel(
+		{
+			id: 'android-studio-lite.wirelessPairing',
+			fileName: 'wirelessPairing.html',
+			iconPath: 'assets/android-studio.svg',
+			title: 'Pair Device over Wi-Fi',
+			contextKeyPrefix: 'android-studio-lite:wirelessPairing',
+		},
+		async (host) => new WirelessPairingProvider(host, wirelessService),
+	);
+
+	const intentLauncherPanel = webviewsController.registerWebviewPanel(
+		{
+			id: 'android-studio-lite.intentLauncher',
+			fileName: 'intentLauncher.html',
+			iconPath: 'assets/android-studio.svg',
+			title: 'Launch Intent',
+			contextKeyPrefix: 'android-studio-lite:intentLauncher',
+		},
+		async (host) => new IntentLauncherProvider(host, manager, selectedDevice, intentLauncher),
+	);
+
+	const emulatorConsolePanel = webviewsController.registerWebviewPanel(
+		{
+			id: 'android-studio-lite.emulatorConsole',
+			fileName: 'emulatorConsole.html',
+			iconPath: 'assets/android-studio.svg',
+			title: 'Emulator Controls',
+			contextKeyPrefix: 'android-studio-lite:emulatorConsole',
+		},
+		async (host) => new EmulatorConsoleProvider(host, manager, selectedDevice),
+	);
+
+	const routePlaybackPanel = webviewsController.registerWebviewPanel(
+		{
+			id: 'android-studio-lite.routePlayback',
+			fileName: 'routePlayback.html',
+			iconPath: 'assets/android-studio.svg',
+			title: 'Route Playback',
+			contextKeyPrefix: 'android-studio-lite:routePlayback',
+		},
+		async (host) => new RoutePlaybackProvider(host, manager, selectedDevice, routePlayback),
+	);
+
+	// Image preselected by avd-create when invoked on a system image
+	let createAvdImage: string | undefined;
+	const createAvdPanel = webviewsController.registerWebviewPanel(
+		{
+			id: 'android-studio-lite.createAvd',
+			fileName: 'createAvd.html',
+			iconPath: 'assets/android-studio.svg',
+			title: 'Create AVD',
+			contextKeyPrefix: 'android-studio-lite:createAvd',
+		},
+		async (host) => new CreateAvdProvider(host, manager, () => createAvdImage),
+	);
+
+	// Structured editor for AVD config.ini files
+	webviewsController.registerCustomTextEditor(
+		{
+			id: 'android-studio-lite.avdConfig',
+			fileName: 'avdConfig.html',
+			title: 'AVD Configuration',
+		},
+		async (host, document) => new AvdConfigEditorProvider(host, manager, document),
+	);
+
 	//avd manager
-	const avdTreeView = new AVDTreeView(context, manager);
+	const avdTreeView = new AVDTreeView(context, manager, selectedDevice, new SnapshotService(manager), launchProfiles,
+		new AVDStorageService(manager));
 	console.log("avd loaded");
 
+	//system images: browse, install and uninstall through sdkmanager
+	new SystemImageTreeView(context, manager, new SystemImageService(manager));
+
+	//connected devices
+	new DeviceTreeView(context, manager, selectedDevice, capture);
+
+	//device files: adbfs:// for opening, tree view for browsing and transfers
+	const deviceFiles = new DeviceFileSystem(manager.adb);
+	context.subscriptions.push(
+		vscode.workspace.registerFileSystemProvider(ADBFS_SCHEME, new AdbFileSystemProvider(deviceFiles), { isCaseSensitive: true, isReadonly: true }),
+	);
+	new DeviceFileTreeView(context, manager, deviceFiles);
+
+	//port forwarding
+	new PortForwardTreeView(context, manager, ports);
+
+	//permissions of the last-run app
+	new PermissionTreeView(context, manager, permissions);
+
 	//build variant manager
 	new BuildVariantTreeView(context, manager);
 	console.log("build variant loaded");
 
+	//status bar: selected device, module/variant and run
+	new DeviceStatusBar(context, manager, selectedDevice, appRunService);
+
 	// Register commands
 	subscribe(context, [
 		vscode.commands.registerCommand('android-studio-lite.setup-wizard', async () => {
@@ -66,6 +223,100 @@ export async function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('android-studio-lite.setup-emulator', async () => {
 			await manager.android.updatePathDiag("file", ConfigItem.emulator, "Please select the Emulator Path", "Emulator path updated!", "Emulator path not specified!");
 		}),
+		vscode.commands.registerCommand('android-studio-lite.runApp', async () => {
+			await appRunService.run();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.runAppOnMultipleDevices', async () => {
+			await appRunService.runOnMultipleDevices();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.stopApp', async () => {
+			await appRunService.stopApp();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.clearData', async () => {
+			await appRunService.clearData();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.uninstallApp', async () => {
+			await appRunService.uninstallApp();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.selectEmulator', async () => {
+			await selectedDevice.pick();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.startEmulator', async () => {
+			const target = await selectedDevice.pick({ avdOnly: true, placeHolder: 'Select an AVD to start' });
+			if (target?.avdName) {
+				await manager.avd.launchEmulator(target.avdName, toCommandLine(launchProfiles.argsFor(target.avdName)));
+			}
+		}),
+		vscode.commands.registerCommand('android-studio-lite.bootEmulator', async () => {
+			const selected = await selectedDevice.getTarget();
+			const target = selected?.kind === 'avd'
+				? selected
+				: await selectedDevice.pick({ avdOnly: true, placeHolder: 'Select an AVD to boot' });
+			if (target?.avdName) {
+				await appRunService.bootEmulator(target.avdName);
+			}
+		}),
+		vscode.commands.registerCommand('android-studio-lite.pairDevice', async () => {
+			await wirelessService.pairWithCode();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.pairDeviceQr', async () => {
+			await wirelessPairingPanel.show();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.connectDevice', async () => {
+			await wirelessService.connectDevice();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.forgetWirelessDevice', async () => {
+			await wirelessService.forgetDevice();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.takeScreenshot', async () => {
+			const target = await selectedDevice.pick({ onlineOnly: true, select: false, placeHolder: 'Select a device to capture' });
+			if (target?.serial) {
+				await capture.takeScreenshot(target.serial);
+			}
+		}),
+		vscode.commands.registerCommand('android-studio-lite.startScreenRecording', async () => {
+			const target = await selectedDevice.pick({ onlineOnly: true, select: false, placeHolder: 'Select a device to record' });
+			if (target?.serial) {
+				await capture.startRecording(target.serial);
+			}
+		}),
+		vscode.commands.registerCommand('android-studio-lite.stopScreenRecording', async () => {
+			const serials = capture.recordingSerials;
+			if (serials.length === 0) {
+				vscode.window.showInformationMessage('No screen recording in progress.');
+				return;
+			}
+			const serial = serials.length === 1
+				? serials[0]
+				: await vscode.window.showQuickPick(serials, { placeHolder: 'Select a recording to stop' });
+			if (serial) {
+				await capture.stopRecording(serial);
+			}
+		}),
+		vscode.commands.registerCommand('android-studio-lite.launchIntent', async () => {
+			await intentLauncherPanel.show();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.replayIntent', async () => {
+			await intentLauncher.replayRecent();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.emulatorControls', async () => {
+			await emulatorConsolePanel.show();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.avd-create', async (node) => {
+			createAvdImage = node?.pkg?.pathRaw;
+			await createAvdPanel.show();
+		}),
+		vscode.commands.registerCommand('android-studio-lite.playRoute', async (uri?: vscode.Uri) => {
+			if (uri) {
+				try {
+					await routePlayback.load(uri);
+				} catch (error: any) {
+					vscode.window.showErrorMessage(error?.message ?? String(error));
+					return;
+				}
+			}
+			await routePlaybackPanel.show();
+		}),
 		vscode.commands.registerCommand('android-studio-lite.startLogcat', async () => {
 			await logcatService.start();
 		}),
@@ -1,6 +1,6 @@
 import * as child_process from "child_process";
 import { showMsg, MsgType } from "./ui";
-import { window, ProgressLocation, Terminal } from 'vscode';
+import { window, ProgressLocation } from 'vscode';
 import { Manager } from "../core";
 
 export const exec = async function (manager: Manager, command: string, willLoad: Function, didLoad: Function, cwd?: string) {
@@ -16,28 +16,6 @@ export const exec = async function (manager: Manager, command: string, willLoad:
     });
 };
 
-export const term = function (name: string, command: string) {
-    let term = window.createTerminal(name);
-    term.show();
-    term.sendText(command);
-
-    return term;
-};
-
-export const sendTerm = function (term: Terminal, ...msg: string[]) {
-    return new Promise((resolve, reject) => {
-        let c: number = 0;
-        let i = setInterval(() => {
-            term.sendText(msg[c]);
-            c++;
-            if (c >= msg.length) {
-                clearInterval(i);
-                resolve(true);
-            }
-        }, 1000);
-    });
-};
-
 export const spawn = async function (manager: Manager, showLog: boolean, command: string, willLoadMsg?: string, success?: string, failure?: string, cwd?: string) {
 
     console.log("CMD Spawn");
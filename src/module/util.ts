@@ -92,3 +92,18 @@ export function sort(a: string, b: string, descOrder: boolean = false) {
     }
     return sortString(a, b, descOrder);
 }
+
+/** `512 B`, `1.5 MB`, `2.0 GB`. */
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
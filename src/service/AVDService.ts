@@ -1,8 +1,34 @@
+import * as fs from "node:fs";
 import * as nodePath from "node:path";
+import * as os from "node:os";
+import type * as vscode from 'vscode';
 import { Manager } from '../core';
 import { AVD, AVDDevice, AVDTarget, AVDManager, Command as avdcommand } from '../cmd/AVDManager';
 import { Service } from './Service';
 import { Emulator, Command as EmuCommand } from '../cmd/Emulator';
+import { parseIni, patchIni } from '../utils/iniFile';
+import { classifyAVDFile, listAVDFiles } from '../utils/avdFiles';
+import { extractZipDirectory, extractZipEntry, readZipEntries, writeZip } from '../utils/zipArchive';
+
+/** A system image installed under `<sdk>/system-images`. */
+export interface SystemImage {
+    /** sdkmanager package path, e.g. `system-images;android-34;google_apis;x86_64`. */
+    path: string;
+    apiLevel: string;
+    /** `SystemImage.TagId`, e.g. `google_apis_playstore`. */
+    tag: string;
+    tagDisplay: string;
+    abi: string;
+    description: string;
+    dir: string;
+}
+
+/** What besides the configuration a copied or exported AVD carries. */
+export interface AVDCopyOptions {
+    /** userdata, SD card and disk overlays. */
+    userData: boolean;
+    snapshots: boolean;
+}
 
 export class AVDService extends Service {
     readonly avdmanager: AVDManager;
@@ -43,7 +69,33 @@ export class AVDService extends Service {
         return out;
     }
 
-    async createAVD(avdname: string, path: string, imgname: string, device: number = -1) {
+    /** Reads `source.properties` of every `system-images/<platform>/<tag>/<abi>` folder. */
+    async getSystemImages(noCache: boolean = false): Promise<SystemImage[]> {
+        let out = this.getCache("getSystemImages");
+        if (!out || noCache) {
+            out = this.readSystemImages(nodePath.join(this.getConfig().sdkPath, "system-images"));
+            this.setCache("getSystemImages", out);
+        }
+        return out;
+    }
+
+    /** Sets `config.ini` keys of an existing AVD; see `patchIni`. */
+    async updateAVDConfig(name: string, values: Record<string, string | undefined>) {
+        const avd = ((await this.getAVDList(true)) as AVD[] | undefined)?.find(a => a.name === name);
+        if (!avd?.path) {
+            throw new Error(`AVD ${name} not found`);
+        }
+        await this.updateConfigFile(nodePath.join(avd.path, "config.ini"), values);
+    }
+
+    /** Keys of the AVD's `config.ini`; empty when it cannot be read. */
+    async readAVDConfig(avd: AVD): Promise<Record<string, string>> {
+        return fs.promises.readFile(nodePath.join(avd.path, "config.ini"), "utf8")
+            .then(parseIni)
+            .catch(() => ({}));
+    }
+
+    async createAVD(avdname: string, path: string, imgname: string, device: number = -1, sdCard?: string) {
         const avdHome = this.manager.getConfig().avdHome;
 
         let extra = "";
@@ -54,6 +106,9 @@ export class AVDService extends Service {
         if (device >= 0) {
             extra += ` --device "${device}" `;
         }
+        if (sdCard) {
+            extra += ` --sdcard ${sdCard} `;
+        }
         return this.avdmanager.exec<AVD>(avdcommand.create, avdname, path, imgname, extra);
     }
     async renameAVD(name: string, newName: string) {
@@ -64,8 +119,226 @@ export class AVDService extends Service {
         return this.avdmanager.exec<AVD>(avdcommand.delete, name);
     }
 
+    /** Folder holding the `<name>.ini` files, as the SDK tools resolve it. */
+    getAVDHome(): string {
+        const avdHome = this.manager.getConfig().avdHome;
+        if (avdHome !== "") {
+            return avdHome;
+        }
+        if (process.env.ANDROID_USER_HOME) {
+            return nodePath.join(process.env.ANDROID_USER_HOME, "avd");
+        }
+        return nodePath.join(process.env.ANDROID_SDK_HOME ?? os.homedir(), ".android", "avd");
+    }
+
+    /**
+     * Copies `avd` next to itself as `newName`: its `.avd` folder, a new
+     * `<newName>.ini`, and `AvdId` / `avd.ini.displayname` in config.ini.
+     * Snapshots are never copied; they are tied to the original paths.
+     */
+    async duplicateAVD(avd: AVD, newName: string, options: AVDCopyOptions) {
+        const dest = nodePath.join(nodePath.dirname(avd.path), newName + ".avd");
+        if (fs.existsSync(dest)) {
+            throw new Error(`${dest} already exists`);
+        }
+
+        const include = avdFileFilter({ ...options, snapshots: false });
+        await fs.promises.cp(avd.path, dest, {
+            recursive: true,
+            filter: (src) => src === avd.path || include(toArchivePath(nodePath.relative(avd.path, src))),
+        });
+
+        const configPath = nodePath.join(dest, "config.ini");
+        const config = (await fs.promises.readFile(configPath, "utf8")).split(avd.path).join(dest);
+        await fs.promises.writeFile(configPath, patchIni(config, {
+            "AvdId": newName,
+            "avd.ini.displayname": newName.replace(/_/g, " "),
+        }));
+        await this.writeAVDIni(newName, dest, await this.readAVDTarget(avd.name));
+        await this.getAVDList(true);
+    }
+
+    /**
+     * Zips `avd` as `<name>.ini` plus `<name>.avd/...`, the layout `importAVD`
+     * reads. Emulator runtime files are left out, and user data and snapshots
+     * unless `options` asks for them.
+     */
+    async exportAVD(avd: AVD, zipPath: string, options: AVDCopyOptions, progress?: vscode.Progress<{ message?: string }>) {
+        const include = avdFileFilter(options);
+        const files = (await listAVDFiles(avd.path)).filter(file => include(file.rel));
+        const iniPath = nodePath.join(this.getAVDHome(), avd.name + ".ini");
+        const sources = [
+            ...(fs.existsSync(iniPath) ? [{ name: avd.name + ".ini", path: iniPath }] : []),
+            ...files.map(file => ({ name: `${avd.name}.avd/${file.rel}`, path: file.path })),
+        ];
+        await writeZip(zipPath, sources, (source, index) =>
+            progress?.report({ message: `${source.name} (${index + 1}/${sources.length})` }));
+    }
+
+    /** Name of the AVD in an `exportAVD` archive. */
+    async readAVDArchiveName(zipPath: string): Promise<string> {
+        const entries = await readZipEntries(zipPath);
+        const avdDir = entries.map(e => /^([^/]+)\.avd\/config\.ini$/.exec(e.name)?.[1]).find(name => name !== undefined);
+        if (!avdDir) {
+            throw new Error(`${nodePath.basename(zipPath)} does not contain an exported AVD`);
+        }
+        return avdDir;
+    }
+
+    /**
+     * Extracts an `exportAVD` archive into the AVD home as `newName`. Returns
+     * the sdkmanager package of its system image when that is not installed.
+     */
+    async importAVD(zipPath: string, newName: string, progress?: vscode.Progress<{ message?: string }>): Promise<string | undefined> {
+        const entries = await readZipEntries(zipPath);
+        const name = await this.readAVDArchiveName(zipPath);
+        const dest = nodePath.join(this.getAVDHome(), newName + ".avd");
+        if (fs.existsSync(dest)) {
+            throw new Error(`${dest} already exists`);
+        }
+
+        let config: Record<string, string>;
+        try {
+            await extractZipDirectory(zipPath, entries, name + ".avd/", dest, (entry, index, count) =>
+                progress?.report({ message: `${entry.name} (${index + 1}/${count})` }));
+
+            // `<name>.ini` has the AVD's folder on the exporting machine in `path`
+            let ini: Record<string, string> = {};
+            const iniEntry = entries.find(e => e.name === name + ".ini");
+            if (iniEntry) {
+                const tmp = nodePath.join(os.tmpdir(), `${newName}-${Date.now()}.ini`);
+                await extractZipEntry(zipPath, iniEntry, tmp);
+                ini = parseIni(await fs.promises.readFile(tmp, "utf8"));
+                await fs.promises.rm(tmp);
+            }
+
+            const configPath = nodePath.join(dest, "config.ini");
+            let content = await fs.promises.readFile(configPath, "utf8");
+            config = parseIni(content);
+            if (ini["path"]) {
+                content = relocateAVDPaths(content, ini["path"], dest);
+            }
+            if (newName !== name) {
+                content = patchIni(content, {
+                    "AvdId": newName,
+                    "avd.ini.displayname": newName.replace(/_/g, " "),
+                });
+            }
+            await fs.promises.writeFile(configPath, content);
+            await this.writeAVDIni(newName, dest, ini["target"] ?? config["target"]);
+        } catch (error) {
+            // A half-extracted folder would show up as a broken AVD and block retrying with the same name
+            await fs.promises.rm(dest, { recursive: true, force: true });
+            throw error;
+        }
+        await this.getAVDList(true);
+
+        const sysdir = config["image.sysdir.1"];
+        if (sysdir && !fs.existsSync(nodePath.join(this.getConfig().sdkPath, sysdir))) {
+            return sysdir.replace(/[\\/]+$/, "").split(/[\\/]/).join(";");
+        }
+        return undefined;
+    }
+
     async launchEmulator(name: string, opt?: string) {
         opt = (opt ?? "") + " " + (this.manager.getConfig().emulatorOpt ?? "");
         return this.emulator.exec<string>(EmuCommand.run, name, opt);
     }
+
+    private async updateConfigFile(configPath: string, values: Record<string, string | undefined>) {
+        const content = await fs.promises.readFile(configPath, "utf8");
+        await fs.promises.writeFile(configPath, patchIni(content, values));
+    }
+
+    /** `target=` of the AVD's `<name>.ini`, e.g. `android-34`. */
+    private async readAVDTarget(name: string): Promise<string | undefined> {
+        return fs.promises.readFile(nodePath.join(this.getAVDHome(), name + ".ini"), "utf8")
+            .then(content => parseIni(content)["target"])
+            .catch(() => undefined);
+    }
+
+    private async writeAVDIni(name: string, avdPath: string, target: string | undefined) {
+        const lines = [
+            "avd.ini.encoding=UTF-8",
+            `path=${avdPath}`,
+            `path.rel=avd/${name}.avd`,
+            ...(target ? [`target=${target}`] : []),
+        ];
+        await fs.promises.writeFile(nodePath.join(this.getAVDHome(), name + ".ini"), lines.join("\n") + "\n");
+    }
+
+    private async readSystemImages(root: string): Promise<SystemImage[]> {
+        const images: SystemImage[] = [];
+        const subdirs = (dir: string) => fs.promises.readdir(dir, { withFileTypes: true })
+            .then(entries => entries.filter(e => e.isDirectory()).map(e => e.name))
+            .catch(() => [] as string[]);
+        for (const platform of await subdirs(root)) {
+            for (const tag of await subdirs(nodePath.join(root, platform))) {
+                for (const abi of await subdirs(nodePath.join(root, platform, tag))) {
+                    const dir = nodePath.join(root, platform, tag, abi);
+                    const props = await fs.promises.readFile(nodePath.join(dir, "source.properties"), "utf8")
+                        .then(parseIni)
+                        .catch(() => undefined);
+                    if (!props) {
+                        continue;
+                    }
+                    images.push({
+                        path: props["Pkg.Path"] ?? `system-images;${platform};${tag};${abi}`,
+                        apiLevel: props["AndroidVersion.ApiLevel"] ?? platform.replace(/^android-/, ""),
+                        tag: props["SystemImage.TagId"]?.split(",")[0] ?? tag,
+                        tagDisplay: props["SystemImage.TagDisplay"]?.split(",")[0] ?? tag,
+                        abi: props["SystemImage.Abi"] ?? abi,
+                        description: props["Pkg.Desc"] ?? "",
+                        dir,
+                    });
+                }
+            }
+        }
+        return images;
+    }
+}
+
+/** Whether a file or folder inside an `.avd` folder (`/`-separated) is copied with `options`. */
+function avdFileFilter(options: AVDCopyOptions): (rel: string) => boolean {
+    return (rel) => {
+        switch (classifyAVDFile(rel)) {
+            case "runtime":
+            case "cache":
+                return false;
+            case "userData":
+            case "sdCard":
+                return options.userData;
+            case "snapshots":
+                return options.snapshots;
+            default:
+                return true;
+        }
+    };
+}
+
+/**
+ * Points `config.ini` values inside `oldPath` (such as `hw.sdCard.path`) at
+ * the same file under `dest`. `oldPath` may come from another OS, so the rest
+ * of the value is split on either separator.
+ */
+function relocateAVDPaths(content: string, oldPath: string, dest: string): string {
+    const from = oldPath.replace(/[\\/]+$/, "");
+    const caseInsensitive = /^[A-Za-z]:[\\/]/.test(from);
+    return content.split(/(\r?\n)/).map(line => {
+        const match = /^(\s*[^#;=][^=]*=\s*)(.*?)(\s*)$/.exec(line);
+        if (!match) {
+            return line;
+        }
+        const [, key, value, trailing] = match;
+        const head = value.slice(0, from.length);
+        const rest = value.slice(from.length);
+        if ((caseInsensitive ? head.toLowerCase() !== from.toLowerCase() : head !== from) || !/^([\\/]|$)/.test(rest)) {
+            return line;
+        }
+        return key + nodePath.join(dest, ...rest.split(/[\\/]+/).filter(Boolean)) + trailing;
+    }).join("");
+}
+
+function toArchivePath(rel: string): string {
+    return rel.split(nodePath.sep).join("/");
 }
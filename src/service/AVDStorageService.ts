@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import { Manager } from '../core';
+import type { AVD } from '../cmd/AVDManager';
+import { classifyAVDFile, listAVDFiles } from '../utils/avdFiles';
+import type { AVDFile, AVDFileKind } from '../utils/avdFiles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AVDDiskUsage {
+    /** Allocated bytes of the whole `.avd` folder. */
+    total: number;
+    byKind: Record<AVDFileKind, number>;
+    /** Newest file modification; the emulator writes to the folder on every boot. */
+    lastUsed?: Date;
+}
+
+export type AVDCleanup = 'wipeData' | 'snapshots' | 'cache';
+
+/** What a cleanup would delete, for the dry-run summary. */
+export interface AVDCleanupPlan {
+    avd: AVD;
+    cleanup: AVDCleanup;
+    files: AVDFile[];
+    bytes: number;
+}
+
+/** An AVD not booted for longer than asked, with its usage. */
+export interface UnusedAVD {
+    avd: AVD;
+    usage: AVDDiskUsage;
+}
+
+/**
+ * What the emulator recreates from the system image on the next boot
+ * (`-wipe-data`): the data partition and its overlays, the encryption key,
+ * cache and snapshots. The SD card and configuration are kept.
+ */
+function isWipedWithData(file: AVDFile): boolean {
+    switch (classifyAVDFile(file.rel)) {
+        case 'userData':
+            return /^userdata-qemu\.img|^encryptionkey\.img|\.qcow2$/.test(file.rel);
+        case 'cache':
+        case 'snapshots':
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Disk usage of AVD folders and cleanups that free it. Cleanups are split
+ * into `plan` and `apply` so callers can show what would go first.
+ */
+export class AVDStorageService {
+    constructor(private readonly manager: Manager) { }
+
+    async usage(avd: AVD): Promise<AVDDiskUsage> {
+        return summarize(await this.files(avd));
+    }
+
+    async plan(avd: AVD, cleanup: AVDCleanup): Promise<AVDCleanupPlan> {
+        const files = (await this.files(avd)).filter(file => {
+            switch (cleanup) {
+                case 'wipeData':
+                    return isWipedWithData(file);
+                case 'snapshots':
+                    return classifyAVDFile(file.rel) === 'snapshots';
+                case 'cache':
+                    return classifyAVDFile(file.rel) === 'cache';
+            }
+        });
+        return { avd, cleanup, files, bytes: files.reduce((sum, f) => sum + f.diskBytes, 0) };
+    }
+
+    /** Removes the planned files; snapshot folders go as a whole. */
+    async apply(plan: AVDCleanupPlan): Promise<void> {
+        for (const file of plan.files.filter(f => classifyAVDFile(f.rel) !== 'snapshots')) {
+            await fs.promises.rm(file.path, { force: true });
+        }
+        if (plan.files.some(f => classifyAVDFile(f.rel) === 'snapshots')) {
+            const snapshots = nodePath.join(plan.avd.path, 'snapshots');
+            for (const entry of await fs.promises.readdir(snapshots).catch(() => [] as string[])) {
+                await fs.promises.rm(nodePath.join(snapshots, entry), { recursive: true, force: true });
+            }
+        }
+        this.manager.output.append(`[AVD Storage] ${plan.avd.name}: ${plan.cleanup} removed ${plan.files.length} files`);
+    }
+
+    /** AVDs whose folder has not changed for `days` days and that are not running, largest first. */
+    async unused(days: number): Promise<UnusedAVD[]> {
+        const avds: AVD[] = (await this.manager.avd.getAVDList(true)) ?? [];
+        const cutoff = Date.now() - days * DAY_MS;
+        const result: UnusedAVD[] = [];
+        for (const avd of avds.filter(a => a.name && a.path)) {
+            if (this.manager.deviceTracker.findByAvdName(avd.name)) {
+                continue;
+            }
+            const usage = await this.usage(avd);
+            if (usage.lastUsed && usage.lastUsed.getTime() < cutoff) {
+                result.push({ avd, usage });
+            }
+        }
+        return result.sort((a, b) => b.usage.total - a.usage.total);
+    }
+
+    private async files(avd: AVD): Promise<AVDFile[]> {
+        return avd.path ? listAVDFiles(avd.path).catch(() => []) : [];
+    }
+}
+
+function summarize(files: AVDFile[]): AVDDiskUsage {
+    const usage: AVDDiskUsage = {
+        total: 0,
+        byKind: { config: 0, runtime: 0, cache: 0, userData: 0, sdCard: 0, snapshots: 0 },
+    };
+    for (const file of files) {
+        usage.total += file.diskBytes;
+        usage.byKind[classifyAVDFile(file.rel)] += file.diskBytes;
+        if (!usage.lastUsed || file.mtime > usage.lastUsed) {
+            usage.lastUsed = file.mtime;
+        }
+    }
+    return usage;
+}
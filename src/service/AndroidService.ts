@@ -146,14 +146,15 @@ export class AndroidService extends Service {
                                 {
                                     location: ProgressLocation.Notification,
                                     title: "Installing Android SDK Components",
-                                    cancellable: false,
+                                    cancellable: true,
                                 },
-                                async (progress) => {
+                                async (progress, token) => {
                                     // Re-analyze SDK to get current state
                                     const currentSdkInfo = AndroidSdkDetector.analyzeSdk(sdkInfo.sdkPath);
                                     return await this.sdkInstaller.autoInstallMissingComponents(
                                         currentSdkInfo,
-                                        progress
+                                        progress,
+                                        token
                                     );
                                 }
                             );
@@ -524,6 +525,27 @@ ${html}
         return emulator;
     }
 
+    public getAdb() {
+        let config = this.getConfig();
+        let platform = this.manager.getPlatform();
+
+        //exec name
+        let exec = platform === Platform.window ? "adb.exe" : "adb";
+
+        //explicit config wins
+        if (config.adb && config.adb !== "") {
+            return config.adb;
+        }
+
+        //get alt exec
+        let altAdb = path.join(config.platformToolsPath, exec);
+
+        if (checkExecutable(altAdb)) {
+            return altAdb;
+        }
+        return exec;
+    }
+
     public async checkAVDManager() {
         let exec = this.getAVDManager();
         return execWithMsg(this.manager, false, exec + " list avd");
@@ -0,0 +1,682 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import type { BuildVariantModel } from '../cmd/BuildVariant';
+import { parseCommandLine } from '../cmd/Emulator';
+import { EmulatorBootService } from '../device/EmulatorBootService';
+import { findRunTarget } from '../device/RunTarget';
+import type { RunTarget } from '../device/RunTarget';
+import type { ApkOutput } from './GradleService';
+import { LogcatService } from './LogcatService';
+import type { SelectedDeviceService } from './SelectedDeviceService';
+import type { LaunchProfileService } from './LaunchProfileService';
+import { showMsg, MsgType, showQuickPick, showYesNoQuickPick } from '../module/ui';
+
+const SELECTED_MODULE_KEY = 'android-studio-lite.selectedModule';
+const CANCELLED = 'Build was cancelled';
+
+export interface RunRequest {
+    targetId: string;
+    moduleName: string;
+    /** All targets to deploy to; with more than one, see `deployToTargets`. */
+    targetIds?: string[];
+}
+
+export type RunOutcome = 'completed' | 'failed' | 'cancelled';
+
+export interface RunResult {
+    outcome: RunOutcome;
+    error?: string;
+}
+
+interface ResolvedVariant {
+    moduleName: string;
+    variant: BuildVariantModel;
+}
+
+interface InstalledApp {
+    applicationId: string;
+    serial: string;
+}
+
+/**
+ * Build, install and launch of the selected module/variant on a run target,
+ * plus stop / clear data / uninstall of that app. Shared by the palette
+ * commands and the sidebar webview.
+ */
+export class AppRunService implements vscode.Disposable {
+    private currentRun: vscode.CancellationTokenSource | null = null;
+    private readonly booting = new Set<string>();
+
+    private readonly _onDidStartRun = new vscode.EventEmitter<RunRequest>();
+    readonly onDidStartRun = this._onDidStartRun.event;
+
+    private readonly _onDidEndRun = new vscode.EventEmitter<RunResult>();
+    readonly onDidEndRun = this._onDidEndRun.event;
+
+    private readonly _onDidChangeSelectedModule = new vscode.EventEmitter<string>();
+    readonly onDidChangeSelectedModule = this._onDidChangeSelectedModule.event;
+
+    /** Fires when an AVD starts or stops booting through this service. */
+    private readonly _onDidChangeBooting = new vscode.EventEmitter<string>();
+    readonly onDidChangeBooting = this._onDidChangeBooting.event;
+
+    /** Fires with the serial once an emulator started or awaited by a run has finished booting. */
+    private readonly _onDidBootEmulator = new vscode.EventEmitter<string>();
+    readonly onDidBootEmulator = this._onDidBootEmulator.event;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+        private readonly selectedDevice: SelectedDeviceService,
+        private readonly launchProfiles: LaunchProfileService,
+    ) { }
+
+    get isRunning(): boolean {
+        return this.currentRun !== null;
+    }
+
+    get selectedModule(): string | undefined {
+        return this.context.workspaceState.get<string>(SELECTED_MODULE_KEY);
+    }
+
+    setSelectedModule(moduleName: string): void {
+        if (moduleName === this.selectedModule) {
+            return;
+        }
+        this.context.workspaceState.update(SELECTED_MODULE_KEY, moduleName);
+        this._onDidChangeSelectedModule.fire(moduleName);
+    }
+
+    isBooting(avdName: string): boolean {
+        return this.booting.has(avdName);
+    }
+
+    /**
+     * Boots the target if it is an AVD, installs the selected variant on it and
+     * launches the app. Missing target/module are asked for with a quick pick.
+     */
+    async run(request: Partial<RunRequest> = {}): Promise<RunResult | undefined> {
+        if (this.currentRun) {
+            showMsg(MsgType.info, 'A build is already running.');
+            return undefined;
+        }
+
+        const targetIds = request.targetIds && request.targetIds.length > 1 ? request.targetIds : undefined;
+        const targetId = targetIds?.[0]
+            ?? request.targetId
+            ?? (await this.selectedDevice.getTarget())?.id
+            ?? (await this.selectedDevice.pick())?.id;
+        const moduleName = request.moduleName ?? await this.resolveModule();
+        if (!targetId || !moduleName) {
+            return undefined;
+        }
+        if (!targetIds) {
+            await this.selectedDevice.select(targetId);
+        }
+        this.setSelectedModule(moduleName);
+
+        const cancelToken = new vscode.CancellationTokenSource();
+        this.currentRun = cancelToken;
+        this._onDidStartRun.fire({ targetId, moduleName, targetIds });
+
+        let result: RunResult;
+        try {
+            if (targetIds) {
+                await this.deployToTargets(targetIds, moduleName, cancelToken);
+            } else {
+                await this.buildInstallAndLaunch(targetId, moduleName, cancelToken);
+            }
+            result = { outcome: 'completed' };
+        } catch (error: any) {
+            console.error('[AppRunService] Run failed:', error);
+            if (cancelToken.token.isCancellationRequested || error?.message === CANCELLED) {
+                result = { outcome: 'cancelled' };
+                showMsg(MsgType.info, CANCELLED);
+            } else {
+                const errorMessage = this.extractBuildErrorMessage(error);
+                result = { outcome: 'failed', error: errorMessage };
+                showMsg(MsgType.error, `Build failed: ${errorMessage}`);
+            }
+        } finally {
+            this.currentRun = null;
+            cancelToken.dispose();
+        }
+
+        this._onDidEndRun.fire(result);
+        return result;
+    }
+
+    /** Asks for several run targets and deploys to all of them. */
+    async runOnMultipleDevices(moduleName?: string): Promise<RunResult | undefined> {
+        const targets = await this.selectedDevice.pickMany({ placeHolder: 'Select the devices to run on' });
+        if (targets.length === 0) {
+            return undefined;
+        }
+        return this.run({ targetId: targets[0].id, targetIds: targets.map(t => t.id), moduleName });
+    }
+
+    cancel(): void {
+        if (this.currentRun) {
+            this.currentRun.cancel();
+            this.manager.gradle.cancelBuild();
+        }
+    }
+
+    async stopApp(): Promise<void> {
+        const app = await this.resolveInstalledApp('stop');
+        if (!app) {
+            return;
+        }
+        await this.runLifecycleCommand(app, ['am', 'force-stop', app.applicationId], `Stopped ${app.applicationId}`);
+    }
+
+    async clearData(): Promise<void> {
+        const app = await this.resolveInstalledApp('clear data of');
+        if (!app) {
+            return;
+        }
+        const answer = await showYesNoQuickPick(`Clear all data of ${app.applicationId} on ${app.serial}?`);
+        if (answer !== 'Yes') {
+            return;
+        }
+        await this.runLifecycleCommand(app, ['pm', 'clear', app.applicationId], `Cleared data of ${app.applicationId}`);
+    }
+
+    async uninstallApp(): Promise<void> {
+        const app = await this.resolveInstalledApp('uninstall');
+        if (!app) {
+            return;
+        }
+        const answer = await showYesNoQuickPick(`Uninstall ${app.applicationId} from ${app.serial}?`);
+        if (answer !== 'Yes') {
+            return;
+        }
+        await this.runLifecycleCommand(app, ['pm', 'uninstall', app.applicationId], `Uninstalled ${app.applicationId}`);
+    }
+
+    /** Launches the AVD if needed and waits until it has fully booted. */
+    async bootEmulator(avdName: string): Promise<string | undefined> {
+        const emulatorPath = this.manager.android.getEmulator();
+        if (!emulatorPath) {
+            showMsg(MsgType.error, 'SDK path or emulator not configured. Run Setup Wizard.');
+            return undefined;
+        }
+        try {
+            const serial = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Booting ${avdName}`,
+                    cancellable: true,
+                },
+                (progress, token) => this.launchAndWait(avdName, emulatorPath, progress, token),
+            );
+            showMsg(MsgType.info, `${avdName} is ready (${serial})`);
+            return serial;
+        } catch (error: any) {
+            if (error?.message !== CANCELLED) {
+                showMsg(MsgType.error, `Failed to boot ${avdName}: ${error?.message ?? error}`);
+            }
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.currentRun?.cancel();
+        this._onDidStartRun.dispose();
+        this._onDidEndRun.dispose();
+        this._onDidChangeSelectedModule.dispose();
+        this._onDidChangeBooting.dispose();
+        this._onDidBootEmulator.dispose();
+    }
+
+    private async buildInstallAndLaunch(
+        targetId: string,
+        moduleName: string,
+        cancelToken: vscode.CancellationTokenSource,
+    ): Promise<void> {
+        const target = await findRunTarget(this.manager, targetId);
+        if (!target) {
+            throw new Error('Selected device is no longer available');
+        }
+        if (target.kind === 'device' && target.state !== 'device') {
+            throw new Error(`${target.label} is ${target.state}`);
+        }
+
+        const emulatorPath = this.manager.android.getEmulator();
+        if (target.kind === 'avd' && !emulatorPath) {
+            throw new Error('SDK path or emulator not configured. Run Setup Wizard.');
+        }
+
+        const { variant } = await this.resolveVariant(moduleName);
+        if (!variant.tasks.install) {
+            throw new Error(`No install task found for variant ${variant.name}`);
+        }
+        const installTask = variant.tasks.install;
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Building and installing ${variant.name}`,
+                cancellable: true,
+            },
+            async (progress, token) => {
+                token.onCancellationRequested(() => this.cancel());
+
+                const serial = await this.resolveSerial(target, emulatorPath, progress, cancelToken.token);
+                if (cancelToken.token.isCancellationRequested) {
+                    throw new Error(CANCELLED);
+                }
+
+                progress.report({ increment: 0, message: `Installing ${installTask}...` });
+                this.manager.output.append(`[AppRun] ${installTask} on ${serial}`);
+
+                await this.manager.gradle.installVariant(
+                    installTask,
+                    (output) => {
+                        // Show progress from Gradle output
+                        const lines = output.split('\n').filter(l => l.trim());
+                        const lastLine = lines[lines.length - 1];
+                        if (lastLine && lastLine.length < 100) {
+                            progress.report({ message: lastLine });
+                        }
+                    },
+                    cancelToken.token,
+                    serial,
+                );
+
+                progress.report({ increment: 90, message: 'Installation completed! Launching app...' });
+
+                // Don't fail the whole run if only the launch fails
+                try {
+                    const applicationId = variant.applicationId;
+                    if (!applicationId) {
+                        throw new Error(`No applicationId found for variant ${variant.name}. Please ensure the gradle script includes applicationId for application modules.`);
+                    }
+                    await this.launchApp(applicationId, serial);
+                    LogcatService.setLastRun(this.context, applicationId, serial);
+                    progress.report({ increment: 100, message: 'App launched successfully!' });
+                    showMsg(MsgType.info, `App installed and launched on ${target.label}`);
+                } catch (launchError: any) {
+                    console.error('[AppRunService] Error launching app:', launchError);
+                    progress.report({ increment: 100, message: 'Installation completed (launch failed)' });
+                    showMsg(MsgType.warning, `App installed but failed to launch: ${launchError.message || String(launchError)}`);
+                }
+            },
+        );
+    }
+
+    /**
+     * Assembles the variant once, then installs and launches it on every target
+     * in parallel (AVDs boot while Gradle runs). A failure on one device does
+     * not stop the others; the run only fails if no device succeeded.
+     */
+    private async deployToTargets(
+        targetIds: string[],
+        moduleName: string,
+        cancelToken: vscode.CancellationTokenSource,
+    ): Promise<void> {
+        const targets: RunTarget[] = [];
+        for (const id of targetIds) {
+            const target = await findRunTarget(this.manager, id);
+            if (target) {
+                targets.push(target);
+            } else {
+                this.manager.output.append(`[AppRun] ${id} is no longer available, skipping`, 'error');
+            }
+        }
+        if (targets.length === 0) {
+            throw new Error('None of the selected devices are available');
+        }
+
+        const emulatorPath = this.manager.android.getEmulator();
+        if (targets.some(t => t.kind === 'avd') && !emulatorPath) {
+            throw new Error('SDK path or emulator not configured. Run Setup Wizard.');
+        }
+
+        const { variant } = await this.resolveVariant(moduleName);
+        const applicationId = variant.applicationId;
+        if (!applicationId) {
+            throw new Error(`No applicationId found for variant ${variant.name}. Please ensure the gradle script includes applicationId for application modules.`);
+        }
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Deploying ${variant.name} to ${targets.length} devices`,
+                cancellable: true,
+            },
+            async (progress, token) => {
+                token.onCancellationRequested(() => this.cancel());
+
+                const states = new Map(targets.map(t => [t.id, 'waiting']));
+                let building = true;
+                const report = (target: RunTarget, state: string) => {
+                    states.set(target.id, state);
+                    this.manager.output.append(`[AppRun] ${target.label}: ${state}`);
+                    if (!building) {
+                        progress.report({ message: targets.map(t => `${t.label}: ${states.get(t.id)}`).join(' · ') });
+                    }
+                };
+
+                const serials = targets.map(target => this.resolveSerial(
+                    target,
+                    emulatorPath,
+                    { report: ({ message }) => message && report(target, message) },
+                    cancelToken.token,
+                ));
+                // Settled per device below; keep an early build failure from leaving them unhandled
+                serials.forEach(p => p.catch(() => undefined));
+
+                progress.report({ message: `Building ${variant.tasks.assemble}...` });
+                await this.manager.gradle.assembleVariant(
+                    variant.tasks.assemble,
+                    (output) => {
+                        const lines = output.split('\n').filter(l => l.trim());
+                        const lastLine = lines[lines.length - 1];
+                        if (lastLine && lastLine.length < 100) {
+                            progress.report({ message: lastLine });
+                        }
+                    },
+                    cancelToken.token,
+                );
+                building = false;
+
+                const apks = await this.manager.gradle.findApkOutputs(moduleName, variant.name);
+                if (apks.length === 0) {
+                    throw new Error(`No APK found for ${variant.name} after ${variant.tasks.assemble}`);
+                }
+                const apkData = new Map<string, Promise<Buffer>>();
+                const readApk = (apkPath: string) => {
+                    if (!apkData.has(apkPath)) {
+                        apkData.set(apkPath, fs.promises.readFile(apkPath));
+                    }
+                    return apkData.get(apkPath)!;
+                };
+
+                const results = await Promise.allSettled(targets.map(async (target, i) => {
+                    try {
+                        const serial = await serials[i];
+                        if (cancelToken.token.isCancellationRequested) {
+                            throw new Error(CANCELLED);
+                        }
+                        const apk = this.selectApk(apks, serial);
+                        report(target, 'installing');
+                        await this.manager.adb.install(serial, await readApk(apk.path), nodePath.basename(apk.path));
+                        report(target, 'launching');
+                        await this.launchApp(applicationId, serial);
+                        report(target, 'launched');
+                        return serial;
+                    } catch (error: any) {
+                        report(target, 'failed');
+                        this.manager.output.append(`[AppRun] ${target.label}: ${error?.message ?? error}`, 'error');
+                        throw error;
+                    }
+                }));
+
+                if (cancelToken.token.isCancellationRequested) {
+                    throw new Error(CANCELLED);
+                }
+
+                const succeeded = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+                const failed = targets.filter((_, i) => results[i].status === 'rejected');
+                if (succeeded.length > 0) {
+                    const selectedSerial = (await this.selectedDevice.getTarget())?.serial;
+                    LogcatService.setLastRun(this.context, applicationId, succeeded.find(s => s === selectedSerial) ?? succeeded[0]);
+                }
+
+                if (failed.length === 0) {
+                    showMsg(MsgType.info, `App installed and launched on ${succeeded.length} devices`);
+                    return;
+                }
+                const failures = failed.map(t => t.label).join(', ');
+                if (succeeded.length === 0) {
+                    throw new Error(`Deploy failed on every device (${failures}). See the output channel for details.`);
+                }
+                this.manager.output.show();
+                showMsg(MsgType.warning, `App launched on ${succeeded.length} of ${targets.length} devices. Failed: ${failures}`);
+            },
+        );
+    }
+
+    /** The APK matching the device's primary ABI, else the universal one. */
+    private selectApk(apks: ApkOutput[], serial: string): ApkOutput {
+        const abi = this.manager.deviceTracker.getDevice(serial)?.abi;
+        return apks.find(a => abi && a.abis.includes(abi))
+            ?? apks.find(a => a.abis.length === 0)
+            ?? apks[0];
+    }
+
+    /**
+     * Physical devices (and emulators adb knows without an AVD) are used as-is;
+     * AVDs are launched if needed and waited on until fully booted.
+     */
+    private async resolveSerial(
+        target: RunTarget,
+        emulatorPath: string | null,
+        progress: vscode.Progress<{ message?: string }>,
+        cancellationToken: vscode.CancellationToken,
+    ): Promise<string> {
+        if (target.kind === 'device') {
+            return target.serial!;
+        }
+        return this.launchAndWait(target.avdName!, emulatorPath!, progress, cancellationToken);
+    }
+
+    /**
+     * Fire-and-forget launch (if needed) + wait on the device tracker until fully booted.
+     * A fresh emulator gets the AVD's launch profile and `emulatorOpt`.
+     */
+    private async launchAndWait(
+        avdName: string,
+        emulatorPath: string,
+        progress: vscode.Progress<{ message?: string }>,
+        cancellationToken: vscode.CancellationToken,
+    ): Promise<string> {
+        const bootService = new EmulatorBootService(
+            this.manager,
+            emulatorPath,
+            { appendLine: (line) => this.manager.output.append(line) },
+            (serial) => this._onDidBootEmulator.fire(serial),
+        );
+        this.booting.add(avdName);
+        this._onDidChangeBooting.fire(avdName);
+        try {
+            const emulatorArgs = [
+                ...this.launchProfiles.argsFor(avdName),
+                ...parseCommandLine(this.manager.getConfig().emulatorOpt ?? ''),
+            ];
+            return await bootService.launchAndWait(avdName, progress, cancellationToken, emulatorArgs);
+        } finally {
+            this.booting.delete(avdName);
+            this._onDidChangeBooting.fire(avdName);
+        }
+    }
+
+    private async launchApp(applicationId: string, serial: string): Promise<void> {
+        const output = await this.manager.adb.shell(serial, [
+            'monkey', '-p', applicationId, '-c', 'android.intent.category.LAUNCHER', '1',
+        ]);
+        // monkey exits 0 even when nothing was launched; it reports problems on stdout
+        if (/No activities found|Error:|\*\* /.test(output)) {
+            throw new Error(`Failed to launch app: ${output.trim()}`);
+        }
+    }
+
+    private async runLifecycleCommand(app: InstalledApp, command: string[], success: string): Promise<void> {
+        this.manager.output.append(`[AppRun] ${app.serial}: ${command.join(' ')}`);
+        try {
+            const output = (await this.manager.adb.shell(app.serial, command, 15000)).trim();
+            if (output) {
+                this.manager.output.append(output);
+            }
+            // pm reports failures on stdout ("Failed", "Failure [DELETE_FAILED_INTERNAL_ERROR]")
+            if (/^(Fail|Error|Exception)/m.test(output)) {
+                throw new Error(output);
+            }
+            showMsg(MsgType.info, `${success} on ${app.serial}`);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(message, 'error');
+            this.manager.output.show();
+            showMsg(MsgType.error, `${command.slice(0, 2).join(' ')} failed: ${message}`);
+        }
+    }
+
+    /**
+     * applicationId of the selected module/variant, on the selected target if it
+     * is online, else on the device of the last run, else on a picked device.
+     */
+    private async resolveInstalledApp(action: string): Promise<InstalledApp | undefined> {
+        const moduleName = await this.resolveModule();
+        if (!moduleName) {
+            return undefined;
+        }
+        let applicationId: string | undefined;
+        try {
+            applicationId = (await this.resolveVariant(moduleName)).variant.applicationId;
+        } catch (error: any) {
+            showMsg(MsgType.error, error?.message ?? String(error));
+            return undefined;
+        }
+        const lastRun = LogcatService.getLastRun(this.context);
+        applicationId = applicationId ?? lastRun.applicationId;
+        if (!applicationId) {
+            showMsg(MsgType.warning, `No applicationId found for module ${moduleName}.`);
+            return undefined;
+        }
+
+        const online = (serial?: string) => !!serial && this.manager.deviceTracker.getDevice(serial)?.state === 'device';
+        const selected = await this.selectedDevice.getTarget();
+        let serial = online(selected?.serial) ? selected!.serial : online(lastRun.serial) ? lastRun.serial : undefined;
+        if (!serial) {
+            serial = (await this.selectedDevice.pick({
+                placeHolder: `Select a device to ${action} ${applicationId} on`,
+                onlineOnly: true,
+                select: false,
+            }))?.serial;
+        }
+        return serial ? { applicationId, serial } : undefined;
+    }
+
+    private async resolveVariant(moduleName: string): Promise<ResolvedVariant> {
+        const modules = await this.manager.buildVariant.getModuleBuildVariants(this.context);
+        const module = modules.find(m => m.module === moduleName && m.type === 'application');
+        if (!module || !module.variants || module.variants.length === 0) {
+            throw new Error('No build variants found for module');
+        }
+        const variantName = this.manager.buildVariant.getSelectedVariant(this.context, moduleName) || module.variants[0].name;
+        const variant = module.variants.find(v => v.name === variantName) || module.variants[0];
+        return { moduleName, variant };
+    }
+
+    /** Selected module, or the only application module, or a quick pick among them. */
+    private async resolveModule(): Promise<string | undefined> {
+        if (!this.manager.buildVariant.isAndroidProject()) {
+            showMsg(MsgType.warning, 'Open an Android project to run apps.');
+            return undefined;
+        }
+        const modules = (await this.manager.buildVariant.getModuleBuildVariants(this.context))
+            .filter(m => m.type === 'application');
+        const selected = this.selectedModule;
+        if (selected && modules.some(m => m.module === selected)) {
+            return selected;
+        }
+        if (modules.length === 1) {
+            return modules[0].module;
+        }
+        const item = await showQuickPick(
+            Promise.resolve(modules.map(m => ({ label: m.module }))),
+            { placeHolder: 'Select a module', canPickMany: false },
+            'No application modules found',
+        );
+        return item === false ? undefined : (item as vscode.QuickPickItem).label;
+    }
+
+    private extractBuildErrorMessage(error: any): string {
+        // Extract error message more reliably
+        let errorMessage = 'Unknown error';
+        if (error?.message) {
+            errorMessage = error.message;
+        } else if (error?.toString && typeof error.toString === 'function') {
+            errorMessage = error.toString();
+        } else if (typeof error === 'string') {
+            errorMessage = error;
+        } else {
+            errorMessage = JSON.stringify(error);
+        }
+
+        // Try to extract the most relevant error from Gradle output
+        // Common patterns:
+        // 1. "What went wrong:" followed by error description
+        // 2. "FAILURE: Build failed with an exception."
+        // 3. Task-specific errors like "Execution failed for task"
+
+        const lines = errorMessage.split('\n');
+        const relevantLines: string[] = [];
+
+        // Look for key error indicators
+        let captureNext = false;
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+
+            // Capture "What went wrong:" section
+            if (line.includes('What went wrong:') || line.includes('FAILURE:')) {
+                captureNext = true;
+                if (line.includes('FAILURE:')) {
+                    relevantLines.push(line);
+                }
+                continue;
+            }
+
+            // Capture "Execution failed for task" lines
+            if (line.includes('Execution failed for task')) {
+                relevantLines.push(line);
+                captureNext = true;
+                continue;
+            }
+
+            // Capture lines after "What went wrong:" (usually the actual error)
+            if (captureNext && line && !line.startsWith('*') && !line.startsWith('>') && !line.includes('Try:') && !line.includes('Run with')) {
+                if (line.length > 0 && !line.match(/^\s*$/)) {
+                    relevantLines.push(line);
+                    // Stop capturing after we get a meaningful error line
+                    if (line.length > 20 && !line.includes('Get more help')) {
+                        captureNext = false;
+                    }
+                }
+            }
+
+            // Stop capturing on certain markers
+            if (line.includes('Try:') || line.includes('Run with') || line.includes('Get more help')) {
+                captureNext = false;
+            }
+        }
+
+        // If we found relevant lines, use them; otherwise use the original message
+        if (relevantLines.length > 0) {
+            // Join relevant lines, but limit to first 3-4 most important ones
+            const extracted = relevantLines.slice(0, 4).join(' ').trim();
+            if (extracted.length > 0) {
+                return extracted;
+            }
+        }
+
+        // Fallback: try to find the first meaningful error line
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (trimmed &&
+                trimmed.length > 20 &&
+                !trimmed.includes('BUILD FAILED') &&
+                !trimmed.includes('FAILURE:') &&
+                !trimmed.includes('Try:') &&
+                !trimmed.includes('Run with') &&
+                (trimmed.includes('failed') || trimmed.includes('error') || trimmed.includes('Error'))) {
+                return trimmed;
+            }
+        }
+
+        return errorMessage;
+    }
+}
@@ -13,6 +13,13 @@ export interface MuduleBuildVariant extends Module {
     module: string;
 }
 
+export interface SelectedBuildVariant {
+    module: string;
+    variant: string;
+}
+
+const SELECTED_BUILD_VARIANTS_KEY = 'android-studio-lite.selectedBuildVariants';
+
 const defaultVariants: MuduleBuildVariant[] = [
     {
         module: "app",
@@ -46,6 +53,9 @@ export class BuildVariantService extends Service {
     /** Coalesces concurrent getModuleBuildVariants calls to avoid duplicate Gradle fetches */
     private moduleBuildVariantsPromise: Promise<MuduleBuildVariant[]> | null = null;
 
+    private readonly _onDidChangeSelectedVariant = new vscode.EventEmitter<SelectedBuildVariant>();
+    readonly onDidChangeSelectedVariant = this._onDidChangeSelectedVariant.event;
+
     constructor(manager: Manager) {
         super(manager);
         this.manager = manager;
@@ -154,6 +164,19 @@ export class BuildVariantService extends Service {
             }
     }
 
+    /** Variant picked for `moduleName`, if any (callers default to the first variant). */
+    public getSelectedVariant(context: vscode.ExtensionContext, moduleName: string): string | undefined {
+        const selectedVariants = context.workspaceState.get<Record<string, string>>(SELECTED_BUILD_VARIANTS_KEY, {});
+        return selectedVariants[moduleName];
+    }
+
+    public async setSelectedVariant(context: vscode.ExtensionContext, moduleName: string, variantName: string): Promise<void> {
+        const selectedVariants = context.workspaceState.get<Record<string, string>>(SELECTED_BUILD_VARIANTS_KEY, {});
+        selectedVariants[moduleName] = variantName;
+        await context.workspaceState.update(SELECTED_BUILD_VARIANTS_KEY, selectedVariants);
+        this._onDidChangeSelectedVariant.fire({ module: moduleName, variant: variantName });
+    }
+
     public clearCache(): void {
         // Force expire the cache by setting it with expired timestamp
         this.manager.cache.set("getModuleBuildVariants", null, -1);
@@ -6,6 +6,13 @@ import { Manager } from "../core";
 import { GradleExecutable, Command } from "../cmd/Gradle";
 import { showMsg, MsgType } from '../module/ui';
 
+/** One APK listed in a variant's `output-metadata.json`. */
+export interface ApkOutput {
+    path: string;
+    /** ABIs the APK is restricted to; empty for a universal APK. */
+    abis: string[];
+}
+
 export class GradleService extends Service {
     readonly manager: Manager;
     readonly gradle: GradleExecutable;
@@ -22,7 +29,8 @@ export class GradleService extends Service {
     public async installVariant(
         variantTask: string,
         onOutput?: (output: string) => void,
-        cancellationToken?: vscode.CancellationToken
+        cancellationToken?: vscode.CancellationToken,
+        serial?: string
     ): Promise<void> {
         if (!this.workspacePath) {
             throw new Error("No workspace folder found");
@@ -49,6 +57,8 @@ export class GradleService extends Service {
             const spawnOptions: child_process.SpawnOptions = {
                 shell: true,
                 cwd: this.workspacePath,
+                // The install task targets every connected device unless ANDROID_SERIAL narrows it
+                env: serial ? { ...process.env, ANDROID_SERIAL: serial } : process.env,
             };
 
             this.buildProcess = child_process.spawn(cmd, [], spawnOptions);
@@ -209,6 +219,80 @@ export class GradleService extends Service {
         });
     }
 
+    /**
+     * APKs produced by the last assemble of `variantName` in `moduleName` (`:app`,
+     * `:feature:app`), read from the `output-metadata.json` AGP writes next to them.
+     */
+    public async findApkOutputs(moduleName: string, variantName: string): Promise<ApkOutput[]> {
+        const fs = await import('fs');
+        const apkRoot = path.join(this.workspacePath, ...moduleName.split(':').filter(p => p), 'build', 'outputs', 'apk');
+
+        const metadataFiles: string[] = [];
+        const walk = async (dir: string, depth: number) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const full = path.join(dir, entry.name);
+                if (entry.isDirectory() && depth < 3) {
+                    await walk(full, depth + 1);
+                } else if (entry.name === 'output-metadata.json') {
+                    metadataFiles.push(full);
+                }
+            }
+        };
+        await walk(apkRoot, 0);
+
+        for (const file of metadataFiles) {
+            try {
+                const metadata = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+                if (metadata.variantName !== variantName) {
+                    continue;
+                }
+                return (metadata.elements ?? []).map((element: any) => ({
+                    path: path.join(path.dirname(file), element.outputFile),
+                    abis: (element.filters ?? [])
+                        .filter((f: any) => f.filterType === 'ABI')
+                        .map((f: any) => f.value),
+                }));
+            } catch (error) {
+                console.error('[GradleService] Error reading', file, error);
+            }
+        }
+        return [];
+    }
+
+    /**
+     * The merged `AndroidManifest.xml` of a variant, as left by the last build
+     * (`merged_manifests/<variant>/` on AGP 7, `merged_manifest/<variant>/process*Manifest/`
+     * on AGP 8). Falls back to `src/main/AndroidManifest.xml` when nothing was built yet.
+     */
+    public async findMergedManifest(moduleName: string, variantName: string): Promise<{ path: string; merged: boolean } | undefined> {
+        const fs = await import('fs');
+        const moduleDir = path.join(this.workspacePath, ...moduleName.split(':').filter(p => p));
+        const intermediates = path.join(moduleDir, 'build', 'intermediates');
+
+        const candidates: string[] = [];
+        const walk = async (dir: string, depth: number) => {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const full = path.join(dir, entry.name);
+                if (entry.isDirectory() && depth < 2) {
+                    await walk(full, depth + 1);
+                } else if (entry.name === 'AndroidManifest.xml') {
+                    candidates.push(full);
+                }
+            }
+        };
+        for (const folder of ['merged_manifests', 'merged_manifest']) {
+            await walk(path.join(intermediates, folder, variantName), 0);
+        }
+        if (candidates.length > 0) {
+            return { path: candidates[0], merged: true };
+        }
+
+        const source = path.join(moduleDir, 'src', 'main', 'AndroidManifest.xml');
+        return fs.existsSync(source) ? { path: source, merged: false } : undefined;
+    }
+
     public isBuildInProgress(): boolean {
         return this.buildProcess !== null;
     }
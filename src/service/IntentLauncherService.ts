@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { shellQuote } from '../device/AdbClient';
+import { parseDeepLinks } from '../utils/manifestParser';
+import type { DeepLink } from '../utils/manifestParser';
+import type { AppRunService } from './AppRunService';
+import type { SelectedDeviceService } from './SelectedDeviceService';
+import { showMsg, MsgType, showQuickPick } from '../module/ui';
+
+const RECENT_INTENTS_KEY = 'android-studio-lite.recentIntents';
+const MAX_RECENT_INTENTS = 15;
+const AM_START_TIMEOUT_MS = 30000;
+
+export type IntentExtraType = 'string' | 'int' | 'bool';
+
+export interface IntentExtra {
+    type: IntentExtraType;
+    key: string;
+    value: string;
+}
+
+/** Everything `am start` is given; empty fields are left out. */
+export interface IntentSpec {
+    action?: string;
+    data?: string;
+    categories?: string[];
+    /** `<package>/<class>`; a class starting with `.` is relative to the package. */
+    component?: string;
+    /** Names from `INTENT_FLAGS`, OR-ed into `-f`. */
+    flags?: string[];
+    extras?: IntentExtra[];
+}
+
+export interface IntentLaunchResult {
+    serial: string;
+    command: string;
+    output: string;
+}
+
+/** Intent flags offered by the launcher, with their `Intent.FLAG_*` values. */
+export const INTENT_FLAGS: { [name: string]: number } = {
+    FLAG_ACTIVITY_NEW_TASK: 0x10000000,
+    FLAG_ACTIVITY_CLEAR_TOP: 0x04000000,
+    FLAG_ACTIVITY_CLEAR_TASK: 0x00008000,
+    FLAG_ACTIVITY_SINGLE_TOP: 0x20000000,
+    FLAG_ACTIVITY_NO_HISTORY: 0x40000000,
+    FLAG_ACTIVITY_REORDER_TO_FRONT: 0x00020000,
+    FLAG_ACTIVITY_MULTIPLE_TASK: 0x08000000,
+    FLAG_ACTIVITY_NO_ANIMATION: 0x00010000,
+    FLAG_ACTIVITY_EXCLUDE_FROM_RECENTS: 0x00800000,
+    FLAG_GRANT_READ_URI_PERMISSION: 0x00000001,
+    FLAG_INCLUDE_STOPPED_PACKAGES: 0x00000020,
+    FLAG_DEBUG_LOG_RESOLUTION: 0x00000008,
+};
+
+const EXTRA_OPTIONS: { [type in IntentExtraType]: string } = {
+    string: '--es',
+    int: '--ei',
+    bool: '--ez',
+};
+
+/**
+ * Launches arbitrary intents with `am start` (action, data URI, categories,
+ * component, flags and typed extras), offers the deep links declared in the
+ * selected module's merged manifest, and keeps recent intents per workspace.
+ */
+export class IntentLauncherService implements vscode.Disposable {
+    private readonly _onDidChangeRecent = new vscode.EventEmitter<void>();
+    readonly onDidChangeRecent = this._onDidChangeRecent.event;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+        private readonly appRunService: AppRunService,
+        private readonly selectedDevice: SelectedDeviceService,
+    ) { }
+
+    get recent(): IntentSpec[] {
+        return this.context.workspaceState.get<IntentSpec[]>(RECENT_INTENTS_KEY, []);
+    }
+
+    /** Starts the intent on `serial`, or the selected device if online, or a picked one. */
+    async launch(spec: IntentSpec, serial?: string): Promise<IntentLaunchResult | undefined> {
+        const args = buildAmStartArgs(spec);
+        serial = serial ?? await this.resolveSerial();
+        if (!serial) {
+            return undefined;
+        }
+        const command = args.map(shellQuote).join(' ');
+        this.manager.output.append(`[Intent] ${serial}: ${command}`);
+        const output = (await this.manager.adb.shell(serial, args, AM_START_TIMEOUT_MS)).trim();
+        if (output) {
+            this.manager.output.append(output);
+        }
+        // am reports unresolvable intents and security exceptions on stdout with status 0
+        if (/^(Error|Exception|java\.lang\.\w+Exception)/m.test(output)) {
+            throw new Error(output.split('\n').find(line => /Error|Exception/.test(line))?.trim() ?? output);
+        }
+        await this.remember(spec);
+        return { serial, command, output };
+    }
+
+    /** Quick pick over the recent intents; the chosen one is launched again. */
+    async replayRecent(): Promise<void> {
+        const items = this.recent.map(spec => ({ label: describeIntent(spec), spec }));
+        const item = await showQuickPick(
+            Promise.resolve(items),
+            { placeHolder: 'Select an intent to launch again' },
+            'No recent intents. Use Launch Intent first.',
+        );
+        if (item === false) {
+            return;
+        }
+        try {
+            const result = await this.launch((item as typeof items[number]).spec);
+            if (result) {
+                showMsg(MsgType.info, `Launched on ${result.serial}`);
+            }
+        } catch (error: any) {
+            showMsg(MsgType.error, `Launch failed: ${error?.message ?? error}`);
+        }
+    }
+
+    async clearRecent(): Promise<void> {
+        await this.context.workspaceState.update(RECENT_INTENTS_KEY, []);
+        this._onDidChangeRecent.fire();
+    }
+
+    /**
+     * applicationId and deep links of the selected (or only) application module,
+     * read from the merged manifest of its selected variant.
+     */
+    async getAppInfo(): Promise<{ applicationId?: string; deepLinks: DeepLink[]; manifestPath?: string; merged: boolean }> {
+        const modules = (await this.manager.buildVariant.getModuleBuildVariants(this.context))
+            .filter(m => m.type === 'application');
+        const module = modules.find(m => m.module === this.appRunService.selectedModule) ?? modules[0];
+        if (!module || module.variants.length === 0) {
+            return { deepLinks: [], merged: false };
+        }
+        const variantName = this.manager.buildVariant.getSelectedVariant(this.context, module.module) || module.variants[0].name;
+        const variant = module.variants.find(v => v.name === variantName) ?? module.variants[0];
+        const manifest = await this.manager.gradle.findMergedManifest(module.module, variant.name);
+        if (!manifest) {
+            return { applicationId: variant.applicationId, deepLinks: [], merged: false };
+        }
+        try {
+            const deepLinks = parseDeepLinks(await fs.promises.readFile(manifest.path, 'utf8'));
+            return { applicationId: variant.applicationId, deepLinks, manifestPath: manifest.path, merged: manifest.merged };
+        } catch (error: any) {
+            this.manager.output.append(`[Intent] Failed to read ${manifest.path}: ${error?.message ?? error}`, 'error');
+            return { applicationId: variant.applicationId, deepLinks: [], merged: false };
+        }
+    }
+
+    dispose(): void {
+        this._onDidChangeRecent.dispose();
+    }
+
+    private async resolveSerial(): Promise<string | undefined> {
+        const selected = await this.selectedDevice.getTarget();
+        if (selected?.serial && selected.state === 'device') {
+            return selected.serial;
+        }
+        const target = await this.selectedDevice.pick({ onlineOnly: true, select: false, placeHolder: 'Select a device to launch the intent on' });
+        return target?.serial;
+    }
+
+    private async remember(spec: IntentSpec): Promise<void> {
+        const key = JSON.stringify(normalize(spec));
+        const recent = [normalize(spec), ...this.recent.filter(r => JSON.stringify(normalize(r)) !== key)];
+        await this.context.workspaceState.update(RECENT_INTENTS_KEY, recent.slice(0, MAX_RECENT_INTENTS));
+        this._onDidChangeRecent.fire();
+    }
+}
+
+/** `am start` argv for an intent; throws if it would start nothing. */
+export function buildAmStartArgs(spec: IntentSpec): string[] {
+    const s = normalize(spec);
+    if (!s.action && !s.data && !s.component) {
+        throw new Error('Enter an action, a data URI or a component');
+    }
+    const args = ['am', 'start'];
+    if (s.action) {
+        args.push('-a', s.action);
+    }
+    if (s.data) {
+        args.push('-d', s.data);
+    }
+    for (const category of s.categories ?? []) {
+        args.push('-c', category);
+    }
+    if (s.component) {
+        args.push('-n', s.component);
+    }
+    if (s.flags && s.flags.length > 0) {
+        const value = s.flags.reduce((acc, name) => acc | (INTENT_FLAGS[name] ?? 0), 0) >>> 0;
+        args.push('-f', `0x${value.toString(16).padStart(8, '0')}`);
+    }
+    for (const extra of s.extras ?? []) {
+        if (extra.type === 'int' && !/^-?\d+$/.test(extra.value)) {
+            throw new Error(`Extra "${extra.key}" must be an integer`);
+        }
+        if (extra.type === 'bool' && !/^(true|false)$/i.test(extra.value)) {
+            throw new Error(`Extra "${extra.key}" must be true or false`);
+        }
+        args.push(EXTRA_OPTIONS[extra.type], extra.key, extra.type === 'bool' ? extra.value.toLowerCase() : extra.value);
+    }
+    return args;
+}
+
+/** One-line summary for quick picks and the recent list. */
+export function describeIntent(spec: IntentSpec): string {
+    const s = normalize(spec);
+    const parts = [s.data ?? s.component ?? s.action ?? ''];
+    if (s.data && s.component) {
+        parts.push(`→ ${s.component}`);
+    }
+    if (s.extras && s.extras.length > 0) {
+        parts.push(`(${s.extras.length} extra${s.extras.length === 1 ? '' : 's'})`);
+    }
+    return parts.join(' ');
+}
+
+/** Trims fields and drops empty ones so equal intents compare equal. */
+function normalize(spec: IntentSpec): IntentSpec {
+    const text = (value?: string) => value?.trim() || undefined;
+    const list = (values?: string[]) => {
+        const kept = (values ?? []).map(v => v.trim()).filter(v => v.length > 0);
+        return kept.length > 0 ? kept : undefined;
+    };
+    const extras = (spec.extras ?? [])
+        .map(e => ({ type: e.type, key: e.key.trim(), value: e.value.trim() }))
+        .filter(e => e.key.length > 0);
+    return {
+        action: text(spec.action),
+        data: text(spec.data),
+        categories: list(spec.categories),
+        component: text(spec.component),
+        flags: list(spec.flags?.filter(name => name in INTENT_FLAGS)),
+        extras: extras.length > 0 ? extras : undefined,
+    };
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import type { LaunchProfileConfig } from '../core';
+import { showQuickPick } from '../module/ui';
+import { profileArgs } from '../cmd/Emulator';
+import { LaunchProfileQuickPickItem } from '../ui/LaunchProfileQuickPick';
+
+const SELECTED_PROFILES_KEY = 'android-studio-lite.launchProfiles';
+
+/**
+ * Emulator launch profiles from `android-studio-lite.launchProfiles`, and the
+ * one chosen for each AVD (persisted per workspace). Used when an AVD is
+ * launched from the tree, the palette or booted by a run.
+ */
+export class LaunchProfileService implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires when the profiles setting or an AVD's chosen profile changes. */
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+    ) {
+        this.disposables.push(
+            this._onDidChange,
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('android-studio-lite.launchProfiles')) {
+                    this._onDidChange.fire();
+                }
+            }),
+        );
+    }
+
+    /** Profiles offered for `avdName`: its own ones and those without an `avd`. */
+    profilesFor(avdName: string): LaunchProfileConfig[] {
+        return (this.manager.getConfig().launchProfiles ?? [])
+            .filter(p => p?.name && (!p.avd || p.avd === avdName));
+    }
+
+    /** The profile chosen for `avdName`, if it is still configured. */
+    selected(avdName: string): LaunchProfileConfig | undefined {
+        const name = this.selections[avdName];
+        return name ? this.profilesFor(avdName).find(p => p.name === name) : undefined;
+    }
+
+    /** Chooses the profile used for `avdName` from now on; undefined goes back to the default. */
+    async select(avdName: string, profileName: string | undefined): Promise<void> {
+        const selections = { ...this.selections };
+        if (selections[avdName] === profileName) {
+            return;
+        }
+        if (profileName) {
+            selections[avdName] = profileName;
+        } else {
+            delete selections[avdName];
+        }
+        await this.context.workspaceState.update(SELECTED_PROFILES_KEY, selections);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Asks which profile to launch `avdName` with and remembers the choice.
+     * Returns false when the pick was dismissed.
+     */
+    async pick(avdName: string): Promise<LaunchProfileConfig | undefined | false> {
+        const current = this.selected(avdName);
+        const items = [undefined, ...this.profilesFor(avdName)]
+            .map(p => new LaunchProfileQuickPickItem(p, p?.name === current?.name));
+        const item = await showQuickPick(
+            Promise.resolve(items),
+            { placeHolder: `Launch ${avdName} with`, canPickMany: false },
+            'No launch profiles',
+        );
+        if (item === false) {
+            return false;
+        }
+        const profile = (item as LaunchProfileQuickPickItem).profile;
+        await this.select(avdName, profile?.name);
+        return profile;
+    }
+
+    /** Emulator arguments for `avdName`'s chosen profile (or `profile`). */
+    argsFor(avdName: string, profile: LaunchProfileConfig | undefined = this.selected(avdName)): string[] {
+        return profile ? profileArgs(profile) : [];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private get selections(): Record<string, string> {
+        return this.context.workspaceState.get<Record<string, string>>(SELECTED_PROFILES_KEY) ?? {};
+    }
+}
@@ -1,7 +1,6 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as cp from 'child_process';
 import { Manager } from '../core';
+import type { AdbConnection } from '../device/AdbClient';
 import { parseLogcatLine, formatLogcatLine } from '../utils/logcatParser';
 
 const WORKSPACE_LAST_RUN_APP = 'android-studio-lite.lastRunApplicationId';
@@ -9,7 +8,7 @@ const WORKSPACE_LAST_RUN_SERIAL = 'android-studio-lite.lastRunDeviceSerial';
 
 export class LogcatService {
 	private readonly channel: vscode.OutputChannel;
-	private logcatProcess: cp.ChildProcess | null = null;
+	private logcatStream: AdbConnection | null = null;
 
 	constructor(
 		private readonly manager: Manager,
@@ -31,21 +30,15 @@ export class LogcatService {
 	}
 
 	isRunning(): boolean {
-		return this.logcatProcess !== null;
+		return this.logcatStream !== null;
 	}
 
 	async start(): Promise<void> {
-		if (this.logcatProcess) {
+		if (this.logcatStream) {
 			this.show();
 			return;
 		}
 
-		const adbPath = this.getAdbPath();
-		if (!adbPath) {
-			vscode.window.showErrorMessage('ADB not found. Configure Android SDK path in settings.');
-			return;
-		}
-
 		const applicationId = this.context.workspaceState.get<string>(WORKSPACE_LAST_RUN_APP);
 		const serial = this.context.workspaceState.get<string>(WORKSPACE_LAST_RUN_SERIAL);
 
@@ -57,7 +50,7 @@ export class LogcatService {
 			return;
 		}
 
-		const pid = await this.getPidForPackage(adbPath, serial, applicationId);
+		const pid = await this.getPidForPackage(serial, applicationId);
 		if (!pid) {
 			this.channel.clear();
 			this.channel.appendLine(`App ${applicationId} is not running on device ${serial}.`);
@@ -67,74 +60,59 @@ export class LogcatService {
 			return;
 		}
 
+		let stream: AdbConnection;
+		try {
+			stream = await this.manager.adb.openShell(serial, ['logcat', '--pid=' + pid]);
+		} catch (err: any) {
+			vscode.window.showErrorMessage(`Failed to start Logcat: ${err.message || String(err)}`);
+			return;
+		}
+
 		this.channel.clear();
 		this.channel.appendLine(`Logcat for ${applicationId} (pid ${pid}) on ${serial}`);
 		this.channel.appendLine('');
 
-		const args = ['-s', serial, 'logcat', '--pid=' + pid];
-		this.logcatProcess = cp.spawn(adbPath, args, {
-			stdio: ['ignore', 'pipe', 'pipe'],
-		});
-
-		const onData = (data: Buffer | string) => {
-			const text = Buffer.isBuffer(data) ? data.toString('utf8') : data;
-			const lines = text.split(/\r?\n/);
-			for (const line of lines) {
-				if (!line.trim()) continue;
-				const parsed = parseLogcatLine(line);
-				const formatted = parsed ? formatLogcatLine(parsed) : line.replace(/\x1b\[[0-9;]*m/g, '');
-				this.channel.appendLine(formatted);
-			}
-		};
-
-		if (this.logcatProcess.stdout) {
-			this.logcatProcess.stdout.on('data', onData);
-		}
-		if (this.logcatProcess.stderr) {
-			this.logcatProcess.stderr.on('data', onData);
-		}
-
-		this.logcatProcess.on('error', (err) => {
-			this.channel.appendLine(`[Logcat error] ${err.message}`);
-			this.logcatProcess = null;
-		});
-
-		this.logcatProcess.on('exit', (code, signal) => {
-			this.logcatProcess = null;
-			if (code !== 0 && code !== null && signal !== 'SIGTERM') {
-				this.channel.appendLine(`[Logcat stopped] code=${code} signal=${signal}`);
-			}
-		});
+		this.logcatStream = stream;
+		let pending = '';
+		stream.stream(
+			(data) => {
+				const text = pending + data.toString('utf8');
+				const lines = text.split(/\r?\n/);
+				pending = lines.pop() ?? '';
+				for (const line of lines) {
+					if (!line.trim()) continue;
+					const parsed = parseLogcatLine(line);
+					const formatted = parsed ? formatLogcatLine(parsed) : line.replace(/\x1b\[[0-9;]*m/g, '');
+					this.channel.appendLine(formatted);
+				}
+			},
+			(err) => {
+				if (this.logcatStream !== stream) {
+					return;
+				}
+				this.logcatStream = null;
+				this.channel.appendLine(err ? `[Logcat error] ${err.message}` : '[Logcat stopped] device stream closed');
+			},
+		);
 
 		this.show();
 	}
 
 	stop(): void {
-		if (this.logcatProcess) {
-			this.logcatProcess.kill('SIGTERM');
-			this.logcatProcess = null;
+		if (this.logcatStream) {
+			const stream = this.logcatStream;
+			this.logcatStream = null;
+			stream.close();
 		}
 	}
 
-	private getAdbPath(): string | null {
-		const config = this.manager.getConfig();
-		const platformToolsPath = config.platformToolsPath;
-		if (!platformToolsPath) return null;
-		return path.join(platformToolsPath, process.platform === 'win32' ? 'adb.exe' : 'adb');
-	}
-
-	private getPidForPackage(adbPath: string, serial: string, applicationId: string): Promise<string | null> {
-		return new Promise((resolve) => {
-			const args = ['-s', serial, 'shell', 'pidof', '-s', applicationId];
-			cp.execFile(adbPath, args, { timeout: 5000 }, (err, stdout) => {
-				if (err) {
-					resolve(null);
-					return;
-				}
-				const pid = (stdout || '').trim();
-				resolve(pid || null);
-			});
-		});
+	private async getPidForPackage(serial: string, applicationId: string): Promise<string | null> {
+		try {
+			const pid = (await this.manager.adb.shell(serial, ['pidof', '-s', applicationId], 5000)).trim();
+			return /^\d+$/.test(pid) ? pid : null;
+		} catch {
+			return null;
+		}
 	}
 
 	/** Call after a successful run to set the app/device used for logcat. */
@@ -142,4 +120,11 @@ export class LogcatService {
 		context.workspaceState.update(WORKSPACE_LAST_RUN_APP, applicationId);
 		context.workspaceState.update(WORKSPACE_LAST_RUN_SERIAL, deviceSerial);
 	}
+
+	static getLastRun(context: vscode.ExtensionContext): { applicationId?: string; serial?: string } {
+		return {
+			applicationId: context.workspaceState.get<string>(WORKSPACE_LAST_RUN_APP),
+			serial: context.workspaceState.get<string>(WORKSPACE_LAST_RUN_SERIAL),
+		};
+	}
 }
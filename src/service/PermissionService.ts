@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { LogcatService } from './LogcatService';
+import type { AppRunService } from './AppRunService';
+import { parseAppOps, parsePackagePermissions } from '../utils/permissionParser';
+import type { AppOp, AppPermission } from '../utils/permissionParser';
+
+const PM_TIMEOUT_MS = 15000;
+
+/** Modes accepted by `appops set`. */
+export const APP_OP_MODES = ['allow', 'ignore', 'deny', 'default', 'foreground'];
+
+/** The application and device of the last successful run. */
+export interface PermissionTarget {
+    applicationId: string;
+    serial: string;
+}
+
+/**
+ * Runtime permissions and app ops of the last-run application: listing from
+ * `dumpsys package` / `appops get`, `pm grant` / `pm revoke`,
+ * `pm reset-permissions` and `appops set` / `appops reset`.
+ */
+export class PermissionService implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires after a run completes (the target may have changed) and after every change made here. */
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+        appRunService: AppRunService,
+    ) {
+        this.disposables.push(
+            this._onDidChange,
+            appRunService.onDidEndRun((result) => {
+                if (result.outcome === 'completed') {
+                    this._onDidChange.fire();
+                }
+            }),
+        );
+    }
+
+    /** Reuses what `LogcatService.setLastRun` recorded for the workspace. */
+    get target(): PermissionTarget | undefined {
+        const { applicationId, serial } = LogcatService.getLastRun(this.context);
+        return applicationId && serial ? { applicationId, serial } : undefined;
+    }
+
+    async listPermissions(target: PermissionTarget): Promise<AppPermission[]> {
+        const output = await this.manager.adb.shell(target.serial, ['dumpsys', 'package', target.applicationId], PM_TIMEOUT_MS);
+        if (/Unable to find package/.test(output) || !/requested permissions:|install permissions:/.test(output)) {
+            throw new Error(`${target.applicationId} is not installed on ${target.serial}`);
+        }
+        return parsePackagePermissions(output);
+    }
+
+    async listAppOps(target: PermissionTarget): Promise<AppOp[]> {
+        return parseAppOps(await this.run(target.serial, ['appops', 'get', target.applicationId]));
+    }
+
+    async grant(target: PermissionTarget, permission: string): Promise<void> {
+        await this.run(target.serial, ['pm', 'grant', target.applicationId, permission]);
+        this._onDidChange.fire();
+    }
+
+    async revoke(target: PermissionTarget, permission: string): Promise<void> {
+        await this.run(target.serial, ['pm', 'revoke', target.applicationId, permission]);
+        this._onDidChange.fire();
+    }
+
+    /** `pm reset-permissions` reverts the runtime permissions of every app on the device. */
+    async resetPermissions(serial: string): Promise<void> {
+        await this.run(serial, ['pm', 'reset-permissions']);
+        this._onDidChange.fire();
+    }
+
+    async setAppOp(target: PermissionTarget, op: string, mode: string, uidMode = false): Promise<void> {
+        await this.run(target.serial, ['appops', 'set', ...(uidMode ? ['--uid'] : []), target.applicationId, op, mode]);
+        this._onDidChange.fire();
+    }
+
+    async resetAppOps(target: PermissionTarget): Promise<void> {
+        await this.run(target.serial, ['appops', 'reset', target.applicationId]);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private async run(serial: string, command: string[]): Promise<string> {
+        this.manager.output.append(`[Permissions] ${serial}: ${command.join(' ')}`);
+        const output = (await this.manager.adb.shell(serial, command, PM_TIMEOUT_MS)).trim();
+        // pm and appops print failures (usually a stack trace) on stdout and still exit 0
+        if (/^(Exception|Error|Security exception|java\.lang\.)/m.test(output)) {
+            this.manager.output.append(output, 'error');
+            const lines = output.split('\n').map(line => line.trim());
+            throw new Error(lines.find(line => /^java\.lang\.\w+: /.test(line))?.replace(/^java\.lang\.\w+: /, '')
+                ?? lines.find(line => line.length > 0)
+                ?? output);
+        }
+        if (output) {
+            this.manager.output.append(output);
+        }
+        return output;
+    }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import type { PortRuleConfig } from '../core';
+import type { AppRunService } from './AppRunService';
+
+export type PortRuleType = 'forward' | 'reverse';
+
+/** An active forward (host → device) or reverse (device → host) on one device. */
+export interface PortRule {
+    type: PortRuleType;
+    serial: string;
+    /** Host side socket, e.g. `tcp:8080`. */
+    local: string;
+    /** Device side socket. */
+    remote: string;
+}
+
+/**
+ * `adb forward` / `adb reverse` rules per device. Rules from
+ * `android-studio-lite.portRules` are applied whenever a device comes online
+ * and again once an emulator has finished booting.
+ */
+export class PortForwardService implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires with the serial whose rules changed. */
+    private readonly _onDidChangeRules = new vscode.EventEmitter<string>();
+    readonly onDidChangeRules = this._onDidChangeRules.event;
+
+    constructor(
+        private readonly manager: Manager,
+        appRunService: AppRunService,
+    ) {
+        const tracker = this.manager.deviceTracker;
+        this.disposables.push(
+            this._onDidChangeRules,
+            tracker.onDeviceAdded((device) => {
+                if (device.state === 'device') {
+                    void this.applyConfigured(device.serial);
+                }
+            }),
+            tracker.onDeviceStateChanged(({ device }) => {
+                if (device.state === 'device') {
+                    void this.applyConfigured(device.serial);
+                }
+            }),
+            appRunService.onDidBootEmulator((serial) => void this.applyConfigured(serial)),
+        );
+    }
+
+    async list(serial: string): Promise<PortRule[]> {
+        const [forwards, reverses] = await Promise.all([
+            this.manager.adb.listForwards(),
+            this.manager.adb.listReverses(serial),
+        ]);
+        return [
+            ...forwards.filter((f) => f.serial === serial).map((f) => ({ type: 'forward' as const, ...f })),
+            ...reverses.map((r) => ({ type: 'reverse' as const, ...r })),
+        ];
+    }
+
+    async add(rule: PortRule): Promise<void> {
+        if (rule.type === 'forward') {
+            await this.manager.adb.forward(rule.serial, rule.local, rule.remote);
+        } else {
+            await this.manager.adb.reverse(rule.serial, rule.remote, rule.local);
+        }
+        this.log(`${rule.serial}: ${describeRule(rule)}`);
+        this._onDidChangeRules.fire(rule.serial);
+    }
+
+    async remove(rule: PortRule): Promise<void> {
+        if (rule.type === 'forward') {
+            await this.manager.adb.removeForward(rule.serial, rule.local);
+        } else {
+            await this.manager.adb.removeReverse(rule.serial, rule.remote);
+        }
+        this.log(`${rule.serial}: removed ${describeRule(rule)}`);
+        this._onDidChangeRules.fire(rule.serial);
+    }
+
+    /** Workspace rules that apply to a device (by serial or AVD name). */
+    configuredRules(serial: string): PortRule[] {
+        const avdName = this.manager.deviceTracker.getDevice(serial)?.avdName;
+        return this.manager.getConfig().portRules
+            .filter((config) => !config.device || config.device === serial || config.device === avdName)
+            .map((config) => toPortRule(config, serial))
+            .filter((rule): rule is PortRule => rule !== undefined);
+    }
+
+    /** Applies the workspace rules to a device; failures are logged, not thrown. */
+    async applyConfigured(serial: string): Promise<number> {
+        let applied = 0;
+        for (const rule of this.configuredRules(serial)) {
+            try {
+                await this.add(rule);
+                applied++;
+            } catch (error: any) {
+                this.log(`${serial}: failed to apply ${describeRule(rule)}: ${error?.message ?? error}`, 'error');
+            }
+        }
+        return applied;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private log(message: string, level?: string): void {
+        this.manager.output.append(`[Ports] ${message}`, level);
+    }
+}
+
+/** `adb forward tcp:9222 localabstract:chrome_devtools_remote` style text. */
+export function describeRule(rule: PortRule): string {
+    return rule.type === 'forward'
+        ? `forward ${rule.local} ${rule.remote}`
+        : `reverse ${rule.remote} ${rule.local}`;
+}
+
+/** Bare port numbers (`8080` or `"8080"`) are TCP ports. */
+export function toSocketSpec(value: string | number): string | undefined {
+    const text = String(value).trim();
+    if (/^\d+$/.test(text)) {
+        return `tcp:${text}`;
+    }
+    return /^[a-z]+:\S+$/.test(text) ? text : undefined;
+}
+
+function toPortRule(config: PortRuleConfig, serial: string): PortRule | undefined {
+    const local = toSocketSpec(config.local);
+    const remote = toSocketSpec(config.remote);
+    if ((config.type !== 'forward' && config.type !== 'reverse') || !local || !remote) {
+        return undefined;
+    }
+    return { type: config.type, serial, local, remote };
+}
@@ -0,0 +1,227 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { EmulatorConsoleClient } from '../device/EmulatorConsoleClient';
+import { parseRoute } from '../utils/routeParser';
+import type { RoutePoint } from '../utils/routeParser';
+
+/** Spacing between points of a route without timestamps. */
+const UNTIMED_INTERVAL_MS = 1000;
+/** Floor for the delay between two `geo fix` commands at high speeds. */
+const MIN_STEP_MS = 100;
+
+export interface RoutePlaybackState {
+    fileName?: string;
+    pointCount: number;
+    /** Index of the last point sent (or the one playback resumes from). */
+    index: number;
+    /** Offset of `index` from the start of the route, at 1x. */
+    elapsedMs: number;
+    durationMs: number;
+    /** The file has timestamps; otherwise points are one second apart. */
+    timed: boolean;
+    current?: RoutePoint;
+    serial?: string;
+    status: 'idle' | 'playing' | 'paused';
+    speed: number;
+    loop: boolean;
+    error?: string;
+}
+
+/**
+ * Plays a GPX or KML route back on an emulator with repeated `geo fix`
+ * commands, honouring the file's timestamps scaled by a speed multiplier.
+ * One route plays at a time.
+ */
+export class RoutePlaybackService implements vscode.Disposable {
+    private points: RoutePoint[] = [];
+    /** Offset of each point from the first, in ms at 1x. */
+    private offsets: number[] = [];
+    private fileName: string | undefined;
+    private index = 0;
+    private serial: string | undefined;
+    private client: EmulatorConsoleClient | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    /** Bumped whenever the schedule is reset, so a step still awaiting the console drops its follow-up. */
+    private generation = 0;
+    private status: RoutePlaybackState['status'] = 'idle';
+    private speed = 1;
+    private loop = false;
+    private error: string | undefined;
+
+    private readonly _onDidChangeState = new vscode.EventEmitter<RoutePlaybackState>();
+    readonly onDidChangeState = this._onDidChangeState.event;
+
+    constructor(private readonly manager: Manager) { }
+
+    get state(): RoutePlaybackState {
+        return {
+            fileName: this.fileName,
+            pointCount: this.points.length,
+            index: this.index,
+            elapsedMs: this.offsets[this.index] ?? 0,
+            durationMs: this.offsets[this.offsets.length - 1] ?? 0,
+            timed: this.points.length > 0 && this.points.every(p => p.time !== undefined),
+            current: this.points[this.index],
+            serial: this.serial,
+            status: this.status,
+            speed: this.speed,
+            loop: this.loop,
+            error: this.error,
+        };
+    }
+
+    /** Reads a `.gpx` / `.kml` file; stops the route that was playing. */
+    async load(uri: vscode.Uri): Promise<void> {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        const points = parseRoute(uri.path, content);
+        if (points.length === 0) {
+            throw new Error(`No track, route or placemark coordinates found in ${path.basename(uri.path)}`);
+        }
+        this.stop();
+        this.points = points;
+        this.offsets = computeOffsets(points);
+        this.fileName = path.basename(uri.path);
+        this.index = 0;
+        this.error = undefined;
+        this.manager.output.append(`[Route] Loaded ${this.fileName}: ${points.length} points`);
+        this.fireState();
+    }
+
+    /** Starts from the current point (the beginning once the route has ended) on `serial`. */
+    play(serial: string): void {
+        if (this.points.length === 0) {
+            throw new Error('Load a GPX or KML file first');
+        }
+        if (serial !== this.serial) {
+            this.client?.close();
+            this.client = EmulatorConsoleClient.forSerial(serial);
+            if (!this.client) {
+                throw new Error(`${serial} is not an emulator`);
+            }
+            this.serial = serial;
+        }
+        if (this.index >= this.points.length - 1) {
+            this.index = 0;
+        }
+        this.clearTimer();
+        this.status = 'playing';
+        this.error = undefined;
+        void this.step();
+    }
+
+    pause(): void {
+        if (this.status !== 'playing') {
+            return;
+        }
+        this.clearTimer();
+        this.status = 'paused';
+        this.fireState();
+    }
+
+    resume(): void {
+        if (this.status === 'paused' && this.serial) {
+            this.play(this.serial);
+        }
+    }
+
+    /** Stops and rewinds; the emulator keeps the last location sent. */
+    stop(): void {
+        this.clearTimer();
+        this.status = 'idle';
+        this.index = 0;
+        this.fireState();
+    }
+
+    /** Moves to `index`; while playing, that point is sent right away. */
+    seek(index: number): void {
+        this.index = Math.max(0, Math.min(this.points.length - 1, Math.round(index)));
+        if (this.status === 'playing') {
+            this.clearTimer();
+            void this.step();
+        } else {
+            this.fireState();
+        }
+    }
+
+    setSpeed(speed: number): void {
+        if (isFinite(speed) && speed > 0) {
+            this.speed = speed;
+            this.fireState();
+        }
+    }
+
+    setLoop(loop: boolean): void {
+        this.loop = loop;
+        this.fireState();
+    }
+
+    dispose(): void {
+        this.clearTimer();
+        this.client?.close();
+        this._onDidChangeState.dispose();
+    }
+
+    /** Sends the current point and schedules the next one. */
+    private async step(): Promise<void> {
+        const generation = this.generation;
+        const point = this.points[this.index];
+        try {
+            await this.client!.setLocation(point.latitude, point.longitude, point.altitude);
+        } catch (error: any) {
+            if (generation !== this.generation) {
+                return;
+            }
+            this.error = error?.message ?? String(error);
+            this.manager.output.append(`[Route] ${this.serial}: ${this.error}`, 'error');
+            this.clearTimer();
+            this.status = 'paused';
+            this.fireState();
+            return;
+        }
+        if (generation !== this.generation || this.status !== 'playing') {
+            return;
+        }
+        this.fireState();
+
+        let next = this.index + 1;
+        if (next >= this.points.length) {
+            if (!this.loop) {
+                this.status = 'idle';
+                this.manager.output.append(`[Route] ${this.serial}: finished ${this.fileName}`);
+                this.fireState();
+                return;
+            }
+            next = 0;
+        }
+        const gap = next === 0 ? UNTIMED_INTERVAL_MS : this.offsets[next] - this.offsets[this.index];
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.index = next;
+            void this.step();
+        }, Math.max(MIN_STEP_MS, gap / this.speed));
+    }
+
+    private clearTimer(): void {
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private fireState(): void {
+        this._onDidChangeState.fire(this.state);
+    }
+}
+
+/** Offsets from the timestamps when every point has one, else one interval per point. */
+function computeOffsets(points: RoutePoint[]): number[] {
+    const start = points[0].time;
+    if (start !== undefined && points.every(p => p.time !== undefined)) {
+        // Out-of-order timestamps would make playback jump back; keep them monotonic
+        let last = 0;
+        return points.map(p => (last = Math.max(last, p.time! - start)));
+    }
+    return points.map((_, i) => i * UNTIMED_INTERVAL_MS);
+}
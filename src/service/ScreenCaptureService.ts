@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as nodePath from 'path';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { shellQuote } from '../device/AdbClient';
+import type { AdbConnection } from '../device/AdbClient';
+import { showMsg, MsgType } from '../module/ui';
+
+const SCREENCAP_TIMEOUT_MS = 30000;
+/** `screenrecord` stops by itself after 3 minutes. */
+const RECORD_TIME_LIMIT_S = 180;
+const RECORD_FINISH_TIMEOUT_MS = 10000;
+const RECORDING_CONTEXT_KEY = 'android-studio-lite.recording';
+
+interface Recording {
+    serial: string;
+    conn: AdbConnection;
+    remotePath: string;
+    localPath: string;
+    startedAt: number;
+    /** Shell pid of `screenrecord`, read from the first line of output. */
+    pid?: string;
+    /** Resolves when the device closes the stream (stopped or time limit reached). */
+    ended: Promise<void>;
+    stopping: boolean;
+}
+
+/**
+ * Screenshots (`screencap -p` over exec-out) and screen recordings
+ * (`screenrecord`, pulled when stopped), saved under `captureFolder` with
+ * device and timestamp based file names.
+ */
+export class ScreenCaptureService implements vscode.Disposable {
+    private readonly recordings = new Map<string, Recording>();
+    private readonly statusItem: vscode.StatusBarItem;
+    private timer: NodeJS.Timeout | undefined;
+
+    private readonly _onDidChangeRecordings = new vscode.EventEmitter<void>();
+    readonly onDidChangeRecordings = this._onDidChangeRecordings.event;
+
+    constructor(private readonly manager: Manager) {
+        this.statusItem = vscode.window.createStatusBarItem('android-studio-lite.recording', vscode.StatusBarAlignment.Left, 97);
+        this.statusItem.name = 'Android Screen Recording';
+        this.statusItem.command = 'android-studio-lite.stopScreenRecording';
+    }
+
+    isRecording(serial: string): boolean {
+        return this.recordings.has(serial);
+    }
+
+    get recordingSerials(): string[] {
+        return [...this.recordings.keys()];
+    }
+
+    async takeScreenshot(serial: string): Promise<string | undefined> {
+        try {
+            const png = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: `Capturing ${serial}` },
+                () => this.manager.adb.execOut(serial, ['screencap', '-p'], SCREENCAP_TIMEOUT_MS),
+            );
+            if (png.length === 0) {
+                throw new Error('screencap returned no data');
+            }
+            const file = await this.outputPath(serial, 'png');
+            await fs.promises.writeFile(file, png);
+            this.manager.output.append(`[Capture] Screenshot saved to ${file}`);
+            await this.showResult(file, 'Screenshot');
+            return file;
+        } catch (error: any) {
+            this.fail(`Screenshot of ${serial} failed`, error);
+            return undefined;
+        }
+    }
+
+    async startRecording(serial: string): Promise<void> {
+        if (this.recordings.has(serial)) {
+            showMsg(MsgType.info, `${serial} is already being recorded.`);
+            return;
+        }
+        const config = this.manager.getConfig();
+        const stamp = timestamp();
+        const remotePath = `/sdcard/asl-${stamp}.mp4`;
+        const args = ['screenrecord', '--bit-rate', String(Math.round(config.screenRecordBitRate * 1000000)), '--time-limit', String(RECORD_TIME_LIMIT_S)];
+        if (config.screenRecordSize) {
+            args.push('--size', config.screenRecordSize);
+        }
+        args.push(remotePath);
+
+        try {
+            const localPath = await this.outputPath(serial, 'mp4', stamp);
+            // `exec` keeps the shell pid, so the recording can be stopped with SIGINT
+            const conn = await this.manager.adb.openShell(serial, `echo $$; exec ${args.map(shellQuote).join(' ')}`);
+            let output = '';
+            let resolveEnded: () => void;
+            const recording: Recording = {
+                serial,
+                conn,
+                remotePath,
+                localPath,
+                startedAt: Date.now(),
+                ended: new Promise<void>((resolve) => resolveEnded = resolve),
+                stopping: false,
+            };
+            conn.stream(
+                (chunk) => {
+                    output += chunk.toString('utf8');
+                    if (!recording.pid) {
+                        recording.pid = /^(\d+)\s*\n/.exec(output)?.[1];
+                    }
+                },
+                () => {
+                    resolveEnded();
+                    const message = output.replace(/^\d+\s*\n/, '').trim();
+                    if (message) {
+                        this.manager.output.append(`[Capture] ${serial}: ${message}`);
+                    }
+                    // Time limit reached or the device went away: save what was recorded
+                    if (!recording.stopping) {
+                        void this.finishRecording(recording);
+                    }
+                },
+            );
+            this.recordings.set(serial, recording);
+            this.manager.output.append(`[Capture] Recording ${serial} to ${remotePath}`);
+            this.updateStatus();
+        } catch (error: any) {
+            this.fail(`Screen recording on ${serial} failed`, error);
+        }
+    }
+
+    async stopRecording(serial: string): Promise<void> {
+        const recording = this.recordings.get(serial);
+        if (!recording || recording.stopping) {
+            return;
+        }
+        recording.stopping = true;
+        try {
+            const pid = recording.pid;
+            await this.manager.adb.shell(serial, pid ? ['kill', '-INT', pid] : ['pkill', '-INT', 'screenrecord'], 5000);
+        } catch (error: any) {
+            this.manager.output.append(`[Capture] Failed to signal screenrecord on ${serial}: ${error?.message ?? error}`, 'error');
+        }
+        await this.finishRecording(recording);
+    }
+
+    dispose(): void {
+        for (const recording of this.recordings.values()) {
+            recording.conn.close();
+        }
+        this.recordings.clear();
+        if (this.timer) {
+            clearInterval(this.timer);
+        }
+        this.statusItem.dispose();
+        this._onDidChangeRecordings.dispose();
+    }
+
+    /** Waits for `screenrecord` to finalize the file, pulls it and removes it from the device. */
+    private async finishRecording(recording: Recording): Promise<void> {
+        recording.stopping = true;
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Saving recording from ${recording.serial}` },
+            async () => {
+                try {
+                    await Promise.race([recording.ended, new Promise((r) => setTimeout(r, RECORD_FINISH_TIMEOUT_MS))]);
+                    recording.conn.close();
+
+                    const sync = await this.manager.adb.sync(recording.serial);
+                    let video: Buffer;
+                    try {
+                        video = await sync.pull(recording.remotePath);
+                    } finally {
+                        sync.close();
+                    }
+                    await fs.promises.writeFile(recording.localPath, video);
+                    await this.manager.adb.shell(recording.serial, ['rm', '-f', recording.remotePath], 5000).catch(() => undefined);
+                    this.manager.output.append(`[Capture] Recording saved to ${recording.localPath}`);
+                } catch (error: any) {
+                    this.fail(`Saving the recording from ${recording.serial} failed`, error);
+                    return;
+                } finally {
+                    this.recordings.delete(recording.serial);
+                    this.updateStatus();
+                }
+                void this.showResult(recording.localPath, 'Recording');
+            },
+        );
+    }
+
+    /** Opens the capture and offers to copy its path or reveal it. */
+    private async showResult(file: string, kind: string): Promise<void> {
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file), { preview: true, viewColumn: vscode.ViewColumn.Beside });
+        const choice = await showMsg(MsgType.info, `${kind} saved to ${vscode.workspace.asRelativePath(file)}`, {}, 'Copy Path', 'Reveal');
+        if (choice === 'Copy Path') {
+            await vscode.env.clipboard.writeText(file);
+        } else if (choice === 'Reveal') {
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(file));
+        }
+    }
+
+    /** `<captureFolder>/<device>-<yyyyMMdd-HHmmss>.<ext>`, creating the folder if needed. */
+    private async outputPath(serial: string, extension: string, stamp: string = timestamp()): Promise<string> {
+        const configured = this.manager.getConfig().captureFolder || 'captures';
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const folder = nodePath.isAbsolute(configured)
+            ? configured
+            : nodePath.join(workspacePath ?? os.tmpdir(), configured);
+        await fs.promises.mkdir(folder, { recursive: true });
+
+        const device = this.manager.deviceTracker.getDevice(serial);
+        const name = (device?.avdName || device?.model || serial).replace(/[^\w.-]+/g, '_');
+        return nodePath.join(folder, `${name}-${stamp}.${extension}`);
+    }
+
+    private updateStatus(): void {
+        void vscode.commands.executeCommand('setContext', RECORDING_CONTEXT_KEY, this.recordings.size > 0);
+        this._onDidChangeRecordings.fire();
+
+        if (this.recordings.size === 0) {
+            this.statusItem.hide();
+            if (this.timer) {
+                clearInterval(this.timer);
+                this.timer = undefined;
+            }
+            return;
+        }
+        const render = () => {
+            const first = [...this.recordings.values()][0];
+            const seconds = Math.floor((Date.now() - first.startedAt) / 1000);
+            const elapsed = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+            const more = this.recordings.size > 1 ? ` +${this.recordings.size - 1}` : '';
+            this.statusItem.text = `$(record) ${elapsed}${more}`;
+            this.statusItem.tooltip = `Recording ${[...this.recordings.keys()].join(', ')}. Click to stop.`;
+        };
+        render();
+        this.statusItem.show();
+        if (!this.timer) {
+            this.timer = setInterval(render, 1000);
+        }
+    }
+
+    private fail(message: string, error: any): void {
+        const detail = error?.message ?? String(error);
+        this.manager.output.append(`[Capture] ${message}: ${detail}`, 'error');
+        showMsg(MsgType.error, `${message}: ${detail}`);
+    }
+}
+
+function timestamp(): string {
+    const d = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+}
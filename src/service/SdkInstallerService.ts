@@ -5,12 +5,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { promisify } from 'util';
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 import { Manager } from '../core';
 import { AndroidSdkDetector, AndroidSdkInfo } from '../utils/androidSdkDetector';
 import { showMsg, MsgType } from '../module/ui';
+import { parseSdkManagerList, SdkPackageList } from '../utils/sdkManagerList';
 
 const execAsync = promisify(exec);
+/** sdkmanager redraws its progress bar while downloading; this long without output means it hung. */
+const SDKMANAGER_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
 
 interface DownloadProgress {
     downloaded: number;
@@ -332,12 +335,15 @@ export class SdkInstallerService {
     }
 
     /**
-     * Installs SDK components using sdkmanager
+     * Installs SDK components using sdkmanager. Downloads (system images run
+     * to several GB) have no overall timeout: pass `token` to allow
+     * cancelling, otherwise sdkmanager is stopped once it stalls.
      */
     public async installSdkComponent(
         sdkManagerPath: string,
         component: string,
-        progress?: vscode.Progress<{ message?: string; increment?: number }>
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
     ): Promise<void> {
         if (progress) {
             progress.report({ message: `Installing ${component}...` });
@@ -345,25 +351,124 @@ export class SdkInstallerService {
         this.manager.output.append(`Installing ${component}...`);
 
         try {
-            const { stdout, stderr } = await execAsync(`"${sdkManagerPath}" "${component}"`, {
-                maxBuffer: 10 * 1024 * 1024,
-                timeout: 300000, // 5 minutes timeout
-            });
+            const output = await this.runSdkManager(sdkManagerPath, [component], progress, token);
+            this.manager.output.append(output);
+            this.manager.output.append(`${component} installed successfully`);
+        } catch (error: any) {
+            throw new Error(`Failed to install ${component}: ${error.message || String(error)}`);
+        }
+    }
 
-            if (stdout) {
-                this.manager.output.append(stdout);
-            }
-            if (stderr && !stderr.includes('Warning:')) {
-                this.manager.output.append(stderr, 'error');
-            }
+    /**
+     * Uninstalls SDK components using sdkmanager --uninstall
+     */
+    public async uninstallSdkComponent(
+        sdkManagerPath: string,
+        component: string,
+        progress?: vscode.Progress<{ message?: string; increment?: number }>
+    ): Promise<void> {
+        if (progress) {
+            progress.report({ message: `Uninstalling ${component}...` });
+        }
+        this.manager.output.append(`Uninstalling ${component}...`);
 
-            this.manager.output.append(`${component} installed successfully`);
+        try {
+            const output = await this.runSdkManager(sdkManagerPath, ['--uninstall', component], progress);
+            this.manager.output.append(output);
+            this.manager.output.append(`${component} uninstalled successfully`);
         } catch (error: any) {
-            const errorMsg = error.stderr || error.message || String(error);
-            throw new Error(`Failed to install ${component}: ${errorMsg}`);
+            throw new Error(`Failed to uninstall ${component}: ${error.message || String(error)}`);
         }
     }
 
+    /**
+     * Lists installed and available packages (sdkmanager --list --verbose)
+     */
+    public async listSdkPackages(sdkManagerPath: string): Promise<SdkPackageList> {
+        return parseSdkManagerList(await this.runSdkManager(sdkManagerPath, ['--list', '--verbose']));
+    }
+
+    /**
+     * Runs sdkmanager, answering license prompts and reporting its progress
+     * bar as percentages. Resolves with the output minus progress redraws.
+     * Without `token`, it is killed after `SDKMANAGER_IDLE_TIMEOUT_MS` of silence.
+     */
+    private runSdkManager(
+        sdkManagerPath: string,
+        args: string[],
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<string> {
+        return new Promise((resolve, reject) => {
+            if (token?.isCancellationRequested) {
+                reject(new Error('Cancelled'));
+                return;
+            }
+            // sdkmanager.bat needs a shell, which would split `;`-separated package paths
+            const windows = process.platform === 'win32';
+            const child = windows
+                ? spawn(`"${sdkManagerPath}"`, args.map(arg => `"${arg}"`), { shell: true })
+                : spawn(sdkManagerPath, args);
+
+            let output = '';
+            let lastReport = '';
+            let idleTimer: NodeJS.Timeout | undefined;
+            let stalled = false;
+            const resetIdleTimer = () => {
+                if (token) {
+                    return;
+                }
+                clearTimeout(idleTimer);
+                idleTimer = setTimeout(() => {
+                    stalled = true;
+                    child.kill();
+                }, SDKMANAGER_IDLE_TIMEOUT_MS);
+            };
+            resetIdleTimer();
+            const onData = (chunk: Buffer) => {
+                resetIdleTimer();
+                const text = chunk.toString();
+                output += text;
+                if (/\(y\/N\)|Accept\? /i.test(text)) {
+                    child.stdin?.write('y\n');
+                }
+                const match = [...text.matchAll(/(\d+)%\s*([^\r\n\[]*)/g)].pop();
+                if (progress && match) {
+                    const message = `${match[1]}% ${match[2].trim()}`;
+                    if (message !== lastReport) {
+                        lastReport = message;
+                        progress.report({ message });
+                    }
+                }
+            };
+            child.stdout?.on('data', onData);
+            child.stderr?.on('data', onData);
+
+            const cancel = token?.onCancellationRequested(() => child.kill());
+            child.on('error', (error) => {
+                cancel?.dispose();
+                clearTimeout(idleTimer);
+                reject(error);
+            });
+            child.on('close', (code) => {
+                cancel?.dispose();
+                clearTimeout(idleTimer);
+                const lines = output.split(/\r?\n/)
+                    .map(line => line.split('\r').pop()!.trimEnd())
+                    .filter(line => line !== '' && !/^\[[=\s]*\]/.test(line));
+                if (token?.isCancellationRequested) {
+                    reject(new Error('Cancelled'));
+                } else if (stalled) {
+                    reject(new Error(`sdkmanager printed nothing for ${SDKMANAGER_IDLE_TIMEOUT_MS / 60000} minutes`));
+                } else if (code === 0) {
+                    resolve(lines.join('\n'));
+                } else {
+                    reject(new Error(lines.filter(line => /error/i.test(line)).pop() ?? lines.pop() ?? `sdkmanager exited with code ${code}`));
+                }
+            });
+        });
+    }
+
     /**
      * Checks if we have write permissions to the SDK directory
      */
@@ -383,7 +488,8 @@ export class SdkInstallerService {
      */
     public async autoInstallMissingComponents(
         sdkInfo: AndroidSdkInfo,
-        progress?: vscode.Progress<{ message?: string; increment?: number }>
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
     ): Promise<boolean> {
         // Check write permissions
         if (!this.canWriteToSdk(sdkInfo.sdkPath)) {
@@ -426,7 +532,7 @@ export class SdkInstallerService {
                     // 3. Install Platform Tools if missing
                     if (!sdkInfo.hasPlatformTools) {
                         try {
-                            await this.installSdkComponent(sdkManagerPath, 'platform-tools', progress);
+                            await this.installSdkComponent(sdkManagerPath, 'platform-tools', progress, token);
                             installed.push('Platform Tools');
                         } catch (error: any) {
                             failed.push(`Platform Tools: ${error.message}`);
@@ -436,7 +542,7 @@ export class SdkInstallerService {
                     // 4. Install Build Tools if missing
                     if (!sdkInfo.hasBuildTools) {
                         try {
-                            await this.installSdkComponent(sdkManagerPath, 'build-tools;34.0.0', progress);
+                            await this.installSdkComponent(sdkManagerPath, 'build-tools;34.0.0', progress, token);
                             installed.push('Build Tools');
                         } catch (error: any) {
                             failed.push(`Build Tools: ${error.message}`);
@@ -446,7 +552,7 @@ export class SdkInstallerService {
                     // 5. Install Emulator if missing
                     if (!sdkInfo.hasEmulator) {
                         try {
-                            await this.installSdkComponent(sdkManagerPath, 'emulator', progress);
+                            await this.installSdkComponent(sdkManagerPath, 'emulator', progress, token);
                             installed.push('Emulator');
                         } catch (error: any) {
                             failed.push(`Emulator: ${error.message}`);
@@ -455,6 +561,11 @@ export class SdkInstallerService {
                 }
             }
 
+            if (token?.isCancellationRequested) {
+                showMsg(MsgType.info, `SDK installation cancelled${installed.length > 0 ? ` after installing ${installed.join(', ')}` : ''}`, {});
+                return false;
+            }
+
             // Show results
             if (installed.length > 0) {
                 showMsg(
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { findRunTarget, listRunTargets } from '../device/RunTarget';
+import type { RunTarget } from '../device/RunTarget';
+import { RunTargetQuickPickItem } from '../ui/RunTargetQuickPick';
+import { showMsg, MsgType, showQuickPick } from '../module/ui';
+
+const SELECTED_TARGET_KEY = 'android-studio-lite.selectedTarget';
+
+export interface PickTargetOptions {
+    placeHolder?: string;
+    /** Only targets adb reports as `device` (online). */
+    onlineOnly?: boolean;
+    /** Only AVDs. */
+    avdOnly?: boolean;
+    /** Store the picked target as the selection (default true). */
+    select?: boolean;
+}
+
+/**
+ * The current run target (AVD or connected device), persisted per workspace.
+ * Shared by the sidebar, the AVD tree and the palette commands.
+ */
+export class SelectedDeviceService implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChangeSelection = new vscode.EventEmitter<string | undefined>();
+    readonly onDidChangeSelection = this._onDidChangeSelection.event;
+
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+    ) {
+        this.disposables.push(
+            this._onDidChangeSelection,
+            this.manager.deviceTracker.onDidChangeDevices(() => void this.autoSelect()),
+        );
+    }
+
+    /** `avd:<name>` or `device:<serial>`; see `RunTarget.id`. */
+    get targetId(): string | undefined {
+        return this.context.workspaceState.get<string>(SELECTED_TARGET_KEY);
+    }
+
+    async select(targetId: string | undefined): Promise<void> {
+        if (targetId === this.targetId) {
+            return;
+        }
+        await this.context.workspaceState.update(SELECTED_TARGET_KEY, targetId);
+        this._onDidChangeSelection.fire(targetId);
+    }
+
+    /** The selected target as currently known, or undefined if it is gone. */
+    async getTarget(): Promise<RunTarget | undefined> {
+        const id = this.targetId;
+        return id ? findRunTarget(this.manager, id) : undefined;
+    }
+
+    async pick(options: PickTargetOptions = {}): Promise<RunTarget | undefined> {
+        const targets = (await listRunTargets(this.manager))
+            .filter(t => !options.onlineOnly || t.state === 'device')
+            .filter(t => !options.avdOnly || t.kind === 'avd');
+        const item = await showQuickPick(
+            Promise.resolve(targets.map(t => new RunTargetQuickPickItem(t))),
+            { placeHolder: options.placeHolder ?? 'Select a device to run on', canPickMany: false },
+            options.avdOnly ? 'No AVD Found. Please create AVD first.'
+                : options.onlineOnly ? 'No connected devices' : 'No devices or AVDs available',
+        );
+        if (item === false) {
+            return undefined;
+        }
+        const target = (item as RunTargetQuickPickItem).target;
+        if (options.select !== false) {
+            await this.select(target.id);
+        }
+        return target;
+    }
+
+    /**
+     * Multi-select pick for deploying to several targets. Online devices (or the
+     * selected target) start checked; the selection itself is left unchanged.
+     */
+    async pickMany(options: Pick<PickTargetOptions, 'placeHolder'> = {}): Promise<RunTarget[]> {
+        const targets = await listRunTargets(this.manager);
+        if (targets.length === 0) {
+            showMsg(MsgType.info, 'No devices or AVDs available');
+            return [];
+        }
+        const anyOnline = targets.some(t => t.state === 'device');
+        const items = targets.map(t => {
+            const item = new RunTargetQuickPickItem(t);
+            item.picked = anyOnline ? t.state === 'device' : t.id === this.targetId;
+            return item;
+        });
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: options.placeHolder ?? 'Select devices to run on',
+            canPickMany: true,
+        });
+        return picked?.map(item => item.target) ?? [];
+    }
+
+    /**
+     * With `autoSelectDevice` on, picks the first online device whenever nothing
+     * usable is selected. A chosen AVD is kept even while it is not running.
+     */
+    private async autoSelect(): Promise<void> {
+        if (!this.manager.getConfig().autoSelectDevice) {
+            return;
+        }
+        const targets = await listRunTargets(this.manager);
+        const current = targets.find(t => t.id === this.targetId);
+        if (current && (current.kind === 'avd' || current.state === 'device')) {
+            return;
+        }
+        const online = targets.find(t => t.state === 'device');
+        if (online) {
+            await this.select(online.id);
+        }
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
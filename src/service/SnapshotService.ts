@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import { Manager } from '../core';
+import type { AVD } from '../cmd/AVDManager';
+import { EmulatorConsoleClient } from '../device/EmulatorConsoleClient';
+import { toCommandLine } from '../cmd/Emulator';
+
+/** Saving or loading copies the guest RAM, which takes a while for large AVDs. */
+const SNAPSHOT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface AvdSnapshot {
+    name: string;
+    /** Folder under `<AVD.path>/snapshots`; missing for snapshots only the console reported. */
+    path?: string;
+    sizeBytes?: number;
+    date?: Date;
+    /** `screenshot.png` taken by the emulator when the snapshot was saved. */
+    screenshot?: string;
+}
+
+/**
+ * Quickboot snapshots of an AVD: read from `<AVD.path>/snapshots` and, while
+ * the AVD runs, from the console's `avd snapshot list`. Save and load need the
+ * emulator to be running; delete works either way.
+ */
+export class SnapshotService {
+    constructor(private readonly manager: Manager) { }
+
+    /** Serial of the running emulator for `avdName`, if it is online. */
+    runningSerial(avdName: string): string | undefined {
+        const device = this.manager.deviceTracker.findByAvdName(avdName);
+        return device?.state === 'device' ? device.serial : undefined;
+    }
+
+    async list(avd: AVD): Promise<AvdSnapshot[]> {
+        const snapshots = await this.listOnDisk(avd);
+        const serial = this.runningSerial(avd.name);
+        if (serial) {
+            try {
+                const output = await this.console(serial, (client) => client.command('avd snapshot list'));
+                for (const name of parseSnapshotList(output)) {
+                    if (!snapshots.some(s => s.name === name)) {
+                        snapshots.push({ name });
+                    }
+                }
+            } catch (error: any) {
+                this.manager.output.append(`[Snapshots] ${serial}: ${error?.message ?? error}`, 'warning');
+            }
+        }
+        return snapshots.sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+    }
+
+    async save(serial: string, name: string): Promise<void> {
+        await this.console(serial, (client) => client.command(snapshotCommand('save', name)));
+        this.manager.output.append(`[Snapshots] ${serial}: saved ${name}`);
+    }
+
+    async load(serial: string, name: string): Promise<void> {
+        await this.console(serial, (client) => client.command(snapshotCommand('load', name)));
+        this.manager.output.append(`[Snapshots] ${serial}: loaded ${name}`);
+    }
+
+    /** Through the console while the AVD runs (it may hold the files), else removes the folder. */
+    async delete(avd: AVD, snapshot: AvdSnapshot): Promise<void> {
+        const serial = this.runningSerial(avd.name);
+        if (serial) {
+            await this.console(serial, (client) => client.command(snapshotCommand('delete', snapshot.name)));
+        } else if (snapshot.path) {
+            await fs.promises.rm(snapshot.path, { recursive: true, force: true });
+        }
+        this.manager.output.append(`[Snapshots] ${avd.name}: deleted ${snapshot.name}`);
+    }
+
+    /**
+     * Starts the AVD from `name` (`emulator -snapshot <name>`), with `args`
+     * from its launch profile. A cold boot would skip the snapshot, so
+     * `-no-snapshot-load` is dropped.
+     */
+    async boot(avd: AVD, name: string, args: string[] = []): Promise<void> {
+        await this.manager.avd.launchEmulator(avd.name,
+            toCommandLine([...args.filter(arg => arg !== '-no-snapshot-load'), '-snapshot', name]));
+    }
+
+    private async listOnDisk(avd: AVD): Promise<AvdSnapshot[]> {
+        const root = nodePath.join(avd.path, 'snapshots');
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(root, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        const snapshots: AvdSnapshot[] = [];
+        for (const entry of entries.filter(e => e.isDirectory())) {
+            const path = nodePath.join(root, entry.name);
+            const files = await fs.promises.readdir(path, { withFileTypes: true }).catch(() => [] as fs.Dirent[]);
+            // snapshot.pb is written last; a folder without it is an interrupted save
+            if (!files.some(f => f.name === 'snapshot.pb')) {
+                continue;
+            }
+            let sizeBytes = 0;
+            let date: Date | undefined;
+            for (const file of files.filter(f => f.isFile())) {
+                const stat = await fs.promises.stat(nodePath.join(path, file.name)).catch(() => undefined);
+                sizeBytes += stat?.size ?? 0;
+                if (file.name === 'snapshot.pb') {
+                    date = stat?.mtime;
+                }
+            }
+            snapshots.push({
+                name: entry.name,
+                path,
+                sizeBytes,
+                date,
+                screenshot: files.some(f => f.name === 'screenshot.png') ? nodePath.join(path, 'screenshot.png') : undefined,
+            });
+        }
+        return snapshots;
+    }
+
+    private async console<T>(serial: string, task: (client: EmulatorConsoleClient) => Promise<T>): Promise<T> {
+        const client = EmulatorConsoleClient.forSerial(serial, { timeoutMs: SNAPSHOT_TIMEOUT_MS });
+        if (!client) {
+            throw new Error(`${serial} is not an emulator`);
+        }
+        try {
+            return await task(client);
+        } finally {
+            client.close();
+        }
+    }
+}
+
+/**
+ * `avd snapshot <verb> <name>`. The console splits commands on whitespace and
+ * has no quoting, so names with spaces (possible for snapshots Android Studio
+ * saved) are refused rather than sent truncated.
+ */
+function snapshotCommand(verb: 'save' | 'load' | 'delete', name: string): string {
+    if (/\s/.test(name)) {
+        throw new Error(`The emulator console cannot ${verb} "${name}" because its name contains spaces. Stop the AVD to boot from or delete it.`);
+    }
+    return `avd snapshot ${verb} ${name}`;
+}
+
+/**
+ * Snapshot tags from `avd snapshot list`:
+ *
+ *     ID        TAG                 VM SIZE                DATE       VM CLOCK
+ *     --        default_boot           512M 2024-05-01 10:12:44   00:03:10.518
+ */
+export function parseSnapshotList(output: string): string[] {
+    const names: string[] = [];
+    for (const line of output.split('\n')) {
+        const match = /^\s*\S+\s+(\S+)\s+\S+\s+\d{4}-\d{2}-\d{2}\s/.exec(line);
+        if (match) {
+            names.push(match[1]);
+        }
+    }
+    return names;
+}
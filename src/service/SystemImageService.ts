@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import type { AVD } from '../cmd/AVDManager';
+import { Service } from './Service';
+import { SdkInstallerService } from './SdkInstallerService';
+import { parseSystemImagePath } from '../utils/sdkManagerList';
+import type { SystemImagePath } from '../utils/sdkManagerList';
+
+/** A system image sdkmanager knows about, installed or not. */
+export interface SystemImagePackage extends SystemImagePath {
+    /** sdkmanager path, e.g. `system-images;android-34;google_apis;x86_64`. */
+    path: string;
+    description?: string;
+    version?: string;
+    installed: boolean;
+    location?: string;
+    /** Newer version sdkmanager offers for an installed image. */
+    updateVersion?: string;
+}
+
+/**
+ * System images from `sdkmanager --list --verbose`, with install and
+ * uninstall. Listing goes to the network, so results are cached until a
+ * refresh or a change made here.
+ */
+export class SystemImageService extends Service {
+    private readonly installer: SdkInstallerService;
+
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(manager: Manager) {
+        super(manager);
+        this.installer = new SdkInstallerService(manager);
+    }
+
+    async list(noCache: boolean = false): Promise<SystemImagePackage[]> {
+        let out = this.getCache("getSystemImagePackages");
+        if (!out || noCache) {
+            out = this.readPackages();
+            this.setCache("getSystemImagePackages", out);
+        }
+        return out;
+    }
+
+    async install(image: SystemImagePackage, progress?: vscode.Progress<{ message?: string }>, token?: vscode.CancellationToken) {
+        await this.installer.installSdkComponent(this.manager.android.getSDKManager(), image.path, progress, token);
+        await this.changed();
+    }
+
+    async uninstall(image: SystemImagePackage, progress?: vscode.Progress<{ message?: string }>) {
+        await this.installer.uninstallSdkComponent(this.manager.android.getSDKManager(), image.path, progress);
+        await this.changed();
+    }
+
+    /** Names of AVDs whose `image.sysdir.1` points at `image`. */
+    async avdsUsing(image: SystemImagePackage): Promise<string[]> {
+        const dir = ["system-images", `android-${image.apiLevel}`, image.tag, image.abi].join("/");
+        const avds: AVD[] = (await this.manager.avd.getAVDList()) ?? [];
+        const users: string[] = [];
+        for (const avd of avds.filter(a => a.name && a.path)) {
+            const sysdir = (await this.manager.avd.readAVDConfig(avd))["image.sysdir.1"] ?? "";
+            if (sysdir.split(/[\\/]+/).filter(Boolean).join("/") === dir) {
+                users.push(avd.name);
+            }
+        }
+        return users;
+    }
+
+    private async changed() {
+        this.setCache("getSystemImagePackages", undefined);
+        await this.manager.avd.getSystemImages(true);
+        this._onDidChange.fire();
+    }
+
+    private async readPackages(): Promise<SystemImagePackage[]> {
+        const list = await this.installer.listSdkPackages(this.manager.android.getSDKManager());
+        const images = new Map<string, SystemImagePackage>();
+        for (const pkg of list.installed) {
+            const parts = parseSystemImagePath(pkg.path);
+            if (parts) {
+                images.set(pkg.path, { ...parts, ...pkg, installed: true });
+            }
+        }
+        // Available packages include the installed ones
+        for (const pkg of list.available) {
+            const parts = parseSystemImagePath(pkg.path);
+            if (parts && !images.has(pkg.path)) {
+                images.set(pkg.path, { ...parts, ...pkg, installed: false });
+            }
+        }
+        for (const update of list.updates) {
+            const image = images.get(update.path);
+            if (image?.installed) {
+                image.updateVersion = update.availableVersion;
+            }
+        }
+        return [...images.values()].sort((a, b) => a.path.localeCompare(b.path));
+    }
+}
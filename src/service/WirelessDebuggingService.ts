@@ -0,0 +1,275 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import type { AdbMdnsService } from '../device/AdbClient';
+import { showMsg, MsgType, showQuickPick } from '../module/ui';
+
+const WIRELESS_DEVICES_KEY = 'android-studio-lite.wirelessDevices';
+const PAIRING_SERVICE = '_adb-tls-pairing._tcp';
+const CONNECT_SERVICE = '_adb-tls-connect._tcp';
+const MDNS_POLL_MS = 1000;
+const QR_PAIRING_TIMEOUT_MS = 120000;
+const CONNECT_DISCOVERY_TIMEOUT_MS = 10000;
+
+/** A device that was paired or connected over Wi-Fi from this workspace. */
+export interface WirelessEndpoint {
+    /** mDNS instance name of the connect service, used to find the device again after its port changes. */
+    name?: string;
+    /** Last known `ip:port`. */
+    address: string;
+}
+
+interface WirelessQuickPickItem extends vscode.QuickPickItem, WirelessEndpoint { }
+
+export type QrPairingStatus =
+    | { state: 'waiting' }
+    | { state: 'pairing'; address: string }
+    | { state: 'connecting'; address: string }
+    | { state: 'paired'; address: string; message: string }
+    | { state: 'failed'; error: string };
+
+export interface QrPairingSession {
+    /** Payload to encode in the QR code (`WIFI:T:ADB;S:<name>;P:<password>;;`). */
+    qrText: string;
+    /** Resolves when pairing succeeds, fails or is cancelled. */
+    done: Promise<void>;
+}
+
+/**
+ * Android 11+ wireless debugging: `adb pair` with a code or a QR code,
+ * `adb connect` to services found over mDNS, and reconnecting to the devices
+ * remembered for this workspace.
+ */
+export class WirelessDebuggingService {
+    constructor(
+        private readonly manager: Manager,
+        private readonly context: vscode.ExtensionContext,
+    ) { }
+
+    get endpoints(): WirelessEndpoint[] {
+        return this.context.workspaceState.get<WirelessEndpoint[]>(WIRELESS_DEVICES_KEY, []);
+    }
+
+    /** Asks for the `ip:port` and six digit code shown under "Pair device with pairing code". */
+    async pairWithCode(): Promise<void> {
+        const address = await vscode.window.showInputBox({
+            title: "Pair Device (1/2)",
+            prompt: "IP address & port shown under \"Pair device with pairing code\" on the device",
+            placeHolder: "192.168.1.20:37123",
+            validateInput: (value) => isAddress(value.trim()) ? null : "Enter ip:port",
+        });
+        if (!address) {
+            return;
+        }
+        const code = await vscode.window.showInputBox({
+            title: "Pair Device (2/2)",
+            prompt: `Wi-Fi pairing code for ${address.trim()}`,
+            placeHolder: "123456",
+            validateInput: (value) => /^\d{6}$/.test(value.trim()) ? null : "The pairing code has 6 digits",
+        });
+        if (!code) {
+            return;
+        }
+
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Pairing with ${address.trim()}` },
+            async (progress) => {
+                try {
+                    const message = await this.manager.adb.pair(address.trim(), code.trim());
+                    this.log(message);
+                    progress.report({ message: "Connecting..." });
+                    const connected = await this.connectAfterPairing(hostOf(address.trim()));
+                    showMsg(MsgType.info, connected ? `Paired and connected: ${connected}` : message);
+                } catch (error: any) {
+                    this.fail(`Pairing with ${address.trim()} failed`, error);
+                }
+            },
+        );
+    }
+
+    /**
+     * Starts a QR pairing session: the device scans the QR code, advertises a
+     * pairing service named after the session, and is paired and connected.
+     */
+    startQrPairing(onStatus: (status: QrPairingStatus) => void, token: vscode.CancellationToken): QrPairingSession {
+        const name = `studio-${randomString(10)}`;
+        const password = randomString(12);
+        const qrText = `WIFI:T:ADB;S:${name};P:${password};;`;
+
+        const done = (async () => {
+            onStatus({ state: 'waiting' });
+            try {
+                const service = await this.waitForService(
+                    (s) => s.type === PAIRING_SERVICE && s.name === name,
+                    QR_PAIRING_TIMEOUT_MS,
+                    token,
+                );
+                if (!service) {
+                    if (!token.isCancellationRequested) {
+                        onStatus({ state: 'failed', error: "No device scanned the QR code in time." });
+                    }
+                    return;
+                }
+
+                onStatus({ state: 'pairing', address: service.address });
+                const message = await this.manager.adb.pair(service.address, password);
+                this.log(message);
+
+                onStatus({ state: 'connecting', address: service.address });
+                const connected = await this.connectAfterPairing(hostOf(service.address), token);
+                onStatus({ state: 'paired', address: connected ?? service.address, message });
+            } catch (error: any) {
+                this.log(`QR pairing failed: ${error?.message ?? error}`, 'error');
+                onStatus({ state: 'failed', error: error?.message ?? String(error) });
+            }
+        })();
+
+        return { qrText, done };
+    }
+
+    /** Offers wireless debugging services found over mDNS, or a manual address, and connects. */
+    async connectDevice(): Promise<void> {
+        const manual: WirelessQuickPickItem = { label: "$(edit) Enter address...", address: '' };
+        const items = (async (): Promise<WirelessQuickPickItem[]> => {
+            const services = await this.manager.adb.mdnsServices().catch(() => [] as AdbMdnsService[]);
+            const connectable = services
+                .filter((s) => s.type === CONNECT_SERVICE)
+                .map((s) => ({ label: `$(broadcast) ${s.name}`, description: s.address, address: s.address, name: s.name }));
+            return [...connectable, manual];
+        })();
+        const picked = await showQuickPick(items, { placeHolder: "Select a wireless device to connect", canPickMany: false }, "");
+        if (picked === false) {
+            return;
+        }
+
+        let { address, name } = picked as WirelessQuickPickItem;
+        if (!address) {
+            const entered = await vscode.window.showInputBox({
+                title: "Connect Wireless Device",
+                prompt: "IP address & port shown under \"Wireless debugging\" on the device",
+                placeHolder: "192.168.1.20:41235",
+                validateInput: (value) => isAddress(value.trim()) ? null : "Enter ip:port",
+            });
+            if (!entered) {
+                return;
+            }
+            address = entered.trim();
+        }
+
+        try {
+            const message = await this.manager.adb.connectDevice(address);
+            await this.remember({ name, address });
+            this.log(message);
+            showMsg(MsgType.info, message);
+            await this.manager.deviceTracker.refresh();
+        } catch (error: any) {
+            this.fail(`Connecting to ${address} failed`, error);
+        }
+    }
+
+    async forgetDevice(): Promise<void> {
+        const items: WirelessQuickPickItem[] = this.endpoints.map((e) => ({ label: e.name ?? e.address, description: e.name ? e.address : undefined, ...e }));
+        const picked = await showQuickPick(Promise.resolve(items), { placeHolder: "Select a wireless device to forget", canPickMany: false }, "No remembered wireless devices.");
+        if (picked === false) {
+            return;
+        }
+        const { name, address } = picked as WirelessQuickPickItem;
+        await this.context.workspaceState.update(WIRELESS_DEVICES_KEY, this.endpoints.filter((e) => !sameEndpoint(e, { name, address })));
+    }
+
+    /**
+     * Reconnects the devices remembered for this workspace. Ports change every
+     * time wireless debugging is toggled, so the mDNS name is tried first.
+     */
+    async reconnectRemembered(): Promise<void> {
+        const endpoints = this.endpoints;
+        if (endpoints.length === 0) {
+            return;
+        }
+        const services = await this.manager.adb.mdnsServices().catch(() => [] as AdbMdnsService[]);
+        await Promise.all(endpoints.map(async (endpoint) => {
+            const current = endpoint.name
+                ? services.find((s) => s.type === CONNECT_SERVICE && s.name === endpoint.name)
+                : undefined;
+            const address = current?.address ?? endpoint.address;
+            try {
+                this.log(await this.manager.adb.connectDevice(address));
+                if (address !== endpoint.address) {
+                    await this.remember({ name: endpoint.name, address });
+                }
+            } catch (error: any) {
+                this.log(`Reconnect to ${endpoint.name ?? address} failed: ${error?.message ?? error}`);
+            }
+        }));
+    }
+
+    /**
+     * After pairing, the device advertises a separate connect service on the same
+     * host. Connects to it (the adb server may already have done so) and remembers it.
+     */
+    private async connectAfterPairing(host: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        const service = await this.waitForService(
+            (s) => s.type === CONNECT_SERVICE && hostOf(s.address) === host,
+            CONNECT_DISCOVERY_TIMEOUT_MS,
+            token,
+        );
+        if (!service) {
+            this.log(`Paired, but no wireless debugging service found on ${host}. Use "Connect Wireless Device".`);
+            return undefined;
+        }
+        this.log(await this.manager.adb.connectDevice(service.address));
+        await this.remember({ name: service.name, address: service.address });
+        await this.manager.deviceTracker.refresh();
+        return service.address;
+    }
+
+    private async waitForService(
+        match: (service: AdbMdnsService) => boolean,
+        timeoutMs: number,
+        token?: vscode.CancellationToken,
+    ): Promise<AdbMdnsService | undefined> {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline && !token?.isCancellationRequested) {
+            const services = await this.manager.adb.mdnsServices().catch(() => [] as AdbMdnsService[]);
+            const found = services.find(match);
+            if (found) {
+                return found;
+            }
+            await new Promise((r) => setTimeout(r, MDNS_POLL_MS));
+        }
+        return undefined;
+    }
+
+    private async remember(endpoint: WirelessEndpoint): Promise<void> {
+        const others = this.endpoints.filter((e) => !sameEndpoint(e, endpoint));
+        await this.context.workspaceState.update(WIRELESS_DEVICES_KEY, [...others, endpoint]);
+    }
+
+    private fail(message: string, error: any): void {
+        const detail = error?.message ?? String(error);
+        this.log(`${message}: ${detail}`, 'error');
+        showMsg(MsgType.error, `${message}: ${detail}`);
+    }
+
+    private log(message: string, level: string = 'info'): void {
+        this.manager.output.append(`[Wireless] ${message}`, level);
+    }
+}
+
+function sameEndpoint(a: WirelessEndpoint, b: WirelessEndpoint): boolean {
+    return a.name && b.name ? a.name === b.name : a.address === b.address;
+}
+
+function isAddress(value: string): boolean {
+    return /^[^\s:]+:\d{1,5}$/.test(value) || /^\[[0-9a-fA-F:]+\]:\d{1,5}$/.test(value);
+}
+
+function hostOf(address: string): string {
+    return address.replace(/:\d+$/, '');
+}
+
+function randomString(length: number): string {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+    const bytes = crypto.randomBytes(length);
+    return Array.from(bytes, (b) => alphabet[b % alphabet.length]).join('');
+}
@@ -0,0 +1,336 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { describe, it } from 'node:test';
+import { AdbClient, AdbError } from '../device/AdbClient';
+
+/** Server side of one client connection to the fake adb server. */
+interface FakeAdbSocket {
+    /** Next `<4 hex length><service>` request. */
+    request(): Promise<string>;
+    read(length: number): Promise<Buffer>;
+    write(data: Buffer | string): void;
+    okay(): void;
+    fail(message: string): void;
+    /** `<4 hex length><payload>`, as host queries answer. */
+    writeString(payload: string): void;
+    end(): void;
+}
+
+interface FakeAdb {
+    port: number;
+    /** Services requested, in order, across connections. */
+    services: string[];
+    /** Failed expectations of the connection scripts. */
+    errors: Error[];
+    close(): Promise<void>;
+}
+
+/**
+ * Speaks the adb server protocol on a local port. `session` scripts each
+ * connection; a failed expectation drops the connection and lands in `errors`.
+ */
+async function startFakeAdb(session: (socket: FakeAdbSocket) => Promise<void>): Promise<FakeAdb> {
+    const sockets = new Set<net.Socket>();
+    const fake = { port: 0, services: [] as string[], errors: [] as Error[], close: async () => { } };
+    const server = net.createServer((socket) => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        socket.on('error', () => undefined);
+        let buffer = Buffer.alloc(0);
+        let waiter: (() => void) | null = null;
+        let closed = false;
+        socket.on('data', (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            waiter?.();
+        });
+        socket.on('close', () => {
+            closed = true;
+            waiter?.();
+        });
+        const read = async (length: number): Promise<Buffer> => {
+            while (buffer.length < length) {
+                if (closed) {
+                    throw new Error(`Client closed while the fake server waited for ${length} bytes`);
+                }
+                await new Promise<void>((resolve) => waiter = resolve);
+                waiter = null;
+            }
+            const out = buffer.subarray(0, length);
+            buffer = buffer.subarray(length);
+            return out;
+        };
+        const fakeSocket: FakeAdbSocket = {
+            request: async () => {
+                const service = (await read(parseInt((await read(4)).toString('ascii'), 16))).toString('utf8');
+                fake.services.push(service);
+                return service;
+            },
+            read,
+            write: (data) => socket.write(data),
+            okay: () => socket.write('OKAY'),
+            fail: (message) => socket.write(`FAIL${hexLength(message)}${message}`),
+            writeString: (payload) => socket.write(`${hexLength(payload)}${payload}`),
+            end: () => socket.end(),
+        };
+        session(fakeSocket).catch((error) => {
+            fake.errors.push(error);
+            socket.destroy();
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    fake.port = (server.address() as net.AddressInfo).port;
+    fake.close = () => new Promise<void>((resolve) => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+    });
+    return fake;
+}
+
+function hexLength(payload: string): string {
+    return Buffer.byteLength(payload).toString(16).padStart(4, '0');
+}
+
+/** Sync framing: `<4 byte id><uint32 LE>`. */
+function syncHeader(id: string, value: number): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 4, 'ascii');
+    header.writeUInt32LE(value, 4);
+    return header;
+}
+
+async function readSyncRequest(socket: FakeAdbSocket): Promise<{ id: string; path: string }> {
+    const header = await socket.read(8);
+    const id = header.toString('ascii', 0, 4);
+    const path = (await socket.read(header.readUInt32LE(4))).toString('utf8');
+    return { id, path };
+}
+
+async function expectService(socket: FakeAdbSocket, expected: string): Promise<void> {
+    const service = await socket.request();
+    assert.strictEqual(service, expected);
+}
+
+describe('AdbClient', () => {
+    it('frames requests with a 4 hex digit length and reads length-prefixed replies', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            const raw = await socket.read(16);
+            assert.strictEqual(raw.toString('ascii'), '000chost:version');
+            socket.okay();
+            // Split the reply so the client has to reassemble it
+            socket.write('00');
+            socket.write('040029');
+            socket.end();
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            assert.strictEqual(await client.hostQuery('host:version'), '0029');
+            assert.deepStrictEqual(fake.errors, []);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('turns FAIL replies into AdbError', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await socket.request();
+            socket.fail("device 'emulator-5556' not found");
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            await assert.rejects(client.hostQuery('host-serial:emulator-5556:get-state'), (error: any) =>
+                error instanceof AdbError
+                && error.message === "device 'emulator-5556' not found"
+                && error.service === 'host-serial:emulator-5556:get-state');
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('parses host:devices-l', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await expectService(socket, 'host:devices-l');
+            socket.okay();
+            socket.writeString([
+                'emulator-5554          device product:sdk_gphone64_x86_64 model:sdk_gphone64_x86_64 device:emu64xa transport_id:1',
+                'R58M123ABC             unauthorized usb:1-1 transport_id:2',
+                '0123456789ABCDEF       no permissions (missing udev rules? user is in the plugdev group); see [http://developer.android.com/tools/device.html] usb:1-2 transport_id:3',
+                '192.168.1.20:5555      offline transport_id:4',
+                '',
+            ].join('\n'));
+            socket.end();
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            assert.deepStrictEqual(await client.listDevices(), [
+                { serial: 'emulator-5554', state: 'device', product: 'sdk_gphone64_x86_64', model: 'sdk_gphone64_x86_64', device: 'emu64xa', transportId: '1', usb: undefined },
+                { serial: 'R58M123ABC', state: 'unauthorized', product: undefined, model: undefined, device: undefined, transportId: '2', usb: '1-1' },
+                { serial: '0123456789ABCDEF', state: 'no permissions', product: undefined, model: undefined, device: undefined, transportId: '3', usb: '1-2' },
+                { serial: '192.168.1.20:5555', state: 'offline', product: undefined, model: undefined, device: undefined, transportId: '4', usb: undefined },
+            ]);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('switches to the device with host:transport: before shell:', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await expectService(socket, 'host:transport:emulator-5554');
+            socket.okay();
+            await expectService(socket, "shell:echo 'it'\\''s here'");
+            socket.okay();
+            socket.write("it's here\n");
+            socket.end();
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            assert.strictEqual(await client.shell('emulator-5554', ['echo', "it's here"]), "it's here\n");
+            assert.deepStrictEqual(fake.errors, []);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('fails the transport for an unknown device', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await socket.request();
+            socket.fail("device 'gone' not found");
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            await assert.rejects(client.shell('gone', 'true'), (error: any) =>
+                error instanceof AdbError && error.service === 'host:transport:gone');
+            assert.deepStrictEqual(fake.services, ['host:transport:gone']);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('waits for both OKAYs of a host-serial forward', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await expectService(socket, 'host-serial:emulator-5554:forward:tcp:8080;tcp:80');
+            socket.okay();
+            socket.okay();
+            socket.end();
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            await client.forward('emulator-5554', 'tcp:8080', 'tcp:80');
+            assert.deepStrictEqual(fake.errors, []);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('rejects a forward the server refuses after selecting the device', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await socket.request();
+            socket.okay();
+            socket.fail('cannot bind listener: Address already in use');
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            await assert.rejects(client.forward('emulator-5554', 'tcp:8080', 'tcp:80'), (error: any) =>
+                error instanceof AdbError
+                && error.message === 'cannot bind listener: Address already in use'
+                && error.service === 'forward:tcp:8080;tcp:80');
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('sends reverses through the device transport and waits for the second OKAY', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await expectService(socket, 'host:transport:emulator-5554');
+            socket.okay();
+            await expectService(socket, 'reverse:forward:tcp:8081;tcp:8081');
+            socket.okay();
+            socket.fail('cannot rebind existing socket');
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            await assert.rejects(client.reverse('emulator-5554', 'tcp:8081', 'tcp:8081'), (error: any) =>
+                error instanceof AdbError && error.service === 'reverse:forward:tcp:8081;tcp:8081');
+            assert.deepStrictEqual(fake.errors, []);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('runs a sync STAT, LIST and RECV round trip', async () => {
+        const file = Buffer.from('0123456789'.repeat(10));
+        const fake = await startFakeAdb(async (socket) => {
+            await expectService(socket, 'host:transport:emulator-5554');
+            socket.okay();
+            await expectService(socket, 'sync:');
+            socket.okay();
+
+            assert.deepStrictEqual(await readSyncRequest(socket), { id: 'STAT', path: '/sdcard/a.txt' });
+            const stat = Buffer.alloc(16);
+            stat.write('STAT', 0, 'ascii');
+            stat.writeUInt32LE(0o100644, 4);
+            stat.writeUInt32LE(file.length, 8);
+            stat.writeUInt32LE(1700000000, 12);
+            socket.write(stat);
+
+            assert.deepStrictEqual(await readSyncRequest(socket), { id: 'LIST', path: '/sdcard' });
+            for (const [name, mode, size] of [['.', 0o40771, 0], ['..', 0o40755, 0], ['a.txt', 0o100644, file.length], ['Download', 0o40771, 4096]] as const) {
+                const dent = Buffer.alloc(20);
+                dent.write('DENT', 0, 'ascii');
+                dent.writeUInt32LE(mode, 4);
+                dent.writeUInt32LE(size, 8);
+                dent.writeUInt32LE(1700000000, 12);
+                dent.writeUInt32LE(Buffer.byteLength(name), 16);
+                socket.write(Buffer.concat([dent, Buffer.from(name)]));
+            }
+            socket.write(Buffer.concat([Buffer.from('DONE'), Buffer.alloc(16)]));
+
+            assert.deepStrictEqual(await readSyncRequest(socket), { id: 'RECV', path: '/sdcard/a.txt' });
+            socket.write(Buffer.concat([syncHeader('DATA', 60), file.subarray(0, 60)]));
+            socket.write(Buffer.concat([syncHeader('DATA', 40), file.subarray(60)]));
+            socket.write(syncHeader('DONE', 0));
+
+            assert.deepStrictEqual(await readSyncRequest(socket), { id: 'QUIT', path: '' });
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            const sync = await client.sync('emulator-5554');
+            try {
+                assert.deepStrictEqual(await sync.stat('/sdcard/a.txt'),
+                    { name: 'a.txt', mode: 0o100644, size: file.length, mtime: 1700000000 });
+                assert.deepStrictEqual((await sync.list('/sdcard')).map(e => [e.name, e.mode, e.size]),
+                    [['a.txt', 0o100644, file.length], ['Download', 0o40771, 4096]]);
+                assert.deepStrictEqual(await sync.pull('/sdcard/a.txt'), file);
+            } finally {
+                sync.close();
+            }
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            assert.deepStrictEqual(fake.errors, []);
+        } finally {
+            await fake.close();
+        }
+    });
+
+    it('reports sync FAIL messages', async () => {
+        const fake = await startFakeAdb(async (socket) => {
+            await socket.request();
+            socket.okay();
+            await socket.request();
+            socket.okay();
+            await readSyncRequest(socket);
+            const message = 'open failed: Permission denied';
+            socket.write(Buffer.concat([syncHeader('FAIL', message.length), Buffer.from(message)]));
+        });
+        try {
+            const client = new AdbClient({ port: fake.port });
+            const sync = await client.sync('emulator-5554');
+            try {
+                await assert.rejects(sync.pull('/data/secret'), (error: any) =>
+                    error instanceof AdbError && error.message === 'open failed: Permission denied' && error.service === 'RECV');
+            } finally {
+                sync.close();
+            }
+        } finally {
+            await fake.close();
+        }
+    });
+});
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { describe, it } from 'node:test';
+import { EmulatorConsoleClient, EmulatorConsoleError } from '../device/EmulatorConsoleClient';
+
+const AUTH_GREETING = [
+    'Android Console: Authentication required',
+    "Android Console: type 'auth <auth_token>' to authenticate",
+    "Android Console: you can find your <auth_token> in ",
+    "'/home/dev/.emulator_console_auth_token'",
+    'OK',
+];
+const OPEN_GREETING = [
+    'Android Console: type \'help\' for a list of commands',
+    'OK',
+];
+
+/** What the fake console does with a command: reply lines, stay silent, or drop the connection. */
+type FakeReply = string[] | 'silent' | 'close';
+
+interface FakeConsole {
+    port: number;
+    /** Commands received, in order, across connections. */
+    commands: string[];
+    connections: number;
+    close(): Promise<void>;
+}
+
+/** Speaks the emulator console protocol on a local port: CRLF lines, replies ending in `OK` / `KO: ...`. */
+async function startFakeConsole(greeting: string[], handle: (command: string) => FakeReply): Promise<FakeConsole> {
+    const sockets = new Set<net.Socket>();
+    const fake = { port: 0, commands: [] as string[], connections: 0, close: async () => { } };
+    const server = net.createServer((socket) => {
+        fake.connections++;
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        socket.setEncoding('utf8');
+        socket.write(greeting.map(line => `${line}\r\n`).join(''));
+        let buffer = '';
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const command = buffer.slice(0, newline).replace(/\r$/, '');
+                buffer = buffer.slice(newline + 1);
+                fake.commands.push(command);
+                const reply = command === 'quit' ? 'close' : handle(command);
+                if (reply === 'close') {
+                    socket.destroy();
+                    return;
+                }
+                if (reply !== 'silent') {
+                    // Split the reply so the client has to reassemble lines
+                    const text = reply.map(line => `${line}\r\n`).join('');
+                    socket.write(text.slice(0, 3));
+                    socket.write(text.slice(3));
+                }
+            }
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    fake.port = (server.address() as net.AddressInfo).port;
+    fake.close = () => new Promise<void>((resolve) => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+    });
+    return fake;
+}
+
+/** Replies `OK` to `auth secret`, `KO` to other tokens, and answers `avd name`. */
+function authConsole(command: string): FakeReply {
+    if (command.startsWith('auth ')) {
+        return command === 'auth secret' ? OPEN_GREETING : ['KO: authentication token does not match ~/.emulator_console_auth_token'];
+    }
+    if (command === 'avd name') {
+        return ['Pixel_8_API_34', 'OK'];
+    }
+    return ['KO: unknown command, try \'help\''];
+}
+
+describe('EmulatorConsoleClient', () => {
+    it('authenticates after the greeting, then sends commands', async () => {
+        const fake = await startFakeConsole(AUTH_GREETING, authConsole);
+        const client = new EmulatorConsoleClient({ port: fake.port, authToken: 'secret', timeoutMs: 2000 });
+        try {
+            assert.strictEqual(await client.avdName(), 'Pixel_8_API_34');
+            assert.deepStrictEqual(fake.commands, ['auth secret', 'avd name']);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('skips auth when the console does not ask for it', async () => {
+        const fake = await startFakeConsole(OPEN_GREETING, authConsole);
+        const client = new EmulatorConsoleClient({ port: fake.port, authToken: 'secret', timeoutMs: 2000 });
+        try {
+            assert.strictEqual(await client.avdName(), 'Pixel_8_API_34');
+            assert.deepStrictEqual(fake.commands, ['avd name']);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('rejects a wrong auth token with the console message', async () => {
+        const fake = await startFakeConsole(AUTH_GREETING, authConsole);
+        const client = new EmulatorConsoleClient({ port: fake.port, authToken: 'wrong', timeoutMs: 2000 });
+        try {
+            await assert.rejects(client.avdName(), (error: any) =>
+                error instanceof EmulatorConsoleError && error.command === 'auth' && /token does not match/.test(error.message));
+            assert.ok(!client.connected);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('rejects KO replies and keeps the connection for the next command', async () => {
+        const fake = await startFakeConsole(OPEN_GREETING, (command) =>
+            command === 'power display'
+                ? ['AC: online', 'status: Not charging', 'health: Good', 'present: true', 'capacity: 50', 'OK']
+                : authConsole(command));
+        const client = new EmulatorConsoleClient({ port: fake.port, timeoutMs: 2000 });
+        try {
+            await assert.rejects(client.command('bogus'), (error: any) =>
+                error instanceof EmulatorConsoleError && error.command === 'bogus' && error.message === "unknown command, try 'help'");
+            assert.deepStrictEqual(await client.getBattery(), { acOnline: true, status: 'not-charging', capacity: 50 });
+            assert.strictEqual(fake.connections, 1);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('times out when the console does not answer', async () => {
+        const fake = await startFakeConsole(OPEN_GREETING, (command) => command === 'rotate' ? 'silent' : authConsole(command));
+        const client = new EmulatorConsoleClient({ port: fake.port, timeoutMs: 200 });
+        try {
+            await assert.rejects(client.rotate(), (error: any) =>
+                error instanceof EmulatorConsoleError && /did not answer "rotate"/.test(error.message));
+            assert.ok(!client.connected);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('reconnects after the console drops the connection or times out', async () => {
+        let drop = true;
+        let stall = true;
+        const fake = await startFakeConsole(AUTH_GREETING, (command) => {
+            if (command === 'rotate' && drop) {
+                drop = false;
+                return 'close';
+            }
+            if (command === 'finger remove' && stall) {
+                stall = false;
+                return 'silent';
+            }
+            return command.startsWith('auth ') || command === 'avd name' ? authConsole(command) : ['OK'];
+        });
+        const client = new EmulatorConsoleClient({ port: fake.port, authToken: 'secret', timeoutMs: 300 });
+        try {
+            await assert.rejects(client.rotate(), EmulatorConsoleError);
+            await client.rotate();
+            assert.strictEqual(fake.connections, 2);
+
+            await assert.rejects(client.liftFingerprint(), EmulatorConsoleError);
+            assert.strictEqual(await client.avdName(), 'Pixel_8_API_34');
+            assert.strictEqual(fake.connections, 3);
+            assert.deepStrictEqual(fake.commands.filter(c => c.startsWith('auth ')), ['auth secret', 'auth secret', 'auth secret']);
+        } finally {
+            client.close();
+            await fake.close();
+        }
+    });
+
+    it('fails when nothing listens on the port', async () => {
+        const fake = await startFakeConsole(OPEN_GREETING, authConsole);
+        const port = fake.port;
+        await fake.close();
+        const client = new EmulatorConsoleClient({ port, timeoutMs: 2000 });
+        await assert.rejects(client.avdName(), (error: any) =>
+            error instanceof EmulatorConsoleError && /Cannot reach the emulator console/.test(error.message));
+    });
+});
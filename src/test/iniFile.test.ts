@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseIni, patchIni } from '../utils/iniFile';
+
+describe('parseIni', () => {
+    it('reads key=value lines and skips comments', () => {
+        assert.deepStrictEqual(parseIni('# comment\n; other\nhw.ramSize = 2048\r\n\nAvdId=Pixel_8\nbroken line\n'),
+            { 'hw.ramSize': '2048', 'AvdId': 'Pixel_8' });
+    });
+});
+
+describe('patchIni', () => {
+    it('replaces keys in place, appends new ones and removes undefined ones', () => {
+        const content = '# kept\nAvdId=Pixel\nhw.ramSize=2048\nhw.keyboard=no\n\n';
+        assert.strictEqual(patchIni(content, { 'hw.ramSize': '4096', 'hw.keyboard': undefined, 'hw.gpu.mode': 'host' }),
+            '# kept\nAvdId=Pixel\nhw.ramSize=4096\nhw.gpu.mode=host\n');
+    });
+
+    it('keeps CRLF line endings', () => {
+        assert.strictEqual(patchIni('a=1\r\nb=2\r\n', { b: '3' }), 'a=1\r\nb=3\r\n');
+    });
+
+    it('rewrites the first of duplicated keys and drops the rest', () => {
+        const content = 'hw.ramSize=1536\nAvdId=Pixel\nhw.ramSize=2048\nhw.lcd.density=420\nhw.lcd.density=440\n';
+        const patched = patchIni(content, { 'hw.ramSize': '4096', 'hw.lcd.density': undefined });
+        assert.strictEqual(patched, 'hw.ramSize=4096\nAvdId=Pixel\n');
+        assert.deepStrictEqual(parseIni(patched), { 'hw.ramSize': '4096', 'AvdId': 'Pixel' });
+    });
+
+    it('leaves duplicates of keys it does not patch alone', () => {
+        assert.strictEqual(patchIni('a=1\na=2\n', { b: '3' }), 'a=1\na=2\nb=3\n');
+    });
+});
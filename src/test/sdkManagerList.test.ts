@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { parseSdkManagerList, parseSystemImagePath } from '../utils/sdkManagerList';
+
+// Compiled to out/test; the fixture stays in src
+const FIXTURE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'sdkmanager-list-verbose.txt');
+
+describe('parseSdkManagerList', () => {
+    const list = parseSdkManagerList(fs.readFileSync(FIXTURE, 'utf8'));
+
+    it('splits packages by section header', () => {
+        assert.deepStrictEqual(list.installed.map(p => p.path), [
+            'build-tools;34.0.0',
+            'emulator',
+            'system-images;android-33;google_apis_playstore;x86_64',
+            'system-images;android-34;google_apis;x86_64',
+        ]);
+        assert.strictEqual(list.available.length, 7);
+        assert.deepStrictEqual(list.updates.map(u => u.path), ['system-images;android-34;google_apis;x86_64']);
+    });
+
+    it('reads detail lines', () => {
+        assert.deepStrictEqual(list.installed[3], {
+            path: 'system-images;android-34;google_apis;x86_64',
+            description: 'Google APIs Intel x86_64 Atom System Image',
+            version: '12',
+            location: '/home/dev/Android/Sdk/system-images/android-34/google_apis/x86_64',
+        });
+        assert.strictEqual(list.available.find(p => p.path === 'system-images;android-34;google_apis;x86_64')?.version, '14');
+    });
+
+    it('skips 8-space dependency lines', () => {
+        const paths = list.available.map(p => p.path);
+        assert.ok(!paths.includes('tools'));
+        assert.ok(!paths.includes('patcher;v4'));
+        assert.ok(list.available.every(p => !('dependencies' in p)));
+        assert.strictEqual(list.available.find(p => p.path === 'emulator')?.version, '34.1.19');
+    });
+
+    it('reads Available Updates and ignores the closing message', () => {
+        assert.deepStrictEqual(list.updates, [{
+            path: 'system-images;android-34;google_apis;x86_64',
+            installedVersion: '12',
+            availableVersion: '14',
+        }]);
+    });
+
+    it('keeps what a progress bar redraw settled on', () => {
+        const output = [
+            'Loading package information...\r[====    ] 50% Computing updates...\rInstalled packages:',
+            'emulator',
+            '    Description:        Android Emulator\r',
+            '    Version:            34.1.19',
+            '\r[========] 100% Fetch remote repository...',
+        ].join('\r\n');
+        assert.deepStrictEqual(parseSdkManagerList(output).installed, [
+            { path: 'emulator', description: 'Android Emulator', version: '34.1.19', location: undefined },
+        ]);
+    });
+
+    it('returns empty lists without section headers', () => {
+        assert.deepStrictEqual(parseSdkManagerList('Warning: Could not create settings\nemulator\n    Version: 1\n'),
+            { installed: [], available: [], updates: [] });
+    });
+});
+
+describe('parseSystemImagePath', () => {
+    it('splits API level, tag and ABI', () => {
+        assert.deepStrictEqual(parseSystemImagePath('system-images;android-34-ext10;google_apis_playstore;arm64-v8a'),
+            { apiLevel: '34-ext10', tag: 'google_apis_playstore', abi: 'arm64-v8a' });
+        assert.deepStrictEqual(parseSystemImagePath('system-images;android-VanillaIceCream;google_apis;arm64-v8a'),
+            { apiLevel: 'VanillaIceCream', tag: 'google_apis', abi: 'arm64-v8a' });
+    });
+
+    it('ignores other packages', () => {
+        assert.strictEqual(parseSystemImagePath('build-tools;34.0.0'), undefined);
+        assert.strictEqual(parseSystemImagePath('emulator'), undefined);
+    });
+});
@@ -0,0 +1,186 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { extractZipDirectory, extractZipEntry, readZipEntries, writeZip, ZipSource } from '../utils/zipArchive';
+
+const MAX_32 = 0xffffffff;
+
+async function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zip-archive-test-'));
+    try {
+        await run(dir);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+}
+
+/** Writes `files` (archive name → content) under `dir` and returns them as zip sources. */
+async function writeSources(dir: string, files: Record<string, Buffer | string>): Promise<ZipSource[]> {
+    const sources: ZipSource[] = [];
+    for (const [name, content] of Object.entries(files)) {
+        const file = path.join(dir, 'src', `${sources.length}`);
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, content);
+        sources.push({ name, path: file });
+    }
+    return sources;
+}
+
+function crc32(data: Buffer): number {
+    let c = ~0;
+    for (const byte of data) {
+        c ^= byte;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+    }
+    return ~c >>> 0;
+}
+
+/**
+ * One stored entry written the way zip64 archives over 4 GB are: sizes and
+ * offset saturated to 0xffffffff in the headers and given in the zip64 extra
+ * field, and the counts in the zip64 end of central directory.
+ */
+function zip64Archive(name: string, data: Buffer): Buffer {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const local = Buffer.alloc(30 + nameBytes.length + 20);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(45, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(MAX_32, 18);
+    local.writeUInt32LE(MAX_32, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(20, 28);
+    nameBytes.copy(local, 30);
+    local.writeUInt16LE(0x0001, 30 + nameBytes.length);
+    local.writeUInt16LE(16, 32 + nameBytes.length);
+    local.writeBigUInt64LE(BigInt(data.length), 34 + nameBytes.length);
+    local.writeBigUInt64LE(BigInt(data.length), 42 + nameBytes.length);
+
+    const central = Buffer.alloc(46 + nameBytes.length + 28);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(45, 4);
+    central.writeUInt16LE(45, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(MAX_32, 20);
+    central.writeUInt32LE(MAX_32, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt16LE(28, 30);
+    central.writeUInt32LE(MAX_32, 42);
+    nameBytes.copy(central, 46);
+    central.writeUInt16LE(0x0001, 46 + nameBytes.length);
+    central.writeUInt16LE(24, 48 + nameBytes.length);
+    central.writeBigUInt64LE(BigInt(data.length), 50 + nameBytes.length);
+    central.writeBigUInt64LE(BigInt(data.length), 58 + nameBytes.length);
+    central.writeBigUInt64LE(0n, 66 + nameBytes.length);
+
+    const centralOffset = local.length + data.length;
+    const zip64EndOffset = centralOffset + central.length;
+    const end = Buffer.alloc(56 + 20 + 22);
+    end.writeUInt32LE(0x06064b50, 0);
+    end.writeBigUInt64LE(44n, 4);
+    end.writeUInt16LE(45, 12);
+    end.writeUInt16LE(45, 14);
+    end.writeBigUInt64LE(1n, 24);
+    end.writeBigUInt64LE(1n, 32);
+    end.writeBigUInt64LE(BigInt(central.length), 40);
+    end.writeBigUInt64LE(BigInt(centralOffset), 48);
+    end.writeUInt32LE(0x07064b50, 56);
+    end.writeBigUInt64LE(BigInt(zip64EndOffset), 64);
+    end.writeUInt32LE(1, 72);
+    end.writeUInt32LE(0x06054b50, 76);
+    end.writeUInt16LE(0xffff, 84);
+    end.writeUInt16LE(0xffff, 86);
+    end.writeUInt32LE(MAX_32, 88);
+    end.writeUInt32LE(MAX_32, 92);
+    return Buffer.concat([local, data, central, end]);
+}
+
+describe('zipArchive', () => {
+    it('round-trips empty files and nested directories', () => withTempDir(async (dir) => {
+        const random = Buffer.alloc(200 * 1024);
+        for (let i = 0; i < random.length; i++) {
+            random[i] = (i * 2654435761) >>> 24;
+        }
+        const files: Record<string, Buffer | string> = {
+            'Pixel.ini': 'avd.ini.encoding=UTF-8\npath=/home/dev/.android/avd/Pixel.avd\n',
+            'Pixel.avd/config.ini': 'AvdId=Pixel\n'.repeat(100),
+            'Pixel.avd/empty.lock': '',
+            'Pixel.avd/snapshots/default_boot/ram.bin': random,
+            'Pixel.avd/snapshots/default_boot/empty': '',
+            'Pixel.avd/data/misc/wifi/ü.conf': 'network={}\n',
+        };
+        const zipPath = path.join(dir, 'Pixel.zip');
+        const reported: string[] = [];
+        await writeZip(zipPath, await writeSources(dir, files), (source, index) => reported.push(`${index}:${source.name}`));
+        assert.deepStrictEqual(reported, Object.keys(files).map((name, index) => `${index}:${name}`));
+
+        const entries = await readZipEntries(zipPath);
+        assert.deepStrictEqual(entries.map(e => [e.name, e.method, e.size]),
+            Object.entries(files).map(([name, content]) => [name, 8, Buffer.byteLength(content)]));
+
+        const out = path.join(dir, 'out');
+        for (const entry of entries) {
+            await extractZipEntry(zipPath, entry, path.join(out, entry.name));
+        }
+        for (const [name, content] of Object.entries(files)) {
+            assert.deepStrictEqual(await fs.promises.readFile(path.join(out, name)), Buffer.from(content));
+        }
+    }));
+
+    it('reads sizes and offsets from zip64 extra fields', () => withTempDir(async (dir) => {
+        const data = Buffer.from('stored under zip64 headers\n');
+        const zipPath = path.join(dir, 'zip64.zip');
+        await fs.promises.writeFile(zipPath, zip64Archive('Pixel.avd/userdata-qemu.img', data));
+
+        const entries = await readZipEntries(zipPath);
+        assert.deepStrictEqual(entries, [{
+            name: 'Pixel.avd/userdata-qemu.img',
+            method: 0,
+            crc: crc32(data),
+            compressedSize: data.length,
+            size: data.length,
+            offset: 0,
+        }]);
+        await extractZipEntry(zipPath, entries[0], path.join(dir, 'userdata-qemu.img'));
+        assert.deepStrictEqual(await fs.promises.readFile(path.join(dir, 'userdata-qemu.img')), data);
+    }));
+
+    it('extracts one folder of the archive without its prefix', () => withTempDir(async (dir) => {
+        const zipPath = path.join(dir, 'Pixel.zip');
+        await writeZip(zipPath, await writeSources(dir, {
+            'Pixel.ini': 'path=/somewhere\n',
+            'Pixel.avd/config.ini': 'AvdId=Pixel\n',
+            'Pixel.avd/snapshots/default_boot/snapshot.pb': 'pb',
+        }));
+        const dest = path.join(dir, 'Copy.avd');
+        const reported: string[] = [];
+        await extractZipDirectory(zipPath, await readZipEntries(zipPath), 'Pixel.avd/', dest,
+            (entry, index, count) => reported.push(`${entry.name} ${index + 1}/${count}`));
+
+        assert.deepStrictEqual(reported, ['Pixel.avd/config.ini 1/2', 'Pixel.avd/snapshots/default_boot/snapshot.pb 2/2']);
+        assert.strictEqual(await fs.promises.readFile(path.join(dest, 'config.ini'), 'utf8'), 'AvdId=Pixel\n');
+        assert.strictEqual(await fs.promises.readFile(path.join(dest, 'snapshots', 'default_boot', 'snapshot.pb'), 'utf8'), 'pb');
+        assert.ok(!fs.existsSync(path.join(dest, 'Pixel.ini')));
+    }));
+
+    for (const escape of ['Pixel.avd/../../escaped.txt', 'Pixel.avd//tmp/escaped.txt', 'Pixel.avd/..']) {
+        it(`refuses ${escape} before extracting anything`, () => withTempDir(async (dir) => {
+            const zipPath = path.join(dir, 'evil.zip');
+            await writeZip(zipPath, await writeSources(dir, {
+                'Pixel.avd/config.ini': 'AvdId=Pixel\n',
+                [escape]: 'outside',
+            }));
+            const dest = path.join(dir, 'avd', 'Pixel.avd');
+            await assert.rejects(extractZipDirectory(zipPath, await readZipEntries(zipPath), 'Pixel.avd/', dest),
+                (error: any) => error.message === `${escape} points outside Pixel.avd`);
+            assert.ok(!fs.existsSync(dest));
+            assert.ok(!fs.existsSync(path.join(dir, 'escaped.txt')));
+        }));
+    }
+});
@@ -1,30 +1,76 @@
 import * as nodePath from 'path';
+import * as os from 'os';
 import * as vscode from 'vscode';
-import { AVD, AVDDevice } from '../cmd/AVDManager';
-import { Manager } from '../core';
+import { AVD } from '../cmd/AVDManager';
+import { AVDGroupBy, ConfigItem, ConfigScope, Manager } from '../core';
 import { showMsg, showQuickPick, MsgType, showYesNoQuickPick } from '../module/ui';
 
 import { subscribe } from '../module/';
+import { formatSize } from '../module/util';
 import { AVDQuickPickItem } from './AVDQuickPick';
-import { AVDDeviceQuickPickItem } from './AVDDeviceQuickPick';
+import type { TrackedDevice } from '../device/DeviceTracker';
+import { avdTargetId } from '../device/RunTarget';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService';
+import type { AvdSnapshot, SnapshotService } from '../service/SnapshotService';
+import type { LaunchProfileService } from '../service/LaunchProfileService';
+import { toCommandLine } from '../cmd/Emulator';
+import type { AVDCopyOptions } from '../service/AVDService';
+import type { AVDCleanup, AVDDiskUsage, AVDStorageService } from '../service/AVDStorageService';
+import { AVD_DEVICE_TYPES, avdApiLevel, avdDeviceType } from '../utils/avdConfig';
+
+const GROUP_BY_ITEMS: { label: string; groupBy: AVDGroupBy }[] = [
+    { label: "None", groupBy: "none" },
+    { label: "API Level", groupBy: "apiLevel" },
+    { label: "ABI", groupBy: "abi" },
+    { label: "Device Type", groupBy: "deviceType" },
+];
+
+/** The emulator can still be saving its quickboot snapshot after `emu kill`. */
+const STOP_TIMEOUT_MS = 60 * 1000;
 
 
 
 export class AVDTreeView {
     readonly provider: AVDTreeDataProvider;
+    /** `runningAVDsKey` of the devices the tree last refreshed for. */
+    private runningAVDs = "";
 
-    constructor(context: vscode.ExtensionContext, private manager: Manager) {
-        this.provider = new AVDTreeDataProvider(this.manager);
+    constructor(
+        context: vscode.ExtensionContext,
+        private manager: Manager,
+        private selectedDevice: SelectedDeviceService,
+        private snapshots: SnapshotService,
+        private launchProfiles: LaunchProfileService,
+        private storage: AVDStorageService,
+    ) {
+        this.provider = new AVDTreeDataProvider(this.manager, this.selectedDevice, this.snapshots, this.launchProfiles, this.storage);
 
         const view = vscode.window.createTreeView('android-studio-lite-avd', { treeDataProvider: this.provider, showCollapseAll: true });
 
         subscribe(context, [
             view,
 
-            vscode.commands.registerCommand('android-studio-lite.avd-create', async (node) => {
-                let path = node?.pkg?.pathRaw ?? undefined;
-                let name = node?.pkg?.description ?? undefined;
-                this.createAVDDiag(path, name).then(() => this.provider.refresh());
+            // AVDs come and go from the running set as emulators start/stop; other device changes do not show here
+            this.manager.deviceTracker.onDidChangeDevices((devices) => {
+                const running = runningAVDsKey(devices);
+                if (running !== this.runningAVDs) {
+                    this.runningAVDs = running;
+                    this.provider.refresh();
+                }
+            }),
+            this.selectedDevice.onDidChangeSelection(() => this.provider.refresh()),
+            this.launchProfiles.onDidChange(() => this.provider.refresh()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration(`android-studio-lite.${ConfigItem.avdGroupBy}`)) {
+                    this.provider.refresh();
+                }
+            }),
+
+            vscode.commands.registerCommand('android-studio-lite.avd-select', async (node) => {
+                let name = node?.avd?.name ?? await this.askAVDName();
+                if (name) {
+                    await this.selectedDevice.select(avdTargetId(name));
+                }
             }),
 
 
@@ -34,10 +80,61 @@ export class AVDTreeView {
                 let name = node?.avd?.name ?? undefined;
                 this.launchAVDDiag(name).then(() => this.provider.refresh());
             }),
+            vscode.commands.registerCommand('android-studio-lite.avd-launch-profile', async (node) => {
+                let name = node?.avd?.name ?? undefined;
+                this.launchAVDDiag(name, true).then(() => this.provider.refresh());
+            }),
+            vscode.commands.registerCommand('android-studio-lite.avd-stop', (node?: AVDTreeItem) =>
+                this.runningAction(node?.avd, 'stop', async (avd, serial) => {
+                    await this.manager.adb.emu(serial, ['kill']);
+                    showMsg(MsgType.info, `Stopping ${avd.name} (${serial})`);
+                })),
+            vscode.commands.registerCommand('android-studio-lite.avd-cold-reboot', (node?: AVDTreeItem) =>
+                this.runningAction(node?.avd, 'cold reboot', (avd, serial) => vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `Cold rebooting ${avd.name}` },
+                    async (progress) => {
+                        progress.report({ message: `Stopping ${serial}...` });
+                        await this.manager.adb.emu(serial, ['kill']);
+                        if (!await this.waitForStop(avd.name)) {
+                            throw new Error(`${avd.name} did not stop within ${STOP_TIMEOUT_MS / 1000}s`);
+                        }
+                        progress.report({ message: "Starting without the quickboot snapshot..." });
+                        const args = [...this.launchProfiles.argsFor(avd.name), '-no-snapshot-load'];
+                        await this.manager.avd.launchEmulator(avd.name, toCommandLine(args));
+                    },
+                ))),
+            vscode.commands.registerCommand('android-studio-lite.avd-group-by', async () => {
+                const current = this.manager.getConfig().avdGroupBy;
+                const picked = await vscode.window.showQuickPick(
+                    GROUP_BY_ITEMS.map(item => ({ ...item, description: item.groupBy === current ? "current" : undefined })),
+                    { placeHolder: "Group AVDs by" },
+                );
+                if (picked) {
+                    await this.manager.setConfig(ConfigItem.avdGroupBy, picked.groupBy, ConfigScope.global);
+                }
+            }),
             vscode.commands.registerCommand('android-studio-lite.avd-edit', async (node) => {
                 let name = node?.avd?.name ?? undefined;
                 this.renameAVDDiag(name).then(() => this.provider.refresh());
             }),
+            vscode.commands.registerCommand('android-studio-lite.avd-duplicate', async (node) => {
+                this.duplicateAVDDiag(node?.avd).then(() => this.provider.refresh());
+            }),
+            vscode.commands.registerCommand('android-studio-lite.avd-export', async (node) => {
+                await this.exportAVDDiag(node?.avd);
+            }),
+            vscode.commands.registerCommand('android-studio-lite.avd-import', async () => {
+                this.importAVDDiag().then(() => this.provider.refresh());
+            }),
+            vscode.commands.registerCommand('android-studio-lite.avd-wipe-data', (node?: AVDTreeItem) =>
+                this.cleanupDiag(node?.avd, 'wipeData', "Wipe user data")),
+            vscode.commands.registerCommand('android-studio-lite.avd-delete-snapshots', (node?: AVDTreeItem) =>
+                this.cleanupDiag(node?.avd, 'snapshots', "Delete all snapshots")),
+            vscode.commands.registerCommand('android-studio-lite.avd-delete-cache', (node?: AVDTreeItem) =>
+                this.cleanupDiag(node?.avd, 'cache', "Delete cache images")),
+            vscode.commands.registerCommand('android-studio-lite.avd-cleanup-unused', async () => {
+                this.cleanupUnusedDiag().then(() => this.provider.refresh());
+            }),
             vscode.commands.registerCommand('android-studio-lite.avd-showdir', async (node) => {
                 let { name, path } = node?.avd;
                 if (path !== undefined) {
@@ -48,25 +145,63 @@ export class AVDTreeView {
                 let { name, path } = node?.avd;
                 if (path !== undefined) {
                     let configPath = nodePath.join(path, "config.ini");
-                    //console.log("avdmanager.avd-showdir", configPath);
-                    vscode.workspace.openTextDocument(configPath)
-                        .then(document => vscode.window.showTextDocument(document, { preserveFocus: true, preview: false }));
+                    await vscode.commands.executeCommand('vscode.openWith', vscode.Uri.file(configPath), 'android-studio-lite.avdConfig',
+                        { preserveFocus: true, preview: false });
                 }
             }),
 
             vscode.commands.registerCommand('android-studio-lite.avd-delete', async (node) => {
                 let name = node?.avd?.name ?? undefined;
                 this.deleteAVDDiag(name).then(() => this.provider.refresh());
-            })
+            }),
+
+            vscode.commands.registerCommand('android-studio-lite.avd-snapshot-save', (node?: AVDTreeItem) =>
+                this.snapshotAction(node?.avd, 'save a snapshot of', async (avd) => {
+                    const serial = this.snapshots.runningSerial(avd.name);
+                    if (!serial) {
+                        showMsg(MsgType.info, `Start ${avd.name} to save a snapshot.`);
+                        return;
+                    }
+                    const name = await this.askSnapshotName(avd);
+                    if (name) {
+                        await vscode.window.withProgress(
+                            { location: vscode.ProgressLocation.Notification, title: `Saving snapshot ${name}...` },
+                            () => this.snapshots.save(serial, name),
+                        );
+                        showMsg(MsgType.info, `Snapshot ${name} saved`);
+                    }
+                })),
+            vscode.commands.registerCommand('android-studio-lite.avd-snapshot-load', (node?: SnapshotTreeItem) =>
+                this.snapshotAction(node?.avd, 'load a snapshot on', async (avd) => {
+                    const serial = this.snapshots.runningSerial(avd.name);
+                    if (!serial) {
+                        showMsg(MsgType.info, `${avd.name} is not running. Use Boot from Snapshot instead.`);
+                        return;
+                    }
+                    await vscode.window.withProgress(
+                        { location: vscode.ProgressLocation.Notification, title: `Loading snapshot ${node!.snapshot.name}...` },
+                        () => this.snapshots.load(serial, node!.snapshot.name),
+                    );
+                })),
+            vscode.commands.registerCommand('android-studio-lite.avd-snapshot-boot', (node?: SnapshotTreeItem) =>
+                this.snapshotAction(node?.avd, 'boot', async (avd) => {
+                    if (this.snapshots.runningSerial(avd.name)) {
+                        showMsg(MsgType.info, `${avd.name} is already running. Use Load Snapshot instead.`);
+                        return;
+                    }
+                    await this.snapshots.boot(avd, node!.snapshot.name, this.launchProfiles.argsFor(avd.name));
+                })),
+            vscode.commands.registerCommand('android-studio-lite.avd-snapshot-delete', (node?: SnapshotTreeItem) =>
+                this.snapshotAction(node?.avd, 'delete a snapshot of', async (avd) => {
+                    const ans = await showYesNoQuickPick(`Delete snapshot ${node!.snapshot.name} of ${avd.name}?`);
+                    if (ans === "Yes") {
+                        await this.snapshots.delete(avd, node!.snapshot);
+                    }
+                })),
         ]);
 
     }
 
-    create = async () => {
-        console.log("call android-studio-lite.avd-create");
-        vscode.window.createWebviewPanel('android-studio-lite-avdCreate', "Create New AVD", vscode.ViewColumn.Beside);
-    };
-
     refresh = async () => {
         await this.manager.avd.getAVDList(true);
         this.provider.refresh();
@@ -90,28 +225,18 @@ export class AVDTreeView {
     }
 
 
-    async getAVDDeviceQuickPickItems(): Promise<AVDDeviceQuickPickItem[] | undefined> {
-
-        let defaultItem: AVDDeviceQuickPickItem = new AVDDeviceQuickPickItem({
-            id: -1, idName: "", name: "Default (No device definition)", oem: "",
-        });
-        return this.manager.avd.getAVDDeviceList()
-            .then(devices => {
-                return devices === undefined ? devices : devices.map((device: AVDDevice) => new AVDDeviceQuickPickItem(device));
-            }).then((devices) => {
-                if (Array.isArray(devices)) {
-                    return [defaultItem, ...devices];
-                }
-                return [defaultItem];
-            });
-    };
+    async renameAVDDiag(avdname: string | undefined) {
+        //select avd
+        let target = avdname ?? await this.askAVDName();
 
-    async createAVDDiag(path: string, name: string) {
+        if (!target) {
+            return;
+        }
 
         //get new name
         let avdlist = await this.manager.avd.getAVDList();
         const newAvdName = await vscode.window.showInputBox({
-            title: `Create AVD with ${name}:`,
+            title: `Rename AVD ${target}:`,
             placeHolder: "Enter a new AVD name. (Must be unique)",
             validateInput: (name) => {
                 if (name.match(/[^a-zA-Z0-9_]/)) {
@@ -126,109 +251,387 @@ export class AVDTreeView {
             },
         });
         if (!newAvdName) {
-            showMsg(MsgType.info, "The AVD name cannot be blank.");
+            showMsg(MsgType.info, "The new AVD cannot be blank.");
             return;
         }
 
-        const device = await showQuickPick(this.getAVDDeviceQuickPickItems(), {
-            //placeHolder: "Select AVD Device definition",
-            canPickMany: false,
-            title: "Select AVD Device definition",
-        },
-            "No AVD device definition. Please retry.",
-            "No AVD device definition selected");
+        await this.manager.avd.renameAVD(target, newAvdName);
+        await this.manager.avd.getAVDList(true); //reload cache
+    }
+
+
+    async deleteAVDDiag(avdname: string | undefined) {
+        let target = avdname ?? await this.askAVDName();
+
+        const ans = await showYesNoQuickPick(`Are you sure to delete AVD ${target}?`);
+
+        if (ans === "Yes" && target) {
+            await this.manager.avd.deleteAVD(target);
+        }
+        await this.manager.avd.getAVDList(true); //reload cache
+    }
 
 
-        const deviceId = (device as AVDDeviceQuickPickItem)?.avdDevice?.id ?? -2;
-        if (deviceId === -2) {
-            showMsg(MsgType.info, "Please Select one of the AVD device definition.");
+    async duplicateAVDDiag(avd: AVD | undefined) {
+        let source = avd ?? await this.askAVD();
+        if (!source) {
             return;
         }
+        const newName = await this.askNewAVDName(`Duplicate AVD ${source.name}`, `${source.name}_copy`);
+        if (!newName) {
+            return;
+        }
+        const options = await this.askCopyOptions(`Duplicate ${source.name} as ${newName}`, false);
+        if (!options || !this.checkStopped(source, options)) {
+            return;
+        }
+        await this.transferAction(`Duplicating ${source.name} as ${newName}...`, `duplicate ${source.name}`, async () => {
+            await this.manager.avd.duplicateAVD(source, newName, options);
+            showMsg(MsgType.info, `${source.name} duplicated as ${newName}`);
+        });
+    }
 
-        await this.manager.avd.createAVD(newAvdName, path, name, deviceId);
-        await this.manager.avd.getAVDList(true); //reload cache
+    async exportAVDDiag(avd: AVD | undefined) {
+        let source = avd ?? await this.askAVD();
+        if (!source) {
+            return;
+        }
+        const options = await this.askCopyOptions(`Export AVD ${source.name}`, true);
+        if (!options || !this.checkStopped(source, options)) {
+            return;
+        }
+        const uri = await vscode.window.showSaveDialog({
+            title: `Export AVD ${source.name}`,
+            defaultUri: vscode.Uri.file(nodePath.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir(), `${source.name}.zip`)),
+            filters: { "AVD archive": ["zip"] },
+        });
+        if (!uri) {
+            return;
+        }
+        await this.transferAction(`Exporting ${source.name}`, `export ${source.name}`, async (progress) => {
+            await this.manager.avd.exportAVD(source, uri.fsPath, options, progress);
+            showMsg(MsgType.info, `${source.name} exported to ${uri.fsPath}`, {}, "Reveal in OS").then(ans => {
+                if (ans === "Reveal in OS") {
+                    vscode.commands.executeCommand('revealFileInOS', uri);
+                }
+            });
+        });
     }
 
-    async renameAVDDiag(avdname: string | undefined) {
-        //select avd
-        let target = avdname ?? await this.askAVDName();
+    async importAVDDiag() {
+        const uris = await vscode.window.showOpenDialog({
+            title: "Import AVD",
+            canSelectMany: false,
+            filters: { "AVD archive": ["zip"] },
+        });
+        if (!uris?.length) {
+            return;
+        }
+        const zipPath = uris[0].fsPath;
+        let name: string;
+        try {
+            name = await this.manager.avd.readAVDArchiveName(zipPath);
+        } catch (error: any) {
+            showMsg(MsgType.error, `Failed to import ${nodePath.basename(zipPath)}: ${error?.message ?? error}`);
+            return;
+        }
+        const avdlist: AVD[] = await this.manager.avd.getAVDList(true) ?? [];
+        const newName = avdlist.some(avd => avd.name === name)
+            ? await this.askNewAVDName(`An AVD named ${name} already exists. Import it as:`, `${name}_imported`)
+            : name;
+        if (!newName) {
+            return;
+        }
+        await this.transferAction(`Importing ${newName}`, `import ${newName}`, async (progress) => {
+            const missingImage = await this.manager.avd.importAVD(zipPath, newName, progress);
+            if (missingImage) {
+                showMsg(MsgType.warning, `${newName} imported, but its system image is not installed. Install ${missingImage} with the SDK Manager before launching it.`);
+            } else {
+                showMsg(MsgType.info, `${newName} imported`);
+            }
+        });
+    }
 
+    async cleanupDiag(avd: AVD | undefined, cleanup: AVDCleanup, title: string) {
+        let target = avd ?? await this.askAVD();
         if (!target) {
             return;
         }
+        if (this.manager.deviceTracker.findByAvdName(target.name)) {
+            showMsg(MsgType.info, `Stop ${target.name} first. The running emulator holds its disk images.`);
+            return;
+        }
+        try {
+            const plan = await this.storage.plan(target, cleanup);
+            const lines = plan.files.map(f => `${f.rel}  ${formatSize(f.diskBytes)}`);
+            if (await this.confirmCleanup(`${title} of ${target.name}`, lines, plan.bytes)) {
+                await this.storage.apply(plan);
+                showMsg(MsgType.info, `Freed ${formatSize(plan.bytes)} from ${target.name}`);
+            }
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[AVD Storage] ${target.name}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${title.toLowerCase()} of ${target.name}: ${message}`);
+        }
+        this.provider.refresh();
+    }
 
-        //get new name
-        let avdlist = await this.manager.avd.getAVDList();
-        const newAvdName = await vscode.window.showInputBox({
-            title: `Rename AVD ${target}:`,
+    async cleanupUnusedDiag() {
+        const input = await vscode.window.showInputBox({
+            title: "Delete AVDs unused for how many days?",
+            value: "30",
+            validateInput: (value) => /^\d+$/.test(value) && parseInt(value, 10) > 0 ? null : "Enter a number of days",
+        });
+        if (!input) {
+            return;
+        }
+        const days = parseInt(input, 10);
+        const unused = await this.storage.unused(days);
+        if (unused.length === 0) {
+            showMsg(MsgType.info, `No AVD has been unused for ${days} days.`);
+            return;
+        }
+        const picks = await vscode.window.showQuickPick(
+            unused.map(u => ({
+                label: u.avd.name,
+                description: `${formatSize(u.usage.total)} | last used ${u.usage.lastUsed?.toLocaleDateString()}`,
+                picked: true,
+                unused: u,
+            })),
+            { title: `AVDs unused for ${days} days`, placeHolder: "Select the AVDs to delete", canPickMany: true },
+        );
+        if (!picks?.length) {
+            return;
+        }
+        const bytes = picks.reduce((sum, p) => sum + p.unused.usage.total, 0);
+        const lines = picks.map(p => `${p.label}  ${formatSize(p.unused.usage.total)}, last used ${p.unused.usage.lastUsed?.toLocaleString()}`);
+        if (!await this.confirmCleanup(`Delete ${picks.length} unused AVD${picks.length === 1 ? "" : "s"}`, lines, bytes)) {
+            return;
+        }
+        let freed = 0;
+        const failed: string[] = [];
+        for (const pick of picks) {
+            try {
+                await this.manager.avd.deleteAVD(pick.label);
+                freed += pick.unused.usage.total;
+            } catch (error: any) {
+                failed.push(pick.label);
+                this.manager.output.append(`[AVD Storage] ${pick.label}: ${error?.message ?? String(error)}`, 'error');
+            }
+        }
+        await this.manager.avd.getAVDList(true); //reload cache
+
+        const deleted = picks.length - failed.length;
+        if (failed.length === 0) {
+            showMsg(MsgType.info, `Deleted ${deleted} AVD${deleted === 1 ? "" : "s"}, freed ${formatSize(freed)}`);
+        } else {
+            showMsg(MsgType.error, `Deleted ${deleted} of ${picks.length} AVDs (freed ${formatSize(freed)}). Failed to delete ${failed.join(", ")}. See Output for details.`);
+        }
+    }
+
+    /** Runs an action on the emulator of a running AVD (picking one from the palette). */
+    private async runningAction(avd: AVD | undefined, action: string, task: (avd: AVD, serial: string) => Thenable<void>) {
+        let target = avd ?? await this.askAVD();
+        if (!target) {
+            return;
+        }
+        const device = this.manager.deviceTracker.findByAvdName(target.name);
+        if (!device) {
+            showMsg(MsgType.info, `${target.name} is not running.`);
+            return;
+        }
+        try {
+            await task(target, device.serial);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[AVD] ${target.name}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action} ${target.name}: ${message}`);
+        }
+        this.provider.refresh();
+    }
+
+    /** Resolves true once no emulator is attached for `avdName`, false on timeout. */
+    private waitForStop(avdName: string): Promise<boolean> {
+        const tracker = this.manager.deviceTracker;
+        return new Promise((resolve) => {
+            const finish = (stopped: boolean) => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(stopped);
+            };
+            const listener = tracker.onDidChangeDevices(() => {
+                if (!tracker.findByAvdName(avdName)) {
+                    finish(true);
+                }
+            });
+            const timer = setTimeout(() => finish(!tracker.findByAvdName(avdName)), STOP_TIMEOUT_MS);
+            if (!tracker.findByAvdName(avdName)) {
+                finish(true);
+            }
+        });
+    }
+
+    /** Dry run: lists what would be deleted (in full in the Output channel) and asks to go ahead. */
+    private async confirmCleanup(title: string, lines: string[], bytes: number): Promise<boolean> {
+        if (lines.length === 0) {
+            showMsg(MsgType.info, `${title}: nothing to delete.`);
+            return false;
+        }
+        this.manager.output.append(`[AVD Storage] Dry run, ${title}, ${formatSize(bytes)}:\n  ${lines.join("\n  ")}`);
+        const shown = lines.slice(0, 15);
+        if (lines.length > shown.length) {
+            shown.push(`...and ${lines.length - shown.length} more (see Output)`);
+        }
+        const ans = await showMsg(MsgType.warning, `${title}? This frees ${formatSize(bytes)}.`,
+            { modal: true, detail: shown.join("\n") }, "Delete");
+        return ans === "Delete";
+    }
+
+    private async askAVD(): Promise<AVD | undefined> {
+        const selected = await showQuickPick(this.getAVDQuickPickItems(), { placeHolder: "Select AVD" },
+            "No AVD Found. Please create AVD first.",
+            "No AVD selected");
+        return (selected as AVDQuickPickItem)?.avd;
+    }
+
+    private async askNewAVDName(title: string, value: string): Promise<string | undefined> {
+        const avdlist: AVD[] = await this.manager.avd.getAVDList() ?? [];
+        return vscode.window.showInputBox({
+            title,
+            value,
             placeHolder: "Enter a new AVD name. (Must be unique)",
             validateInput: (name) => {
                 if (name.match(/[^a-zA-Z0-9_]/)) {
                     return `${name} is invalid! Must be [a-zA-Z0-9_]`;
                 } else if (name.trim() === "") {
                     return "Can't be blank!";
-                } else if (avdlist.filter((avd: AVD) => avd.name === name).length > 0) {
-                    return `${name} already exits!`;
-                } else {
-                    return null;
+                } else if (avdlist.some(avd => avd.name === name)) {
+                    return `${name} already exists!`;
                 }
+                return null;
             },
         });
-        if (!newAvdName) {
-            showMsg(MsgType.info, "The new AVD cannot be blank.");
-            return;
-        }
+    }
 
-        await this.manager.avd.renameAVD(target, newAvdName);
-        await this.manager.avd.getAVDList(true); //reload cache
+    private async askCopyOptions(title: string, withSnapshots: boolean): Promise<AVDCopyOptions | undefined> {
+        const items = [
+            { label: "Configuration only", description: "Boots like a new device", options: { userData: false, snapshots: false } },
+            { label: "Configuration and user data", description: "Installed apps, app data and SD card", options: { userData: true, snapshots: false } },
+            ...(withSnapshots
+                ? [{ label: "Configuration, user data and snapshots", description: "Everything but runtime files", options: { userData: true, snapshots: true } }]
+                : []),
+        ];
+        return (await vscode.window.showQuickPick(items, { title, placeHolder: "What to include" }))?.options;
     }
 
+    /** User data of a running emulator is still being written; copying it needs the AVD stopped. */
+    private checkStopped(avd: AVD, options: AVDCopyOptions): boolean {
+        if ((options.userData || options.snapshots) && this.manager.deviceTracker.findByAvdName(avd.name)) {
+            showMsg(MsgType.info, `Stop ${avd.name} before copying its user data.`);
+            return false;
+        }
+        return true;
+    }
 
-    async deleteAVDDiag(avdname: string | undefined) {
-        let target = avdname ?? await this.askAVDName();
+    private async transferAction(title: string, action: string, task: (progress: vscode.Progress<{ message?: string }>) => Promise<void>) {
+        try {
+            await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title }, task);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[AVD] Failed to ${action}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action}: ${message}`);
+        }
+    }
 
-        const ans = await showYesNoQuickPick(`Are you sure to delete AVD ${target}?`);
+    private async askSnapshotName(avd: AVD): Promise<string | undefined> {
+        const existing = (await this.snapshots.list(avd)).map(s => s.name);
+        const now = new Date();
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return vscode.window.showInputBox({
+            title: `Save snapshot of ${avd.name}`,
+            value: `snap_${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}_${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+            validateInput: (name) => {
+                if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+                    return "Use letters, digits, '.', '_' and '-' only";
+                }
+                return existing.includes(name) ? `${name} already exists and would be overwritten` : null;
+            },
+        });
+    }
 
-        if (ans === "Yes" && target) {
-            await this.manager.avd.deleteAVD(target);
+    /** Runs a snapshot command for a tree node, then refreshes its snapshots. */
+    private async snapshotAction(avd: AVD | undefined, action: string, task: (avd: AVD) => Promise<void>) {
+        if (!avd) {
+            showMsg(MsgType.info, "Select an AVD or snapshot in the Android Virtual Device view.");
+            return;
         }
-        await this.manager.avd.getAVDList(true); //reload cache
+        try {
+            await task(avd);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Snapshots] ${avd.name}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action} ${avd.name}: ${message}`);
+        }
+        this.provider.refresh();
     }
 
-
-    async launchAVDDiag(avdname: string | undefined) {
+    async launchAVDDiag(avdname: string | undefined, pickProfile: boolean = false) {
         let target = avdname ?? await this.askAVDName();
-        if (target) {
-            await this.manager.avd.launchEmulator(target);
+        if (!target) {
+            return;
+        }
+        let profile = pickProfile ? await this.launchProfiles.pick(target) : this.launchProfiles.selected(target);
+        if (profile !== false) {
+            await this.manager.avd.launchEmulator(target, toCommandLine(this.launchProfiles.argsFor(target, profile)));
         }
     }
 
 
 }
 
-type TreeItem = AVDTreeItem;
+type TreeItem = AVDGroupItem | AVDTreeItem | SnapshotTreeItem | SnapshotMessageItem;
 class AVDTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
-    constructor(private manager: Manager) { }
+    constructor(
+        private manager: Manager,
+        private selectedDevice: SelectedDeviceService,
+        private snapshots: SnapshotService,
+        private launchProfiles: LaunchProfileService,
+        private storage: AVDStorageService,
+    ) { }
 
 
     getTreeItem(element: TreeItem): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: TreeItem): Thenable<TreeItem[]> {
-
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (element instanceof AVDGroupItem) {
+            return element.items;
+        }
+        if (element instanceof AVDTreeItem) {
+            const running = !!this.snapshots.runningSerial(element.avd.name);
+            const snapshots = await this.snapshots.list(element.avd);
+            return snapshots.length > 0
+                ? snapshots.map(snapshot => new SnapshotTreeItem(element.avd, snapshot, running))
+                : [new SnapshotMessageItem("No snapshots")];
+        }
+        if (element) {
+            return [];
+        }
 
-        return this.manager.avd.getAVDList().then((avds) => {
-            let list: AVDTreeItem[] = [];
+        const selectedId = this.selectedDevice.targetId;
+        return this.manager.avd.getAVDList().then(async (avds) => {
             if (!avds) {
                 return [];
             }
-            avds.forEach((avd: AVD) => {
-                if (avd.name && avd.name !== "") {
-                    list.push(new AVDTreeItem(avd, vscode.TreeItemCollapsibleState.None));
-                }
-            });
-            return list;
+            const named = (avds as AVD[]).filter(avd => avd.name && avd.name !== "");
+            const entries = await Promise.all(named.map(async (avd) => {
+                const [usage, config] = await Promise.all([this.storage.usage(avd), this.manager.avd.readAVDConfig(avd)]);
+                const item = new AVDTreeItem(avd, vscode.TreeItemCollapsibleState.Collapsed, avdTargetId(avd.name) === selectedId,
+                    this.launchProfiles.selected(avd.name)?.name, usage, this.manager.deviceTracker.findByAvdName(avd.name));
+                return { item, config };
+            }));
+            return groupAVDItems(entries, this.manager.getConfig().avdGroupBy);
         });
 
     }
@@ -244,14 +647,29 @@ class AVDTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
 export class AVDTreeItem extends vscode.TreeItem {
     constructor(
         public readonly avd: AVD,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly selected: boolean = false,
+        public readonly launchProfile?: string,
+        public readonly usage?: AVDDiskUsage,
+        public readonly device?: TrackedDevice,
     ) {
 
         super(avd.name, collapsibleState);
+        const running = device?.state === 'device';
+        if (selected) {
+            this.iconPath = new vscode.ThemeIcon('pass-filled');
+        } else if (device) {
+            this.iconPath = new vscode.ThemeIcon(running ? 'vm-running' : 'loading~spin');
+        }
+        if (device) {
+            this.contextValue = "avd-running";
+        }
 
-        this.description = avd.basedOn + " | " + avd.tagAbi;
+        this.description = (device ? device.serial + " | " : "") + avd.basedOn + " | " + avd.tagAbi + (launchProfile ? " | " + launchProfile : "")
+            + (usage?.total ? " | " + formatSize(usage.total) : "");
 
         let infos = [
+            { name: "State", value: device ? `${running ? "Running" : "Starting"} (${device.serial})` : "Stopped" },
             { name: "Device", value: avd.device },
             { name: "Path", value: avd.path },
             { name: "Target", value: avd.target },
@@ -259,6 +677,9 @@ export class AVDTreeItem extends vscode.TreeItem {
             { name: "Tag/ABI", value: avd.tagAbi },
             { name: "Skin", value: avd.skin },
             { name: "Sdcard", value: avd.sdCard },
+            { name: "Launch profile", value: launchProfile },
+            { name: "Disk usage", value: usage?.total ? formatUsage(usage) : undefined },
+            { name: "Last used", value: usage?.lastUsed?.toLocaleString() },
         ];
         let tooltip = "";
         infos.forEach(element => {
@@ -271,3 +692,101 @@ export class AVDTreeItem extends vscode.TreeItem {
     contextValue = "avd";
     iconPath = new vscode.ThemeIcon('device-mobile');
 }
+
+/** What the AVD view shows of running emulators: AVD, serial and whether it has booted. */
+function runningAVDsKey(devices: TrackedDevice[]): string {
+    return devices.filter(d => d.avdName).map(d => `${d.avdName}|${d.serial}|${d.state}`).sort().join("\n");
+}
+
+/** Group header in the AVD view when `android-studio-lite.avdGroupBy` is set. */
+export class AVDGroupItem extends vscode.TreeItem {
+    constructor(label: string, public readonly items: AVDTreeItem[]) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `avd-group:${label}`;
+        const running = items.filter(item => item.device).length;
+        this.description = `${items.length}` + (running ? `, ${running} running` : "");
+        this.contextValue = "avd-group";
+    }
+}
+
+function groupAVDItems(entries: { item: AVDTreeItem; config: Record<string, string> }[], groupBy: AVDGroupBy): TreeItem[] {
+    if (groupBy === "none") {
+        return entries.map(e => e.item);
+    }
+    const keyOf = ({ item, config }: typeof entries[number]): string => {
+        switch (groupBy) {
+            case "apiLevel": {
+                const api = avdApiLevel(config);
+                return api ? `API ${api}` : "Unknown API level";
+            }
+            case "abi":
+                return config["abi.type"] ?? item.avd.tagAbi?.split("/").pop() ?? "Unknown ABI";
+            case "deviceType":
+                return avdDeviceType(config);
+        }
+    };
+    const groups = new Map<string, AVDTreeItem[]>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        groups.set(key, [...(groups.get(key) ?? []), entry.item]);
+    }
+    const rank = (key: string): number => {
+        switch (groupBy) {
+            case "apiLevel": {
+                // Newest first; previews (codenames) above numbered levels, unknown last
+                const api = key.replace(/^API /, "");
+                return key.startsWith("API ") ? (/^\d+$/.test(api) ? -parseInt(api, 10) : -Infinity) : Infinity;
+            }
+            case "deviceType":
+                return AVD_DEVICE_TYPES.indexOf(key as typeof AVD_DEVICE_TYPES[number]);
+            default:
+                return 0;
+        }
+    };
+    return [...groups.entries()]
+        .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+        .map(([key, items]) => new AVDGroupItem(key, items));
+}
+
+/** Total, then the parts worth cleaning up. */
+function formatUsage(usage: AVDDiskUsage): string {
+    const parts = [
+        { name: "user data", bytes: usage.byKind.userData },
+        { name: "snapshots", bytes: usage.byKind.snapshots },
+        { name: "cache", bytes: usage.byKind.cache },
+        { name: "SD card", bytes: usage.byKind.sdCard },
+    ].filter(p => p.bytes > 0);
+    return formatSize(usage.total) + (parts.length ? ` (${parts.map(p => `${p.name} ${formatSize(p.bytes)}`).join(", ")})` : "");
+}
+
+export class SnapshotTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly avd: AVD,
+        public readonly snapshot: AvdSnapshot,
+        running: boolean,
+    ) {
+        super(snapshot.name, vscode.TreeItemCollapsibleState.None);
+
+        this.description = [
+            snapshot.date?.toLocaleString(),
+            snapshot.sizeBytes ? formatSize(snapshot.sizeBytes) : undefined,
+        ].filter(Boolean).join(" | ");
+
+        let infos = [
+            { name: "Snapshot", value: snapshot.name },
+            { name: "Saved", value: snapshot.date?.toLocaleString() },
+            { name: "Size", value: snapshot.sizeBytes ? formatSize(snapshot.sizeBytes) : undefined },
+            { name: "Path", value: snapshot.path },
+        ];
+        this.tooltip = infos.filter(i => i.value).map(i => `${i.name}: ${i.value}`).join("\n");
+        this.contextValue = running ? "avd-snapshot-running" : "avd-snapshot";
+        this.iconPath = new vscode.ThemeIcon('history');
+    }
+}
+
+export class SnapshotMessageItem extends vscode.TreeItem {
+    constructor(message: string) {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon('info');
+    }
+}
@@ -43,7 +43,9 @@ export class BuildVariantTreeView {
         ];
 
         // Refresh when workspace folders change (e.g. user opened a folder)
+        // or a variant is picked here or from the status bar
         subscriptions.push(
+            this.manager.buildVariant.onDidChangeSelectedVariant(() => this.provider.refresh()),
             vscode.workspace.onDidChangeWorkspaceFolders(() => {
                 this.provider.refresh();
             }),
@@ -134,7 +136,6 @@ export class BuildVariantTreeView {
         if (selected && typeof selected !== 'boolean') {
             const buildVariant = (selected as BuildVariantQuickPickItem).buildVariant;
             await this.saveSelectedBuildVariant(this.provider.context, moduleName, buildVariant.name);
-            this.provider.refresh();
         }
     }
 
@@ -143,20 +144,11 @@ export class BuildVariantTreeView {
         moduleName: string,
         variantName: string
     ) {
-        const selectedVariants = context.workspaceState.get<Record<string, string>>(
-            SELECTED_BUILD_VARIANTS_KEY,
-            {}
-        );
-        selectedVariants[moduleName] = variantName;
-        await context.workspaceState.update(SELECTED_BUILD_VARIANTS_KEY, selectedVariants);
+        await this.manager.buildVariant.setSelectedVariant(context, moduleName, variantName);
     }
 
     getSelectedBuildVariant(context: vscode.ExtensionContext, moduleName: string): string | undefined {
-        const selectedVariants = context.workspaceState.get<Record<string, string>>(
-            SELECTED_BUILD_VARIANTS_KEY,
-            {}
-        );
-        return selectedVariants[moduleName];
+        return this.manager.buildVariant.getSelectedVariant(context, moduleName);
     }
 }
 
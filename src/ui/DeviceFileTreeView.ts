@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showMsg, MsgType, showYesNoQuickPick } from '../module/ui';
+import { subscribe } from '../module/';
+import { formatSize } from '../module/util';
+import { adbfsUri } from '../device/AdbFileSystemProvider';
+import type { DeviceFile, DeviceFileSystem } from '../device/DeviceFileSystem';
+import type { TrackedDevice } from '../device/DeviceTracker';
+
+/** Shortcuts shown under each device, before "App data" and the root folder. */
+const SHORTCUT_FOLDERS = ['/sdcard', '/data/local/tmp'];
+
+/**
+ * Browse device storage: lazy directory listing, files opened read-only via
+ * `adbfs://`, upload (commands or drag and drop from the Explorer), download,
+ * delete and new folder.
+ */
+export class DeviceFileTreeView {
+    readonly provider: DeviceFileTreeDataProvider;
+
+    constructor(context: vscode.ExtensionContext, private manager: Manager, private files: DeviceFileSystem) {
+        this.provider = new DeviceFileTreeDataProvider(this.manager, this.files);
+
+        const view = vscode.window.createTreeView('android-studio-lite-files', {
+            treeDataProvider: this.provider,
+            dragAndDropController: new DeviceFileDropController(this),
+            canSelectMany: false,
+        });
+
+        subscribe(context, [
+            view,
+
+            this.manager.deviceTracker.onDidChangeDevices(() => this.provider.refresh()),
+
+            vscode.commands.registerCommand('android-studio-lite.device-files-refresh', () => this.provider.refresh()),
+            vscode.commands.registerCommand('android-studio-lite.device-file-open', async (node?: DeviceFileTreeItem) => {
+                if (node) {
+                    await vscode.commands.executeCommand('vscode.open', adbfsUri(node.serial, node.file.path));
+                }
+            }),
+            vscode.commands.registerCommand('android-studio-lite.device-file-download', (node?: DeviceFileTreeItem) =>
+                this.withFile(node, 'download', (n) => this.download(n))),
+            vscode.commands.registerCommand('android-studio-lite.device-file-upload', (node?: DeviceFileTreeItem) =>
+                this.withFile(node, 'upload to', async (n) => {
+                    const picked = await vscode.window.showOpenDialog({
+                        canSelectFiles: true,
+                        canSelectFolders: false,
+                        canSelectMany: true,
+                        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                        openLabel: 'Upload',
+                    });
+                    if (picked && picked.length > 0) {
+                        await this.upload(n.serial, n.file.path, picked.map(uri => uri.fsPath));
+                    }
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-file-delete', (node?: DeviceFileTreeItem) =>
+                this.withFile(node, 'delete', async (n) => {
+                    const answer = await showYesNoQuickPick(`Delete ${n.file.path} from ${n.serial}?`);
+                    if (answer !== 'Yes') {
+                        return;
+                    }
+                    await this.files.delete(n.serial, n.file.path);
+                    this.manager.output.append(`[Files] Deleted ${n.serial}:${n.file.path}`);
+                    this.provider.refresh();
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-file-new-folder', (node?: DeviceFileTreeItem) =>
+                this.withFile(node, 'create a folder in', async (n) => {
+                    const name = await vscode.window.showInputBox({
+                        prompt: `New folder in ${n.file.path}`,
+                        validateInput: (value) => !value.trim() || value.includes('/') ? 'Enter a folder name' : null,
+                    });
+                    if (!name) {
+                        return;
+                    }
+                    await this.files.mkdir(n.serial, nodePath.posix.join(n.file.path, name.trim()));
+                    this.provider.refresh();
+                })),
+        ]);
+    }
+
+    /** Copies local files and folders into a device directory. */
+    async upload(serial: string, remoteDir: string, localPaths: string[]): Promise<void> {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Uploading to ${serial}:${remoteDir}` },
+            async (progress) => {
+                const uploadOne = async (localPath: string, targetDir: string): Promise<void> => {
+                    const remotePath = nodePath.posix.join(targetDir, nodePath.basename(localPath));
+                    const stat = await fs.promises.stat(localPath);
+                    if (stat.isDirectory()) {
+                        await this.files.mkdir(serial, remotePath);
+                        for (const child of await fs.promises.readdir(localPath)) {
+                            await uploadOne(nodePath.join(localPath, child), remotePath);
+                        }
+                        return;
+                    }
+                    progress.report({ message: nodePath.basename(localPath) });
+                    await this.files.write(serial, remotePath, await fs.promises.readFile(localPath));
+                    this.manager.output.append(`[Files] ${localPath} -> ${serial}:${remotePath}`);
+                };
+                for (const localPath of localPaths) {
+                    await uploadOne(localPath, remoteDir);
+                }
+            },
+        );
+        this.provider.refresh();
+    }
+
+    /** Saves a file (or a whole folder) from the device, defaulting to the workspace folder. */
+    private async download(node: DeviceFileTreeItem): Promise<void> {
+        const workspaceUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const name = node.file.name === '/' ? node.serial.replace(/[^\w.-]/g, '_') : node.file.name;
+
+        let destination: string | undefined;
+        if (node.isDirectory) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                defaultUri: workspaceUri,
+                openLabel: `Download ${name} here`,
+            });
+            destination = picked?.[0] ? nodePath.join(picked[0].fsPath, name) : undefined;
+        } else {
+            const picked = await vscode.window.showSaveDialog({
+                defaultUri: workspaceUri ? vscode.Uri.joinPath(workspaceUri, name) : undefined,
+            });
+            destination = picked?.fsPath;
+        }
+        if (!destination) {
+            return;
+        }
+
+        const target = destination;
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Downloading ${node.file.path}` },
+            async (progress) => {
+                const downloadOne = async (file: DeviceFile, localPath: string): Promise<void> => {
+                    if (file.type === 'directory') {
+                        await fs.promises.mkdir(localPath, { recursive: true });
+                        for (const child of await this.files.list(node.serial, file.path)) {
+                            await downloadOne(child, nodePath.join(localPath, child.name));
+                        }
+                        return;
+                    }
+                    if (file.type !== 'file') {
+                        // Nested symlinks and special files are skipped rather than followed
+                        return;
+                    }
+                    progress.report({ message: file.name });
+                    await fs.promises.writeFile(localPath, await this.files.read(node.serial, file.path));
+                };
+                await downloadOne(node.isDirectory ? { ...node.file, type: 'directory' } : node.file, target);
+            },
+        );
+        this.manager.output.append(`[Files] ${node.serial}:${node.file.path} -> ${target}`);
+        showMsg(MsgType.info, `Downloaded ${node.file.path} to ${target}`);
+    }
+
+    private async withFile(
+        node: DeviceFileTreeItem | undefined,
+        action: string,
+        run: (node: DeviceFileTreeItem) => Promise<void>,
+    ): Promise<void> {
+        if (!node) {
+            showMsg(MsgType.info, `Select a file or folder in the Device Files view to ${action}.`);
+            return;
+        }
+        try {
+            await run(node);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Files] ${node.serial}:${node.file.path}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action} ${node.file.path}: ${message}`);
+        }
+    }
+}
+
+/** Accepts files and folders dragged from the Explorer (or the OS) onto a device folder. */
+class DeviceFileDropController implements vscode.TreeDragAndDropController<TreeItem> {
+    readonly dropMimeTypes = ['text/uri-list'];
+    readonly dragMimeTypes: string[] = [];
+
+    constructor(private view: DeviceFileTreeView) { }
+
+    async handleDrop(target: TreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        if (!(target instanceof DeviceFileTreeItem)) {
+            return;
+        }
+        const uriList = await dataTransfer.get('text/uri-list')?.asString();
+        if (!uriList) {
+            return;
+        }
+        const localPaths = uriList.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'))
+            .map(line => vscode.Uri.parse(line))
+            .filter(uri => uri.scheme === 'file')
+            .map(uri => uri.fsPath);
+        if (localPaths.length === 0) {
+            return;
+        }
+        const remoteDir = target.isDirectory ? target.file.path : nodePath.posix.dirname(target.file.path);
+        try {
+            await this.view.upload(target.serial, remoteDir, localPaths);
+        } catch (error: any) {
+            showMsg(MsgType.error, `Upload failed: ${error?.message ?? error}`);
+        }
+    }
+}
+
+type TreeItem = DeviceFileDeviceItem | DeviceFileTreeItem | AppDataTreeItem | DeviceFileMessageItem;
+class DeviceFileTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
+    constructor(private manager: Manager, private files: DeviceFileSystem) { }
+
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (!element) {
+            return this.manager.deviceTracker.devices
+                .filter(device => device.state === 'device')
+                .map(device => new DeviceFileDeviceItem(device));
+        }
+        try {
+            if (element instanceof DeviceFileDeviceItem) {
+                const serial = element.device.serial;
+                return [
+                    ...SHORTCUT_FOLDERS.map(path => new DeviceFileTreeItem(serial, folder(path), path)),
+                    new AppDataTreeItem(serial),
+                    new DeviceFileTreeItem(serial, folder('/'), '/'),
+                ];
+            }
+            if (element instanceof AppDataTreeItem) {
+                const packages = await this.manager.adb.listPackages(element.serial, true);
+                return packages.map(pkg => new DeviceFileTreeItem(element.serial, folder(`/data/data/${pkg}`), pkg));
+            }
+            if (element instanceof DeviceFileTreeItem && element.isDirectory) {
+                const children = await this.files.list(element.serial, element.file.path);
+                return children
+                    .sort((a, b) => Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name))
+                    .map(file => new DeviceFileTreeItem(element.serial, file));
+            }
+        } catch (error: any) {
+            return [new DeviceFileMessageItem(error?.message ?? String(error))];
+        }
+        return [];
+    }
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+function folder(path: string): DeviceFile {
+    return { name: nodePath.posix.basename(path) || '/', path, type: 'directory', size: 0, mtime: 0 };
+}
+
+export class DeviceFileDeviceItem extends vscode.TreeItem {
+    constructor(public readonly device: TrackedDevice) {
+        super(device.avdName || device.model?.replace(/_/g, ' ') || device.serial, vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = device.serial;
+        this.contextValue = 'device-files-device';
+        this.iconPath = new vscode.ThemeIcon(device.avdName ? 'vm' : 'device-mobile');
+    }
+}
+
+export class AppDataTreeItem extends vscode.TreeItem {
+    constructor(public readonly serial: string) {
+        super('App data', vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = 'run-as';
+        this.tooltip = 'Private files of installed apps. Only debuggable apps can be browsed.';
+        this.contextValue = 'device-files-apps';
+        this.iconPath = new vscode.ThemeIcon('package');
+    }
+}
+
+export class DeviceFileTreeItem extends vscode.TreeItem {
+    /** Symlinks are expandable too; listing fails harmlessly if they point at a file. */
+    readonly isDirectory: boolean;
+
+    constructor(
+        public readonly serial: string,
+        public readonly file: DeviceFile,
+        label?: string,
+    ) {
+        super(label ?? file.name, file.type === 'directory' || file.type === 'symlink'
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None);
+
+        this.isDirectory = file.type === 'directory' || file.type === 'symlink';
+        this.resourceUri = adbfsUri(serial, file.path);
+        this.contextValue = this.isDirectory ? 'device-folder' : 'device-file';
+
+        let infos = [
+            { name: "Path", value: file.path },
+            { name: "Type", value: file.type },
+            { name: "Size", value: file.type === 'file' ? formatSize(file.size) : undefined },
+            { name: "Modified", value: file.mtime ? new Date(file.mtime * 1000).toLocaleString() : undefined },
+        ];
+        let tooltip = "";
+        infos.forEach(element => {
+            if (element.value) {
+                tooltip += (tooltip.length === 0 ? "" : "\n") + `${element.name}: ${element.value}`;
+            }
+        });
+        this.tooltip = tooltip;
+
+        if (file.type === 'file') {
+            this.description = formatSize(file.size);
+            this.command = { command: 'android-studio-lite.device-file-open', title: 'Open', arguments: [this] };
+        } else if (file.type === 'symlink') {
+            this.iconPath = new vscode.ThemeIcon('file-symlink-directory');
+        } else if (label && label !== file.name) {
+            this.description = file.path;
+        }
+    }
+}
+
+export class DeviceFileMessageItem extends vscode.TreeItem {
+    constructor(message: string) {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = message;
+        this.iconPath = new vscode.ThemeIcon('warning');
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showQuickPick } from '../module/ui';
+import { subscribe } from '../module/';
+import type { RunTarget } from '../device/RunTarget';
+import type { AppRunService } from '../service/AppRunService';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService';
+
+/**
+ * Status bar items for the selected device, the module/build variant that Run
+ * uses, and a Run / Cancel button. Each item opens the matching quick pick.
+ */
+export class DeviceStatusBar {
+    private readonly deviceItem: vscode.StatusBarItem;
+    private readonly variantItem: vscode.StatusBarItem;
+    private readonly runItem: vscode.StatusBarItem;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private manager: Manager,
+        private selectedDevice: SelectedDeviceService,
+        private appRun: AppRunService,
+    ) {
+        this.deviceItem = vscode.window.createStatusBarItem('android-studio-lite.device', vscode.StatusBarAlignment.Left, 100);
+        this.deviceItem.name = 'Android Device';
+        this.deviceItem.command = 'android-studio-lite.selectEmulator';
+
+        this.variantItem = vscode.window.createStatusBarItem('android-studio-lite.variant', vscode.StatusBarAlignment.Left, 99);
+        this.variantItem.name = 'Android Build Variant';
+        this.variantItem.command = 'android-studio-lite.selectBuildVariant';
+
+        this.runItem = vscode.window.createStatusBarItem('android-studio-lite.run', vscode.StatusBarAlignment.Left, 98);
+        this.runItem.name = 'Android Run';
+
+        const update = () => void this.update();
+        subscribe(context, [
+            this.deviceItem,
+            this.variantItem,
+            this.runItem,
+            this.selectedDevice.onDidChangeSelection(update),
+            this.manager.deviceTracker.onDidChangeDevices(update),
+            this.manager.buildVariant.onDidChangeSelectedVariant(update),
+            this.appRun.onDidChangeSelectedModule(update),
+            this.appRun.onDidChangeBooting(update),
+            this.appRun.onDidStartRun(update),
+            this.appRun.onDidEndRun(update),
+            vscode.workspace.onDidChangeWorkspaceFolders(update),
+
+            vscode.commands.registerCommand('android-studio-lite.selectBuildVariant', this.selectBuildVariant),
+            vscode.commands.registerCommand('android-studio-lite.cancelRun', () => this.appRun.cancel()),
+        ]);
+
+        update();
+    }
+
+    selectBuildVariant = async () => {
+        const modules = await this.applicationModules();
+        let moduleName = modules.length === 1 ? modules[0] : undefined;
+        if (!moduleName) {
+            const selected = await showQuickPick(
+                Promise.resolve(modules.map(m => ({
+                    label: m,
+                    description: this.manager.buildVariant.getSelectedVariant(this.context, m),
+                    picked: m === this.appRun.selectedModule,
+                }))),
+                { placeHolder: "Select module to run", canPickMany: false },
+                "No application modules found.",
+            );
+            if (selected === false) {
+                return;
+            }
+            moduleName = (selected as vscode.QuickPickItem).label;
+        }
+        this.appRun.setSelectedModule(moduleName);
+        await vscode.commands.executeCommand('android-studio-lite.buildvariant-select', moduleName);
+    };
+
+    private async applicationModules(): Promise<string[]> {
+        if (!this.manager.buildVariant.isAndroidProject()) {
+            return [];
+        }
+        try {
+            const modules = await this.manager.buildVariant.getModuleBuildVariants(this.context);
+            return modules.filter(m => m.type === 'application').map(m => m.module);
+        } catch {
+            return [];
+        }
+    }
+
+    private async update(): Promise<void> {
+        this.updateDevice(await this.selectedDevice.getTarget());
+        await this.updateVariant();
+        this.updateRun();
+    }
+
+    private updateDevice(target: RunTarget | undefined): void {
+        if (!target) {
+            const id = this.selectedDevice.targetId;
+            this.deviceItem.text = id?.startsWith('device:')
+                ? `$(debug-disconnect) ${id.slice('device:'.length)}`
+                : '$(device-mobile) No device';
+            this.deviceItem.tooltip = id ? 'Selected device is disconnected. Click to select another.' : 'Select a device to run on';
+            this.deviceItem.show();
+            return;
+        }
+
+        let icon: string;
+        let state: string;
+        if (target.avdName && this.appRun.isBooting(target.avdName)) {
+            icon = '$(sync~spin)';
+            state = 'booting';
+        } else if (target.state === 'device') {
+            icon = '$(device-mobile)';
+            state = 'online';
+        } else if (target.state) {
+            icon = '$(warning)';
+            state = target.state;
+        } else {
+            icon = '$(circle-outline)';
+            state = 'not running';
+        }
+        this.deviceItem.text = `${icon} ${target.label}`;
+        this.deviceItem.tooltip = `${target.label} (${state})\n${target.description}${target.serial ? `\n${target.serial}` : ''}\nClick to select another device`;
+        this.deviceItem.show();
+    }
+
+    private async updateVariant(): Promise<void> {
+        const modules = await this.applicationModules();
+        if (modules.length === 0) {
+            this.variantItem.hide();
+            return;
+        }
+        const selected = this.appRun.selectedModule;
+        const moduleName = selected && modules.includes(selected) ? selected : modules[0];
+        const variant = this.manager.buildVariant.getSelectedVariant(this.context, moduleName) ?? await this.defaultVariant(moduleName);
+        this.variantItem.text = `$(tools) ${moduleName}${variant ? `: ${variant}` : ''}`;
+        this.variantItem.tooltip = 'Module and build variant used by Run. Click to change.';
+        this.variantItem.show();
+    }
+
+    private async defaultVariant(moduleName: string): Promise<string | undefined> {
+        const modules = await this.manager.buildVariant.getModuleBuildVariants(this.context);
+        return modules.find(m => m.module === moduleName)?.variants?.[0]?.name;
+    }
+
+    private updateRun(): void {
+        if (!this.manager.buildVariant.isAndroidProject()) {
+            this.runItem.hide();
+            return;
+        }
+        if (this.appRun.isRunning) {
+            this.runItem.text = '$(debug-stop) Cancel';
+            this.runItem.tooltip = 'Cancel the current build';
+            this.runItem.command = 'android-studio-lite.cancelRun';
+        } else {
+            this.runItem.text = '$(play) Run';
+            this.runItem.tooltip = 'Build, install and launch on the selected device';
+            this.runItem.command = 'android-studio-lite.runApp';
+        }
+        this.runItem.show();
+    }
+}
@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showMsg, MsgType, showQuickPick } from '../module/ui';
+import { subscribe } from '../module/';
+import { openDeviceShell } from '../device/AdbShellTerminal';
+import { connectionType, listRunTargets } from '../device/RunTarget';
+import { LogcatService } from '../service/LogcatService';
+import type { TrackedDevice } from '../device/DeviceTracker';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService';
+import type { ScreenCaptureService } from '../service/ScreenCaptureService';
+
+const BATTERY_TTL_MS = 60000;
+
+/**
+ * Every serial adb knows about (emulators, USB and Wi-Fi devices), live from
+ * the device tracker, with per-device actions.
+ */
+export class DeviceTreeView {
+    readonly provider: DeviceTreeDataProvider;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private manager: Manager,
+        private selectedDevice: SelectedDeviceService,
+        private capture: ScreenCaptureService,
+    ) {
+        this.provider = new DeviceTreeDataProvider(this.manager, this.selectedDevice, this.capture);
+
+        const view = vscode.window.createTreeView('android-studio-lite-devices', { treeDataProvider: this.provider });
+
+        subscribe(context, [
+            view,
+
+            this.manager.deviceTracker.onDidChangeDevices(() => this.provider.refresh()),
+            this.selectedDevice.onDidChangeSelection(() => this.provider.refresh()),
+            this.capture.onDidChangeRecordings(() => this.provider.refresh()),
+
+            vscode.commands.registerCommand('android-studio-lite.devices-refresh', async () => {
+                this.provider.clearBatteryCache();
+                await this.manager.deviceTracker.refresh();
+                this.provider.refresh();
+            }),
+            vscode.commands.registerCommand('android-studio-lite.device-select', async (node?: DeviceTreeItem) => {
+                const serial = node?.device.serial;
+                if (!serial) {
+                    await this.selectedDevice.pick({ onlineOnly: true });
+                    return;
+                }
+                const target = (await listRunTargets(this.manager)).find(t => t.serial === serial);
+                if (target) {
+                    await this.selectedDevice.select(target.id);
+                }
+            }),
+            vscode.commands.registerCommand('android-studio-lite.device-reboot', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'reboot', async (device) => {
+                    await this.manager.adb.reboot(device.serial);
+                    return `Rebooting ${device.serial}`;
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-reboot-bootloader', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'reboot to bootloader', async (device) => {
+                    await this.manager.adb.reboot(device.serial, 'bootloader');
+                    return `Rebooting ${device.serial} to bootloader`;
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-kill', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'kill', async (device) => {
+                    await this.manager.adb.emu(device.serial, ['kill']);
+                    return `Stopped emulator ${device.avdName || device.serial}`;
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-shell', (node?: DeviceTreeItem) => this.openShell(node, false)),
+            vscode.commands.registerCommand('android-studio-lite.device-shell-run-as', (node?: DeviceTreeItem) => this.openShell(node, true)),
+            vscode.commands.registerCommand('android-studio-lite.openDeviceShell', () => this.openShell(undefined, false)),
+            vscode.commands.registerCommand('android-studio-lite.openAppShell', () => this.openShell(undefined, true)),
+            vscode.commands.registerCommand('android-studio-lite.device-screenshot', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'capture', async (device) => {
+                    await this.capture.takeScreenshot(device.serial);
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-record-start', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'record', async (device) => {
+                    await this.capture.startRecording(device.serial);
+                })),
+            vscode.commands.registerCommand('android-studio-lite.device-record-stop', async (node?: DeviceTreeItem) => {
+                if (node) {
+                    await this.capture.stopRecording(node.device.serial);
+                }
+            }),
+            vscode.commands.registerCommand('android-studio-lite.device-disconnect', (node?: DeviceTreeItem) =>
+                this.withDevice(node, 'disconnect', async (device) => {
+                    return (await this.manager.adb.disconnect(device.serial)).trim() || `Disconnected ${device.serial}`;
+                })),
+        ]);
+    }
+
+    /** Opens an adb shell terminal, optionally as a debuggable app (`run-as`). */
+    private openShell(node: DeviceTreeItem | undefined, asApp: boolean): Promise<void> {
+        return this.withDevice(node, 'open a shell on', async (device) => {
+            let runAs: string | undefined;
+            if (asApp) {
+                runAs = await this.pickApplicationId(device.serial);
+                if (!runAs) {
+                    return;
+                }
+            }
+            openDeviceShell(this.manager.adb, device.serial, DeviceTreeItem.labelFor(device), { runAs });
+        });
+    }
+
+    /** Third-party packages on the device, with the last run app first. */
+    private async pickApplicationId(serial: string): Promise<string | undefined> {
+        const lastRun = LogcatService.getLastRun(this.context).applicationId;
+        const items = (async (): Promise<vscode.QuickPickItem[]> => {
+            const packages = await this.manager.adb.listPackages(serial, true);
+            const ordered = lastRun && packages.includes(lastRun)
+                ? [lastRun, ...packages.filter(pkg => pkg !== lastRun)]
+                : packages;
+            return ordered.map(pkg => ({ label: pkg, description: pkg === lastRun ? 'last run' : undefined }));
+        })();
+        const item = await showQuickPick(
+            items,
+            { placeHolder: 'Select the app to run the shell as (must be debuggable)' },
+            'No third-party apps installed on this device',
+        );
+        return item === false ? undefined : (item as vscode.QuickPickItem).label;
+    }
+
+    /** Resolves the device (picking one when run from the palette), runs the action and reports the result. */
+    private async withDevice(
+        node: DeviceTreeItem | undefined,
+        action: string,
+        run: (device: TrackedDevice) => Promise<string | void>,
+    ): Promise<void> {
+        let device = node?.device;
+        if (!device) {
+            const target = await this.selectedDevice.pick({ onlineOnly: true, select: false, placeHolder: `Select a device to ${action}` });
+            device = target?.serial ? this.manager.deviceTracker.getDevice(target.serial) : undefined;
+        }
+        if (!device) {
+            return;
+        }
+        try {
+            const message = await run(device);
+            if (message) {
+                this.manager.output.append(`[Devices] ${message}`);
+                showMsg(MsgType.info, message);
+            }
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Devices] ${device.serial}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action} ${device.serial}: ${message}`);
+        }
+    }
+}
+
+type TreeItem = DeviceTreeItem;
+class DeviceTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
+    private readonly battery = new Map<string, { level?: number; at: number }>();
+
+    constructor(private manager: Manager, private selectedDevice: SelectedDeviceService, private capture: ScreenCaptureService) { }
+
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (element) {
+            return [];
+        }
+        const selected = await this.selectedDevice.getTarget();
+        const devices = this.manager.deviceTracker.devices;
+        const levels = await Promise.all(devices.map((device) => this.getBatteryLevel(device)));
+        return devices.map((device, i) => new DeviceTreeItem(
+            device,
+            levels[i],
+            selected?.serial === device.serial,
+            this.capture.isRecording(device.serial),
+        ));
+    }
+
+    clearBatteryCache(): void {
+        this.battery.clear();
+    }
+
+    private async getBatteryLevel(device: TrackedDevice): Promise<number | undefined> {
+        if (device.state !== 'device') {
+            return undefined;
+        }
+        const cached = this.battery.get(device.serial);
+        if (cached && Date.now() - cached.at < BATTERY_TTL_MS) {
+            return cached.level;
+        }
+        const level = await this.manager.adb.getBatteryLevel(device.serial).catch(() => undefined);
+        this.battery.set(device.serial, { level, at: Date.now() });
+        return level;
+    }
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+export class DeviceTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly device: TrackedDevice,
+        public readonly batteryLevel: number | undefined,
+        public readonly selected: boolean = false,
+        public readonly recording: boolean = false,
+    ) {
+        super(DeviceTreeItem.labelFor(device), vscode.TreeItemCollapsibleState.None);
+
+        const connection = connectionType(device);
+        const online = device.state === 'device';
+
+        if (online) {
+            const parts: string[] = [];
+            if (device.release || device.apiLevel) {
+                parts.push(`Android ${device.release ?? '?'}${device.apiLevel ? ` (API ${device.apiLevel})` : ''}`);
+            }
+            if (device.abi) {
+                parts.push(device.abi);
+            }
+            if (batteryLevel !== undefined) {
+                parts.push(`${batteryLevel}%`);
+            }
+            if (recording) {
+                parts.push('recording');
+            }
+            this.description = parts.join(' · ');
+        } else {
+            this.description = device.state;
+        }
+
+        let infos = [
+            { name: "Serial", value: device.serial },
+            { name: "State", value: device.state },
+            { name: "Connection", value: connection },
+            { name: "AVD", value: device.avdName },
+            { name: "Manufacturer", value: device.manufacturer },
+            { name: "Model", value: device.model },
+            { name: "Product", value: device.product },
+            { name: "Android", value: device.release },
+            { name: "API level", value: device.apiLevel },
+            { name: "ABI", value: device.abi },
+            { name: "Battery", value: batteryLevel !== undefined ? `${batteryLevel}%` : undefined },
+        ];
+        let tooltip = "";
+        infos.forEach(element => {
+            if (element.value) {
+                tooltip += (tooltip.length === 0 ? "" : "\n") + `${element.name}: ${element.value}`;
+            }
+        });
+        if (device.state === 'unauthorized') {
+            tooltip += "\nAccept the USB debugging prompt on the device.";
+        }
+        this.tooltip = tooltip;
+
+        this.contextValue = `device-${connection}${online ? '' : '-offline'}${recording ? '-recording' : ''}`;
+        this.iconPath = new vscode.ThemeIcon(
+            selected ? 'pass-filled'
+                : !online ? (device.state === 'unauthorized' ? 'warning' : 'debug-disconnect')
+                    : connection === 'emulator' ? 'vm' : connection === 'wifi' ? 'broadcast' : 'device-mobile',
+        );
+    }
+
+    static labelFor(device: TrackedDevice): string {
+        if (device.avdName) {
+            return device.avdName;
+        }
+        const model = device.model?.replace(/_/g, ' ');
+        if (model && device.manufacturer && !model.toLowerCase().startsWith(device.manufacturer.toLowerCase())) {
+            return `${device.manufacturer} ${model}`;
+        }
+        return model ?? device.serial;
+    }
+}
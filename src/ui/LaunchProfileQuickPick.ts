@@ -0,0 +1,16 @@
+import { QuickPickItem } from "vscode";
+import type { LaunchProfileConfig } from "../core";
+import { profileArgs } from "../cmd/Emulator";
+
+export class LaunchProfileQuickPickItem implements QuickPickItem {
+    label: string;
+    description: string;
+
+    /** Undefined for the default launch (no profile options). */
+    public readonly profile: LaunchProfileConfig | undefined;
+    constructor(profile: LaunchProfileConfig | undefined, selected: boolean) {
+        this.profile = profile;
+        this.label = (selected ? "$(check) " : "") + (profile?.name ?? "Default");
+        this.description = profile ? profileArgs(profile).join(" ") : "No extra emulator options";
+    }
+}
@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showMsg, MsgType, showYesNoQuickPick } from '../module/ui';
+import { subscribe } from '../module/';
+import { APP_OP_MODES } from '../service/PermissionService';
+import type { PermissionService, PermissionTarget } from '../service/PermissionService';
+import type { AppOp, AppPermission } from '../utils/permissionParser';
+
+/**
+ * Permissions of the last-run app on its device: runtime permissions with
+ * grant/revoke toggles, install-time permissions, and app op overrides.
+ */
+export class PermissionTreeView {
+    readonly provider: PermissionTreeDataProvider;
+    private readonly view: vscode.TreeView<TreeItem>;
+
+    constructor(context: vscode.ExtensionContext, private manager: Manager, private permissions: PermissionService) {
+        this.provider = new PermissionTreeDataProvider(this.manager, this.permissions);
+
+        this.view = vscode.window.createTreeView('android-studio-lite-permissions', { treeDataProvider: this.provider });
+        this.updateDescription();
+
+        subscribe(context, [
+            this.view,
+
+            this.manager.deviceTracker.onDidChangeDevices(() => this.refresh()),
+            this.permissions.onDidChange(() => this.refresh()),
+
+            vscode.commands.registerCommand('android-studio-lite.permissions-refresh', () => this.refresh()),
+            vscode.commands.registerCommand('android-studio-lite.permission-grant', (node?: PermissionTreeItem) =>
+                this.withTarget(node ? `grant ${node.permission.name}` : 'grant permissions', (target) => node
+                    ? this.permissions.grant(target, node.permission.name)
+                    : this.pickAndToggle(target, true))),
+            vscode.commands.registerCommand('android-studio-lite.permission-revoke', (node?: PermissionTreeItem) =>
+                this.withTarget(node ? `revoke ${node.permission.name}` : 'revoke permissions', (target) => node
+                    ? this.permissions.revoke(target, node.permission.name)
+                    : this.pickAndToggle(target, false))),
+            vscode.commands.registerCommand('android-studio-lite.permissions-reset', () =>
+                this.withTarget('reset permissions', async (target) => {
+                    const answer = await showYesNoQuickPick(`Reset the runtime permissions of all apps on ${target.serial}?`);
+                    if (answer === 'Yes') {
+                        await this.permissions.resetPermissions(target.serial);
+                        showMsg(MsgType.info, `Runtime permissions reset on ${target.serial}`);
+                    }
+                })),
+            vscode.commands.registerCommand('android-studio-lite.permission-appop-set', (node?: AppOpTreeItem) =>
+                this.withTarget('set the app op', (target) => this.setAppOp(target, node?.appOp))),
+            vscode.commands.registerCommand('android-studio-lite.permission-appops-reset', () =>
+                this.withTarget('reset app ops', (target) => this.permissions.resetAppOps(target))),
+        ]);
+    }
+
+    refresh(): void {
+        this.updateDescription();
+        this.provider.refresh();
+    }
+
+    private updateDescription(): void {
+        const target = this.permissions.target;
+        this.view.description = target ? `${target.applicationId} · ${target.serial}` : undefined;
+    }
+
+    /** Quick pick over the runtime permissions that can be granted (or revoked). */
+    private async pickAndToggle(target: PermissionTarget, grant: boolean): Promise<void> {
+        const candidates = (await this.permissions.listPermissions(target))
+            .filter(p => p.runtime && p.granted !== grant);
+        if (candidates.length === 0) {
+            showMsg(MsgType.info, `No runtime permissions to ${grant ? 'grant' : 'revoke'}`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(p => ({ label: shortName(p.name), description: p.name })),
+            { placeHolder: `Permissions to ${grant ? 'grant' : 'revoke'}`, canPickMany: true },
+        );
+        for (const item of picked ?? []) {
+            await (grant ? this.permissions.grant(target, item.description) : this.permissions.revoke(target, item.description));
+        }
+    }
+
+    /** Changes the mode of `appOp`, or asks for an op name to override. */
+    private async setAppOp(target: PermissionTarget, appOp?: AppOp): Promise<void> {
+        const op = appOp?.op ?? await vscode.window.showInputBox({
+            prompt: `App op to override for ${target.applicationId}`,
+            placeHolder: 'CAMERA, RUN_IN_BACKGROUND, SYSTEM_ALERT_WINDOW...',
+            validateInput: (value) => /^[A-Za-z_][A-Za-z0-9_:]*$/.test(value.trim()) ? null : 'Enter an op name such as CAMERA',
+        });
+        if (!op) {
+            return;
+        }
+        const mode = await vscode.window.showQuickPick(
+            APP_OP_MODES.map(m => ({ label: m, description: m === appOp?.mode ? 'current' : undefined })),
+            { placeHolder: `Mode for ${op.trim()}` },
+        );
+        if (mode) {
+            await this.permissions.setAppOp(target, op.trim(), mode.label, appOp?.uidMode);
+        }
+    }
+
+    private async withTarget(action: string, task: (target: PermissionTarget) => Promise<void>): Promise<void> {
+        const target = this.permissions.target;
+        if (!target) {
+            showMsg(MsgType.info, 'Run the app first so its permissions can be managed.');
+            return;
+        }
+        try {
+            await task(target);
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Permissions] ${target.serial}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action}: ${message}`);
+        }
+    }
+}
+
+type PermissionGroup = 'runtime' | 'install' | 'appops';
+
+type TreeItem = PermissionGroupTreeItem | PermissionTreeItem | AppOpTreeItem | PermissionMessageItem;
+class PermissionTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
+    constructor(private manager: Manager, private permissions: PermissionService) { }
+
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        const target = this.permissions.target;
+        if (!target) {
+            return [new PermissionMessageItem('Run the app to manage its permissions', 'info')];
+        }
+        if (this.manager.deviceTracker.getDevice(target.serial)?.state !== 'device') {
+            return [new PermissionMessageItem(`${target.serial} is not connected`, 'debug-disconnect')];
+        }
+        try {
+            if (!element) {
+                const permissions = await this.permissions.listPermissions(target);
+                const runtime = permissions.filter(p => p.runtime);
+                const install = permissions.filter(p => !p.runtime);
+                return [
+                    new PermissionGroupTreeItem('runtime', `${runtime.filter(p => p.granted).length}/${runtime.length} granted`, runtime),
+                    new PermissionGroupTreeItem('install', `${install.length}`, install),
+                    new PermissionGroupTreeItem('appops', undefined, []),
+                ];
+            }
+            if (!(element instanceof PermissionGroupTreeItem)) {
+                return [];
+            }
+            if (element.group !== 'appops') {
+                return element.permissions.length > 0
+                    ? element.permissions.map(p => new PermissionTreeItem(p))
+                    : [new PermissionMessageItem(element.group === 'runtime' ? 'No runtime permissions requested' : 'None', 'info')];
+            }
+            const ops = await this.permissions.listAppOps(target);
+            return ops.length > 0
+                ? ops.map(op => new AppOpTreeItem(op))
+                : [new PermissionMessageItem('No app ops recorded', 'info')];
+        } catch (error: any) {
+            return [new PermissionMessageItem(error?.message ?? String(error), 'warning')];
+        }
+    }
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+const GROUP_LABELS: { [group in PermissionGroup]: string } = {
+    runtime: 'Runtime permissions',
+    install: 'Install-time permissions',
+    appops: 'App ops',
+};
+
+export class PermissionGroupTreeItem extends vscode.TreeItem {
+    constructor(public readonly group: PermissionGroup, description: string | undefined, public readonly permissions: AppPermission[]) {
+        super(GROUP_LABELS[group], group === 'runtime'
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = description;
+        this.contextValue = `permission-group-${group}`;
+        this.iconPath = new vscode.ThemeIcon(group === 'appops' ? 'settings-gear' : group === 'runtime' ? 'shield' : 'lock');
+    }
+}
+
+export class PermissionTreeItem extends vscode.TreeItem {
+    constructor(public readonly permission: AppPermission) {
+        super(shortName(permission.name), vscode.TreeItemCollapsibleState.None);
+
+        const state = permission.granted ? 'granted' : 'denied';
+        this.description = [permission.runtime ? state : permission.granted ? undefined : 'not granted', ...permission.flags.filter(f => FLAGS_SHOWN.includes(f))]
+            .filter(Boolean)
+            .join(' · ');
+
+        const infos = [permission.name, `State: ${permission.granted ? 'granted' : 'not granted'}`];
+        if (!permission.runtime) {
+            infos.push('Install-time permission: cannot be granted or revoked at runtime');
+        }
+        if (permission.flags.length > 0) {
+            infos.push(`Flags: ${permission.flags.join(', ')}`);
+        }
+        this.tooltip = infos.join('\n');
+
+        this.contextValue = permission.runtime ? `permission-${state}` : 'permission-install';
+        this.iconPath = new vscode.ThemeIcon(permission.granted ? 'pass' : 'circle-slash');
+    }
+}
+
+export class AppOpTreeItem extends vscode.TreeItem {
+    constructor(public readonly appOp: AppOp) {
+        super(appOp.op, vscode.TreeItemCollapsibleState.None);
+        this.description = appOp.uidMode ? `${appOp.mode} · uid` : appOp.mode;
+        this.tooltip = `${appOp.op}: ${appOp.mode}${appOp.uidMode ? ' (applies to the app\'s uid)' : ''}`;
+        this.contextValue = 'permission-appop';
+        this.iconPath = new vscode.ThemeIcon(appOp.mode === 'allow' ? 'pass' : appOp.mode === 'foreground' ? 'eye' : 'circle-slash');
+    }
+}
+
+export class PermissionMessageItem extends vscode.TreeItem {
+    constructor(message: string, icon: string) {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = message;
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+}
+
+/** Flags worth showing next to a permission; the full list is in the tooltip. */
+const FLAGS_SHOWN = ['USER_FIXED', 'POLICY_FIXED', 'SYSTEM_FIXED', 'USER_SET'];
+
+/** `android.permission.CAMERA` → `CAMERA`; other namespaces are kept. */
+function shortName(permission: string): string {
+    return permission.replace(/^android\.permission\./, '');
+}
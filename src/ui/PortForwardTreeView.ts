@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showMsg, MsgType } from '../module/ui';
+import { subscribe } from '../module/';
+import { describeRule, toSocketSpec } from '../service/PortForwardService';
+import type { PortForwardService, PortRule, PortRuleType } from '../service/PortForwardService';
+import type { TrackedDevice } from '../device/DeviceTracker';
+
+interface RuleTypeQuickPickItem extends vscode.QuickPickItem {
+    type: PortRuleType;
+}
+
+/**
+ * Active `adb forward` and `adb reverse` rules per online device, with add and
+ * remove actions and a way to reapply the workspace rules (`portRules`).
+ */
+export class PortForwardTreeView {
+    readonly provider: PortForwardTreeDataProvider;
+
+    constructor(context: vscode.ExtensionContext, private manager: Manager, private ports: PortForwardService) {
+        this.provider = new PortForwardTreeDataProvider(this.manager, this.ports);
+
+        const view = vscode.window.createTreeView('android-studio-lite-ports', { treeDataProvider: this.provider });
+
+        subscribe(context, [
+            view,
+
+            this.manager.deviceTracker.onDidChangeDevices(() => this.provider.refresh()),
+            this.ports.onDidChangeRules(() => this.provider.refresh()),
+
+            vscode.commands.registerCommand('android-studio-lite.ports-refresh', () => this.provider.refresh()),
+            vscode.commands.registerCommand('android-studio-lite.ports-add', async (node?: PortDeviceTreeItem) => {
+                const serial = node?.device.serial ?? await this.pickSerial('Select a device to add a rule to');
+                if (serial) {
+                    await this.run(serial, 'add the rule', () => this.addRule(serial));
+                }
+            }),
+            vscode.commands.registerCommand('android-studio-lite.ports-remove', async (node?: PortRuleTreeItem) => {
+                if (!node) {
+                    showMsg(MsgType.info, 'Select a rule in the Port Forwarding view to remove.');
+                    return;
+                }
+                await this.run(node.rule.serial, `remove ${describeRule(node.rule)}`, () => this.ports.remove(node.rule));
+            }),
+            vscode.commands.registerCommand('android-studio-lite.ports-apply', async (node?: PortDeviceTreeItem) => {
+                const serials = node
+                    ? [node.device.serial]
+                    : this.manager.deviceTracker.devices.filter(d => d.state === 'device').map(d => d.serial);
+                let applied = 0;
+                for (const serial of serials) {
+                    applied += await this.ports.applyConfigured(serial);
+                }
+                showMsg(MsgType.info, applied > 0
+                    ? `Applied ${applied} workspace port rule${applied === 1 ? '' : 's'}`
+                    : 'No workspace port rules apply. Add them to android-studio-lite.portRules.');
+            }),
+        ]);
+    }
+
+    private async addRule(serial: string): Promise<void> {
+        const items: RuleTypeQuickPickItem[] = [
+            { type: 'reverse', label: 'Reverse', description: 'device → this computer', detail: 'The app reaches a server running on this computer, e.g. a local backend.' },
+            { type: 'forward', label: 'Forward', description: 'this computer → device', detail: 'Tools on this computer reach a socket on the device, e.g. a debug server.' },
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Rule type' });
+        if (!picked) {
+            return;
+        }
+        const validateInput = (value: string) => toSocketSpec(value) ? null : 'Enter a port (8080) or a socket such as tcp:8080 or localabstract:name';
+        const first = await vscode.window.showInputBox({
+            prompt: picked.type === 'reverse' ? 'Device port the app connects to' : 'Port on this computer',
+            placeHolder: '8080',
+            validateInput,
+        });
+        if (!first) {
+            return;
+        }
+        const second = await vscode.window.showInputBox({
+            prompt: picked.type === 'reverse' ? 'Port on this computer' : 'Device port or socket',
+            value: first,
+            validateInput,
+        });
+        if (!second) {
+            return;
+        }
+        const [device, host] = picked.type === 'reverse' ? [first, second] : [second, first];
+        await this.ports.add({
+            type: picked.type,
+            serial,
+            local: toSocketSpec(host)!,
+            remote: toSocketSpec(device)!,
+        });
+    }
+
+    private async pickSerial(placeHolder: string): Promise<string | undefined> {
+        const online = this.manager.deviceTracker.devices.filter(d => d.state === 'device');
+        if (online.length <= 1) {
+            if (online.length === 0) {
+                showMsg(MsgType.info, 'No connected devices');
+            }
+            return online[0]?.serial;
+        }
+        const picked = await vscode.window.showQuickPick(
+            online.map(device => ({ label: device.avdName || device.model || device.serial, description: device.serial })),
+            { placeHolder },
+        );
+        return picked?.description;
+    }
+
+    private async run(serial: string, action: string, task: () => Promise<void>): Promise<void> {
+        try {
+            await task();
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Ports] ${serial}: ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action} on ${serial}: ${message}`);
+        }
+    }
+}
+
+type TreeItem = PortDeviceTreeItem | PortRuleTreeItem | PortMessageItem;
+class PortForwardTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
+    constructor(private manager: Manager, private ports: PortForwardService) { }
+
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (!element) {
+            return this.manager.deviceTracker.devices
+                .filter(device => device.state === 'device')
+                .map(device => new PortDeviceTreeItem(device));
+        }
+        if (!(element instanceof PortDeviceTreeItem)) {
+            return [];
+        }
+        const serial = element.device.serial;
+        try {
+            const rules = await this.ports.list(serial);
+            if (rules.length === 0) {
+                return [new PortMessageItem('No forwards or reverses', 'info')];
+            }
+            const configured = new Set(this.ports.configuredRules(serial).map(describeRule));
+            return rules.map(rule => new PortRuleTreeItem(rule, configured.has(describeRule(rule))));
+        } catch (error: any) {
+            return [new PortMessageItem(error?.message ?? String(error), 'warning')];
+        }
+    }
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+export class PortDeviceTreeItem extends vscode.TreeItem {
+    constructor(public readonly device: TrackedDevice) {
+        super(device.avdName || device.model?.replace(/_/g, ' ') || device.serial, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = device.serial;
+        this.contextValue = 'port-device';
+        this.iconPath = new vscode.ThemeIcon(device.avdName ? 'vm' : 'device-mobile');
+    }
+}
+
+export class PortRuleTreeItem extends vscode.TreeItem {
+    constructor(public readonly rule: PortRule, configured: boolean) {
+        super(rule.type === 'reverse'
+            ? `${rule.remote} → ${rule.local}`
+            : `${rule.local} → ${rule.remote}`, vscode.TreeItemCollapsibleState.None);
+
+        this.description = configured ? `${rule.type} · workspace` : rule.type;
+        this.tooltip = rule.type === 'reverse'
+            ? `Reverse: device ${rule.remote} connects to ${rule.local} on this computer`
+            : `Forward: ${rule.local} on this computer connects to device ${rule.remote}`;
+        this.contextValue = `port-${rule.type}`;
+        this.iconPath = new vscode.ThemeIcon(rule.type === 'reverse' ? 'arrow-left' : 'arrow-right');
+    }
+}
+
+export class PortMessageItem extends vscode.TreeItem {
+    constructor(message: string, icon: string) {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = message;
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+}
@@ -0,0 +1,17 @@
+import { QuickPickItem } from "vscode";
+import { RunTarget } from "../device/RunTarget";
+
+export class RunTargetQuickPickItem implements QuickPickItem {
+    label: string;
+    description: string;
+    detail?: string;
+    picked?: boolean;
+
+    public readonly target: RunTarget;
+    constructor(target: RunTarget) {
+        this.target = target;
+        this.label = (target.kind === 'avd' ? "$(vm) " : "$(device-mobile) ") + target.label;
+        this.description = target.description;
+        this.detail = target.serial;
+    }
+}
@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import { Manager } from '../core';
+import { showMsg, MsgType, showQuickPick, showYesNoQuickPick } from '../module/ui';
+import { subscribe } from '../module/';
+import { systemImageTagName } from '../utils/sdkManagerList';
+import type { SystemImagePackage, SystemImageService } from '../service/SystemImageService';
+
+/**
+ * Installed and available system images from sdkmanager, by API level, tag
+ * and ABI, with install and uninstall. Installed images can seed `Create AVD`.
+ */
+export class SystemImageTreeView {
+    readonly provider: SystemImageTreeDataProvider;
+
+    constructor(context: vscode.ExtensionContext, private manager: Manager, private images: SystemImageService) {
+        this.provider = new SystemImageTreeDataProvider(this.images);
+
+        const view = vscode.window.createTreeView('android-studio-lite-system-images', { treeDataProvider: this.provider, showCollapseAll: true });
+
+        subscribe(context, [
+            view,
+
+            this.images.onDidChange(() => this.provider.refresh()),
+
+            vscode.commands.registerCommand('android-studio-lite.system-images-refresh', () => {
+                this.provider.refresh(true);
+            }),
+            vscode.commands.registerCommand('android-studio-lite.system-image-install', async (node?: SystemImageTreeItem) => {
+                const image = node?.image ?? await this.pickImage(false);
+                if (image) {
+                    await this.install(image);
+                }
+            }),
+            vscode.commands.registerCommand('android-studio-lite.system-image-uninstall', async (node?: SystemImageTreeItem) => {
+                const image = node?.image ?? await this.pickImage(true);
+                if (image) {
+                    await this.uninstall(image);
+                }
+            }),
+        ]);
+    }
+
+    private async install(image: SystemImagePackage): Promise<void> {
+        const ok = await this.run(`install ${image.path}`, () => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Installing ${imageLabel(image)}`, cancellable: true },
+            (progress, token) => this.images.install(image, progress, token),
+        ));
+        if (ok) {
+            const ans = await showMsg(MsgType.info, `${imageLabel(image)} installed`, {}, "Create AVD");
+            if (ans === "Create AVD") {
+                await vscode.commands.executeCommand('android-studio-lite.avd-create', { pkg: { pathRaw: image.path } });
+            }
+        }
+    }
+
+    private async uninstall(image: SystemImagePackage): Promise<void> {
+        const users = await this.images.avdsUsing(image);
+        if (users.length > 0) {
+            const ans = await showMsg(MsgType.warning,
+                `${users.join(", ")} ${users.length === 1 ? "uses" : "use"} ${imageLabel(image)} and will not start without it. Uninstall anyway?`,
+                { modal: true }, "Uninstall");
+            if (ans !== "Uninstall") {
+                return;
+            }
+        } else if (await showYesNoQuickPick(`Uninstall ${imageLabel(image)}?`) !== "Yes") {
+            return;
+        }
+        const ok = await this.run(`uninstall ${image.path}`, () => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Uninstalling ${imageLabel(image)}` },
+            (progress) => this.images.uninstall(image, progress),
+        ));
+        if (ok) {
+            showMsg(MsgType.info, `${imageLabel(image)} uninstalled`);
+        }
+    }
+
+    /** For the palette: images to install (not installed) or to uninstall (installed). */
+    private async pickImage(installed: boolean): Promise<SystemImagePackage | undefined> {
+        const items: Promise<SystemImageQuickPickItem[]> = this.images.list().then(images => images
+            .filter(image => image.installed === installed)
+            .map(image => ({ label: imageLabel(image), description: image.path, image })));
+        const item = await showQuickPick(items, {
+            placeHolder: installed ? "Select a system image to uninstall" : "Select a system image to install",
+            matchOnDescription: true,
+        }, installed ? "No system images installed" : "No system images available");
+        return (item as SystemImageQuickPickItem)?.image;
+    }
+
+    private async run(action: string, task: () => Thenable<void>): Promise<boolean> {
+        try {
+            await task();
+            return true;
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[System Images] ${message}`, 'error');
+            showMsg(MsgType.error, `Failed to ${action}: ${message}`);
+            return false;
+        }
+    }
+}
+
+interface SystemImageQuickPickItem extends vscode.QuickPickItem {
+    image: SystemImagePackage;
+}
+
+function imageLabel(image: SystemImagePackage): string {
+    return `API ${image.apiLevel} ${systemImageTagName(image.tag)} ${image.abi}`;
+}
+
+/** Newest first; numbered levels sort by number, extensions after their base, previews on top. */
+function compareApiLevels(a: string, b: string): number {
+    const na = parseInt(a, 10);
+    const nb = parseInt(b, 10);
+    if (isNaN(na) !== isNaN(nb)) {
+        return isNaN(na) ? -1 : 1;
+    }
+    return (nb - na) || a.localeCompare(b);
+}
+
+type TreeItem = ApiLevelTreeItem | TagTreeItem | SystemImageTreeItem | SystemImageMessageItem;
+class SystemImageTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
+    constructor(private images: SystemImageService) { }
+
+    getTreeItem(element: TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+        if (element instanceof ApiLevelTreeItem) {
+            const tags = [...new Set(element.images.map(image => image.tag))].sort((a, b) =>
+                systemImageTagName(a).localeCompare(systemImageTagName(b)));
+            return tags.map(tag => new TagTreeItem(element.apiLevel, tag, element.images.filter(image => image.tag === tag)));
+        }
+        if (element instanceof TagTreeItem) {
+            return element.images.map(image => new SystemImageTreeItem(image));
+        }
+        if (element) {
+            return [];
+        }
+
+        let images: SystemImagePackage[];
+        try {
+            images = await vscode.window.withProgress(
+                { location: { viewId: 'android-studio-lite-system-images' } },
+                () => this.images.list(),
+            );
+        } catch (error: any) {
+            return [new SystemImageMessageItem(`Failed to list system images: ${error?.message ?? error}`, 'warning')];
+        }
+        if (images.length === 0) {
+            return [new SystemImageMessageItem("sdkmanager reported no system images", 'info')];
+        }
+        const levels = [...new Set(images.map(image => image.apiLevel))].sort(compareApiLevels);
+        return levels.map(level => new ApiLevelTreeItem(level, images.filter(image => image.apiLevel === level)));
+    }
+
+    private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    /** `reload` lists packages with sdkmanager again instead of using the cache. */
+    refresh(reload: boolean = false): void {
+        if (reload) {
+            void this.images.list(true).catch(() => undefined);
+        }
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+export class ApiLevelTreeItem extends vscode.TreeItem {
+    constructor(public readonly apiLevel: string, public readonly images: SystemImagePackage[]) {
+        const installed = images.filter(image => image.installed).length;
+        super(`API ${apiLevel}`, installed > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `system-images:${apiLevel}`;
+        this.description = installed > 0 ? `${installed} installed` : undefined;
+        this.contextValue = 'system-image-api';
+        this.iconPath = new vscode.ThemeIcon('versions');
+    }
+}
+
+export class TagTreeItem extends vscode.TreeItem {
+    constructor(apiLevel: string, public readonly tag: string, public readonly images: SystemImagePackage[]) {
+        const installed = images.some(image => image.installed);
+        super(systemImageTagName(tag), installed ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `system-images:${apiLevel}:${tag}`;
+        this.description = tag;
+        this.contextValue = 'system-image-tag';
+    }
+}
+
+export class SystemImageTreeItem extends vscode.TreeItem {
+    /** Read by `avd-create` to preselect this image. */
+    readonly pkg: { pathRaw: string };
+
+    constructor(public readonly image: SystemImagePackage) {
+        super(image.abi, vscode.TreeItemCollapsibleState.None);
+        this.pkg = { pathRaw: image.path };
+
+        if (image.installed) {
+            this.description = [
+                image.version ? `Installed v${image.version}` : "Installed",
+                image.updateVersion ? `update v${image.updateVersion}` : undefined,
+            ].filter(Boolean).join(" | ");
+        } else {
+            this.description = image.version ? `v${image.version}` : undefined;
+        }
+
+        let infos = [
+            { name: "Package", value: image.path },
+            { name: "Description", value: image.description },
+            { name: "Version", value: image.version },
+            { name: "Update", value: image.updateVersion },
+            { name: "Location", value: image.location },
+        ];
+        this.tooltip = infos.filter(i => i.value).map(i => `${i.name}: ${i.value}`).join("\n");
+        this.contextValue = !image.installed ? 'system-image-available'
+            : image.updateVersion ? 'system-image-update' : 'system-image-installed';
+        this.iconPath = new vscode.ThemeIcon(!image.installed ? 'cloud-download'
+            : image.updateVersion ? 'arrow-circle-up' : 'pass');
+    }
+}
+
+export class SystemImageMessageItem extends vscode.TreeItem {
+    constructor(message: string, icon: string) {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = message;
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+}
@@ -0,0 +1,86 @@
+/** A `config.ini` key the structured AVD editor shows as a typed field. */
+export interface AvdConfigField {
+    key: string;
+    label: string;
+    group: string;
+    type: 'int' | 'enum' | 'bool';
+    /** Allowed values of an `enum` field. */
+    options?: string[];
+    min?: number;
+    max?: number;
+    unit?: string;
+    /** Written values of a `bool` field; `yes` / `no` unless set. */
+    trueValue?: string;
+    falseValue?: string;
+}
+
+export const AVD_CONFIG_FIELDS: AvdConfigField[] = [
+    { key: 'hw.lcd.width', label: 'Width', group: 'Display', type: 'int', min: 128, max: 8192, unit: 'px' },
+    { key: 'hw.lcd.height', label: 'Height', group: 'Display', type: 'int', min: 128, max: 8192, unit: 'px' },
+    { key: 'hw.lcd.density', label: 'Density', group: 'Display', type: 'int', min: 100, max: 1000, unit: 'dpi' },
+    { key: 'hw.ramSize', label: 'RAM', group: 'Memory', type: 'int', min: 512, max: 65536, unit: 'MB' },
+    { key: 'vm.heapSize', label: 'VM heap', group: 'Memory', type: 'int', min: 16, max: 2048, unit: 'MB' },
+    { key: 'hw.gpu.enabled', label: 'GPU emulation', group: 'Graphics', type: 'bool' },
+    { key: 'hw.gpu.mode', label: 'GPU mode', group: 'Graphics', type: 'enum', options: ['auto', 'host', 'swiftshader_indirect', 'angle_indirect', 'guest'] },
+    { key: 'hw.keyboard', label: 'Hardware keyboard', group: 'Input', type: 'bool' },
+    { key: 'hw.camera.back', label: 'Back camera', group: 'Camera', type: 'enum', options: ['none', 'emulated', 'virtualscene', 'webcam0'] },
+    { key: 'hw.camera.front', label: 'Front camera', group: 'Camera', type: 'enum', options: ['none', 'emulated', 'webcam0'] },
+    { key: 'PlayStore.enabled', label: 'Play Store', group: 'Google Play', type: 'bool', trueValue: 'true', falseValue: 'false' },
+];
+
+/**
+ * Error message for `value` of `field`, or undefined when it can be written.
+ * Sizes may carry the `M` suffix the SDK tools sometimes write.
+ */
+export function validateAvdConfigValue(field: AvdConfigField, value: string): string | undefined {
+    switch (field.type) {
+        case 'int': {
+            const match = /^(\d+)(M|MB)?$/i.exec(value.trim());
+            const n = match ? parseInt(match[1], 10) : NaN;
+            if (isNaN(n) || (field.min !== undefined && n < field.min) || (field.max !== undefined && n > field.max)) {
+                return `${field.label} must be a whole number between ${field.min} and ${field.max}`;
+            }
+            return undefined;
+        }
+        case 'enum':
+            return field.options?.includes(value) ? undefined : `${field.label} must be one of ${field.options?.join(', ')}`;
+        case 'bool':
+            return [field.trueValue ?? 'yes', field.falseValue ?? 'no'].includes(value)
+                ? undefined
+                : `${field.label} must be ${field.trueValue ?? 'yes'} or ${field.falseValue ?? 'no'}`;
+    }
+}
+
+export type AVDDeviceType = 'Phone' | 'Tablet' | 'Wear OS' | 'TV' | 'Automotive';
+
+/** Display order of device type groups. */
+export const AVD_DEVICE_TYPES: AVDDeviceType[] = ['Phone', 'Tablet', 'Wear OS', 'TV', 'Automotive'];
+
+/**
+ * Form factor of an AVD from its `config.ini`: the system image tag for
+ * Wear OS, TV and Automotive, else the screen diagonal (7" and up is a tablet).
+ */
+export function avdDeviceType(config: Record<string, string>): AVDDeviceType {
+    const tag = `${config['tag.id'] ?? ''},${config['tag.ids'] ?? ''},${config['image.sysdir.1'] ?? ''}`;
+    if (/wear/i.test(tag)) {
+        return 'Wear OS';
+    }
+    if (/android-tv|google-tv/i.test(tag)) {
+        return 'TV';
+    }
+    if (/automotive/i.test(tag)) {
+        return 'Automotive';
+    }
+    const width = parseInt(config['hw.lcd.width'], 10);
+    const height = parseInt(config['hw.lcd.height'], 10);
+    const density = parseInt(config['hw.lcd.density'], 10);
+    if (width > 0 && height > 0 && density > 0 && Math.hypot(width, height) / density >= 7) {
+        return 'Tablet';
+    }
+    return /tablet|pixel_c\b/i.test(config['hw.device.name'] ?? '') ? 'Tablet' : 'Phone';
+}
+
+/** API level from `image.sysdir.1` (`system-images/android-34/...`); previews keep their codename. */
+export function avdApiLevel(config: Record<string, string>): string | undefined {
+    return /android-([^/\\]+)/.exec(config['image.sysdir.1'] ?? '')?.[1];
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+
+/**
+ * What a file inside an `.avd` folder holds:
+ * - `runtime`: locks and files the emulator regenerates at boot
+ * - `userData`: the data partition, encryption key and qcow2 disk overlays
+ */
+export type AVDFileKind = 'config' | 'runtime' | 'cache' | 'userData' | 'sdCard' | 'snapshots';
+
+export interface AVDFile {
+    /** Relative to the `.avd` folder, `/`-separated. */
+    rel: string;
+    path: string;
+    /** Allocated bytes; disk images are sparse, so this is often far below their size. */
+    diskBytes: number;
+    mtime: Date;
+}
+
+/** Kind of the file or folder at `rel` (`/`-separated) inside an `.avd` folder. */
+export function classifyAVDFile(rel: string): AVDFileKind {
+    if (/^snapshots(\/|$)/.test(rel)) {
+        return 'snapshots';
+    }
+    if (/\.lock$|^hardware-qemu\.ini$|^tmpAdbCmds/.test(rel)) {
+        return 'runtime';
+    }
+    if (/^cache\.img/.test(rel)) {
+        return 'cache';
+    }
+    if (/^sdcard\.img/.test(rel)) {
+        return 'sdCard';
+    }
+    if (/^userdata|^encryptionkey\.img|\.qcow2$|^data(\/|$)/.test(rel)) {
+        return 'userData';
+    }
+    return 'config';
+}
+
+/** Files under `dir`, recursively. */
+export async function listAVDFiles(dir: string, rel: string = ''): Promise<AVDFile[]> {
+    const files: AVDFile[] = [];
+    for (const entry of await fs.promises.readdir(nodePath.join(dir, rel), { withFileTypes: true })) {
+        const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+        const path = nodePath.join(dir, entryRel);
+        if (entry.isDirectory()) {
+            files.push(...await listAVDFiles(dir, entryRel));
+        } else if (entry.isFile()) {
+            const stat = await fs.promises.stat(path);
+            files.push({
+                rel: entryRel,
+                path,
+                diskBytes: process.platform !== 'win32' ? stat.blocks * 512 : stat.size,
+                mtime: stat.mtime,
+            });
+        }
+    }
+    return files;
+}
@@ -0,0 +1,64 @@
+/**
+ * `key=value` files written by the SDK and the emulator (`config.ini`,
+ * `source.properties`, `<name>.ini`). Keys are case-sensitive; blank lines
+ * and `#` / `;` comments are ignored.
+ */
+export function parseIni(content: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const entry = parseLine(line);
+        if (entry) {
+            values[entry.key] = entry.value;
+        }
+    }
+    return values;
+}
+
+/**
+ * Sets `values` in `content`, keeping every other line (comments, unknown
+ * keys, order) as it is. Existing keys are replaced in place, new ones are
+ * appended; an undefined value removes the key. A patched key that appears
+ * more than once keeps only its first line, as `parseIni` reads the last.
+ */
+export function patchIni(content: string, values: Record<string, string | undefined>): string {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const patched = new Set(Object.keys(values));
+    const pending = new Map(Object.entries(values));
+    const lines: string[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const entry = parseLine(line);
+        if (!entry || !patched.has(entry.key)) {
+            lines.push(line);
+            continue;
+        }
+        if (!pending.has(entry.key)) {
+            continue;
+        }
+        const value = pending.get(entry.key);
+        pending.delete(entry.key);
+        if (value !== undefined) {
+            lines.push(`${entry.key}=${value}`);
+        }
+    }
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    for (const [key, value] of pending) {
+        if (value !== undefined) {
+            lines.push(`${key}=${value}`);
+        }
+    }
+    return lines.join(eol) + eol;
+}
+
+function parseLine(line: string): { key: string; value: string } | undefined {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith(';')) {
+        return undefined;
+    }
+    const separator = trimmed.indexOf('=');
+    if (separator <= 0) {
+        return undefined;
+    }
+    return { key: trimmed.slice(0, separator).trim(), value: trimmed.slice(separator + 1).trim() };
+}
@@ -0,0 +1,75 @@
+export interface DeepLink {
+    /** Example URI built from the filter's `<data>` elements, e.g. `https://example.com/items`. */
+    uri: string;
+    /** Fully qualified activity (or activity-alias) class. */
+    activity: string;
+    /** `android:autoVerify="true"` on the intent filter (Android App Links). */
+    autoVerify: boolean;
+}
+
+/**
+ * Deep links declared in an `AndroidManifest.xml`: activities with an
+ * `<intent-filter>` for `android.intent.action.VIEW` and at least one scheme.
+ * Schemes, hosts and paths of one filter are combined the way the platform
+ * matches them. Path patterns are shown as written.
+ */
+export function parseDeepLinks(xml: string): DeepLink[] {
+    const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+    const packageName = attribute(/<manifest\b[^>]*>/.exec(source)?.[0] ?? '', 'package');
+    const links: DeepLink[] = [];
+    const seen = new Set<string>();
+
+    const activityPattern = /<(activity-alias|activity)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+    for (let activity = activityPattern.exec(source); activity; activity = activityPattern.exec(source)) {
+        const body = activity[3];
+        const name = attribute(activity[2], 'name');
+        if (!body || !name) {
+            continue;
+        }
+        const className = name.startsWith('.') && packageName ? packageName + name : name;
+
+        const filterPattern = /<intent-filter\b([^>]*)>([\s\S]*?)<\/intent-filter>/g;
+        for (let filter = filterPattern.exec(body); filter; filter = filterPattern.exec(body)) {
+            const filterBody = filter[2];
+            const actions = elements(filterBody, 'action').map(e => attribute(e, 'name'));
+            if (!actions.includes('android.intent.action.VIEW')) {
+                continue;
+            }
+            const data = elements(filterBody, 'data');
+            const values = (attr: string) => unique(data.map(e => attribute(e, attr)).filter((v): v is string => !!v));
+            const schemes = values('scheme');
+            const hosts = values('host');
+            const ports = values('port');
+            const paths = unique([...values('path'), ...values('pathPrefix'), ...values('pathPattern'), ...values('pathAdvancedPattern')]);
+
+            for (const scheme of schemes) {
+                for (const host of hosts.length > 0 ? hosts : ['']) {
+                    for (const path of paths.length > 0 ? paths : ['']) {
+                        const authority = host ? `${host}${ports[0] ? `:${ports[0]}` : ''}` : '';
+                        const uri = `${scheme}://${authority}${path && !path.startsWith('/') ? `/${path}` : path}`;
+                        const key = `${className} ${uri}`;
+                        if (!seen.has(key)) {
+                            seen.add(key);
+                            links.push({ uri, activity: className, autoVerify: attribute(filter[1], 'autoVerify') === 'true' });
+                        }
+                    }
+                }
+            }
+        }
+    }
+    return links;
+}
+
+/** `android:<name>="value"` (or an unprefixed attribute such as `package`). */
+function attribute(tag: string, name: string): string | undefined {
+    const match = new RegExp(`(?:^|\\s)(?:android:)?${name}\\s*=\\s*"([^"]*)"`).exec(tag);
+    return match?.[1];
+}
+
+function elements(xml: string, tag: string): string[] {
+    return xml.match(new RegExp(`<${tag}\\b[^>]*>`, 'g')) ?? [];
+}
+
+function unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+}
@@ -0,0 +1,99 @@
+export interface AppPermission {
+    name: string;
+    /** Runtime (dangerous) permissions can be granted and revoked; install-time ones cannot. */
+    runtime: boolean;
+    granted: boolean;
+    /** Flags reported for the permission, e.g. `USER_SET`, `USER_FIXED`, `POLICY_FIXED`. */
+    flags: string[];
+}
+
+export interface AppOp {
+    /** Op name as printed by `appops get`, e.g. `CAMERA`, `RUN_IN_BACKGROUND`. */
+    op: string;
+    /** `allow`, `ignore`, `deny`, `default` or `foreground`. */
+    mode: string;
+    /** The mode applies to the whole uid (`Uid mode:` lines) rather than the package. */
+    uidMode: boolean;
+}
+
+type PermissionSection = 'requested' | 'install' | 'runtime';
+
+const SECTION_HEADERS: { [header: string]: PermissionSection } = {
+    'requested permissions:': 'requested',
+    'install permissions:': 'install',
+    'runtime permissions:': 'runtime',
+};
+
+/**
+ * Requested permissions of a package with their granted state, from
+ * `dumpsys package <id>`. Runtime permissions are those listed under
+ * `runtime permissions:` (first user only); everything else is install-time.
+ */
+export function parsePackagePermissions(dumpsys: string): AppPermission[] {
+    const requested: string[] = [];
+    const states: { [section in 'install' | 'runtime']: Map<string, { granted: boolean; flags: string[] }> } = {
+        install: new Map(),
+        runtime: new Map(),
+    };
+    let section: PermissionSection | undefined;
+    let sectionIndent = 0;
+
+    for (const line of dumpsys.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        // An updated system app is listed again (with the factory image's permissions) below this
+        if (trimmed === 'Hidden system packages:') {
+            break;
+        }
+        const indent = line.length - line.trimStart().length;
+        if (SECTION_HEADERS[trimmed]) {
+            section = SECTION_HEADERS[trimmed];
+            sectionIndent = indent;
+            continue;
+        }
+        if (!section || !trimmed || indent <= sectionIndent) {
+            section = undefined;
+            continue;
+        }
+
+        const match = /^([\w.]+)(?::\s*(.*))?$/.exec(trimmed);
+        if (!match) {
+            continue;
+        }
+        const [, name, details = ''] = match;
+        if (section === 'requested') {
+            if (!requested.includes(name)) {
+                requested.push(name);
+            }
+        } else if (!states[section].has(name)) {
+            states[section].set(name, {
+                granted: /\bgranted=true\b/.test(details),
+                flags: (/flags=\[\s*([^\]]*?)\s*\]/.exec(details)?.[1] ?? '').split('|').filter(f => f.length > 0),
+            });
+        }
+    }
+
+    const names = [...requested, ...[...states.runtime.keys(), ...states.install.keys()].filter(n => !requested.includes(n))];
+    return Array.from(new Set(names)).map(name => {
+        const runtime = states.runtime.get(name);
+        const state = runtime ?? states.install.get(name);
+        return {
+            name,
+            runtime: !!runtime,
+            granted: state?.granted ?? false,
+            flags: state?.flags ?? [],
+        };
+    });
+}
+
+/** Ops with an explicit mode, from `appops get <package>`. */
+export function parseAppOps(output: string): AppOp[] {
+    const ops: AppOp[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        // Access times and per-attribution details are printed indented below each op
+        const match = /^(Uid mode: )?([A-Z][A-Z0-9_]*): ([a-z]+)/.exec(line);
+        if (match) {
+            ops.push({ op: match[2], mode: match[3], uidMode: !!match[1] });
+        }
+    }
+    return ops;
+}
@@ -0,0 +1,111 @@
+export interface RoutePoint {
+    latitude: number;
+    longitude: number;
+    /** Metres, when the file has elevations. */
+    altitude?: number;
+    /** Epoch milliseconds, when the file has timestamps. */
+    time?: number;
+}
+
+/** Points of a `.gpx` or `.kml` file, picked by extension. */
+export function parseRoute(fileName: string, content: string): RoutePoint[] {
+    if (/\.kml$/i.test(fileName)) {
+        return parseKml(content);
+    }
+    if (/\.gpx$/i.test(fileName)) {
+        return parseGpx(content);
+    }
+    throw new Error('Only GPX and KML files can be played back');
+}
+
+/**
+ * Track points (`<trkpt>`) of every track segment, in order. Files without a
+ * track fall back to route points (`<rtept>`), then to waypoints (`<wpt>`).
+ */
+export function parseGpx(xml: string): RoutePoint[] {
+    const source = stripComments(xml);
+    for (const tag of ['trkpt', 'rtept', 'wpt']) {
+        const points: RoutePoint[] = [];
+        const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, 'g');
+        for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+            const latitude = parseFloat(/\blat\s*=\s*["']([^"']*)["']/.exec(match[1])?.[1] ?? '');
+            const longitude = parseFloat(/\blon\s*=\s*["']([^"']*)["']/.exec(match[1])?.[1] ?? '');
+            if (!isValidCoordinate(latitude, longitude)) {
+                continue;
+            }
+            const body = match[2] ?? '';
+            points.push({
+                latitude,
+                longitude,
+                altitude: parseOptionalFloat(/<ele>([^<]*)<\/ele>/.exec(body)?.[1]),
+                time: parseTime(/<time>([^<]*)<\/time>/.exec(body)?.[1]),
+            });
+        }
+        if (points.length > 0) {
+            return points;
+        }
+    }
+    return [];
+}
+
+/**
+ * Points of a KML file: `<gx:Track>` entries (timed `<when>` / `<gx:coord>`
+ * pairs) when present, else every `<coordinates>` list (LineString, Point...)
+ * in document order.
+ */
+export function parseKml(xml: string): RoutePoint[] {
+    const source = stripComments(xml);
+
+    const tracks = source.match(/<gx:Track\b[\s\S]*?<\/gx:Track>/g) ?? [];
+    const tracked: RoutePoint[] = [];
+    for (const track of tracks) {
+        const times = [...track.matchAll(/<when>([^<]*)<\/when>/g)].map(m => parseTime(m[1]));
+        const coords = [...track.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map(m => m[1].trim().split(/\s+/));
+        coords.forEach(([lon, lat, alt], i) => {
+            const point = toPoint(lon, lat, alt);
+            if (point) {
+                tracked.push({ ...point, time: times[i] });
+            }
+        });
+    }
+    if (tracked.length > 0) {
+        return tracked;
+    }
+
+    const points: RoutePoint[] = [];
+    for (const match of source.matchAll(/<coordinates>([\s\S]*?)<\/coordinates>/g)) {
+        for (const tuple of match[1].trim().split(/\s+/)) {
+            const point = toPoint(...(tuple.split(',') as [string, string, string?]));
+            if (point) {
+                points.push(point);
+            }
+        }
+    }
+    return points;
+}
+
+function toPoint(lon?: string, lat?: string, alt?: string): RoutePoint | undefined {
+    const latitude = parseFloat(lat ?? '');
+    const longitude = parseFloat(lon ?? '');
+    return isValidCoordinate(latitude, longitude)
+        ? { latitude, longitude, altitude: parseOptionalFloat(alt) }
+        : undefined;
+}
+
+function isValidCoordinate(latitude: number, longitude: number): boolean {
+    return isFinite(latitude) && isFinite(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+function parseOptionalFloat(value?: string): number | undefined {
+    const parsed = parseFloat(value ?? '');
+    return isFinite(parsed) ? parsed : undefined;
+}
+
+function parseTime(value?: string): number | undefined {
+    const parsed = value ? Date.parse(value.trim()) : NaN;
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+function stripComments(xml: string): string {
+    return xml.replace(/<!--[\s\S]*?-->/g, '');
+}
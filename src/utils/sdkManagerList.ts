@@ -0,0 +1,129 @@
+/** A package from `sdkmanager --list --verbose`. */
+export interface SdkPackage {
+    /** sdkmanager path, e.g. `system-images;android-34;google_apis;x86_64`. */
+    path: string;
+    description?: string;
+    version?: string;
+    /** Set for installed packages. */
+    location?: string;
+}
+
+export interface SdkPackageUpdate {
+    path: string;
+    installedVersion?: string;
+    availableVersion?: string;
+}
+
+export interface SdkPackageList {
+    installed: SdkPackage[];
+    available: SdkPackage[];
+    updates: SdkPackageUpdate[];
+}
+
+/** `system-images;android-<api>;<tag>;<abi>` split into its parts. */
+export interface SystemImagePath {
+    /** `34`, or an extension or preview such as `34-ext10` / `VanillaIceCream`. */
+    apiLevel: string;
+    tag: string;
+    abi: string;
+}
+
+type Section = 'installed' | 'available' | 'updates';
+
+const SECTION_HEADERS: { pattern: RegExp; section: Section }[] = [
+    { pattern: /^Installed packages:/i, section: 'installed' },
+    { pattern: /^Available Packages:/i, section: 'available' },
+    { pattern: /^Available Updates:/i, section: 'updates' },
+];
+
+/**
+ * Parses `sdkmanager --list --verbose`: a header per section, then each
+ * package path unindented followed by indented `Key: value` lines. Progress
+ * bars, `Info:`/`Warning:` lines and dependency lists are skipped.
+ */
+export function parseSdkManagerList(output: string): SdkPackageList {
+    const list: SdkPackageList = { installed: [], available: [], updates: [] };
+    let section: Section | undefined;
+    let current: Record<string, string> | undefined;
+
+    const flush = () => {
+        // A package always has detail lines; a lone word is a message
+        if (!current || !section || Object.keys(current).length === 1) {
+            current = undefined;
+            return;
+        }
+        if (section === 'updates') {
+            list.updates.push({
+                path: current.path,
+                installedVersion: current['installed version'],
+                availableVersion: current['available version'],
+            });
+        } else {
+            list[section].push({
+                path: current.path,
+                description: current['description'],
+                version: current['version'],
+                location: current['installed location'],
+            });
+        }
+        current = undefined;
+    };
+
+    // Progress bars redraw with \r; keep what each line settled on. A trailing
+    // \r (as in \r\r\n) ends the line rather than redrawing it.
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.replace(/\r+$/, '').split('\r').pop()!.replace(/\s+$/, '');
+        const header = SECTION_HEADERS.find(h => h.pattern.test(line));
+        if (header) {
+            flush();
+            section = header.section;
+            continue;
+        }
+        if (!section || line === '' || /^-+$/.test(line)) {
+            continue;
+        }
+
+        if (!/^\s/.test(line)) {
+            flush();
+            // Package paths are single tokens; anything else is a message
+            if (/^[\w.-]+(;[\w.+-]+)*$/.test(line)) {
+                current = { path: line };
+            }
+            continue;
+        }
+        const detail = /^\s{1,6}([A-Za-z][A-Za-z ]*?):\s*(.*)$/.exec(line);
+        if (current && detail) {
+            current[detail[1].toLowerCase()] = detail[2].trim();
+        }
+    }
+    flush();
+    return list;
+}
+
+/** Parts of a `system-images;...` path, or undefined for other packages. */
+export function parseSystemImagePath(path: string): SystemImagePath | undefined {
+    const match = /^system-images;android-([^;]+);([^;]+);([^;]+)$/.exec(path);
+    return match ? { apiLevel: match[1], tag: match[2], abi: match[3] } : undefined;
+}
+
+/** Names shown for common `SystemImage.TagId`s. */
+const TAG_NAMES: Record<string, string> = {
+    'default': 'Default Android',
+    'google_apis': 'Google APIs',
+    'google_apis_playstore': 'Google Play',
+    'google_apis_tablet': 'Google APIs Tablet',
+    'google_apis_playstore_tablet': 'Google Play Tablet',
+    'google_atd': 'Google APIs ATD',
+    'aosp_atd': 'AOSP ATD',
+    'android-wear': 'Wear OS',
+    'android-wear-cn': 'Wear OS (China)',
+    'android-tv': 'Android TV',
+    'google-tv': 'Google TV',
+    'android-automotive': 'Android Automotive',
+    'android-automotive-playstore': 'Android Automotive with Google Play',
+    'android-desktop': 'Desktop',
+};
+
+export function systemImageTagName(tag: string): string {
+    return TAG_NAMES[tag] ?? tag;
+}
@@ -0,0 +1,369 @@
+import * as fs from 'fs';
+import * as nodePath from 'path';
+import * as zlib from 'zlib';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/** A file to add: `name` is its path inside the archive, with `/` separators. */
+export interface ZipSource {
+    name: string;
+    path: string;
+}
+
+/** An entry of the central directory. */
+export interface ZipEntry {
+    name: string;
+    /** 0 (stored) or 8 (deflated); others cannot be extracted. */
+    method: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    /** Offset of the local file header. */
+    offset: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIR = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const UTF8_FLAG = 0x0800;
+const MAX_32 = 0xffffffff;
+/** Entries this large get zip64 sizes up front; deflate can grow incompressible data slightly. */
+const ZIP64_THRESHOLD = 0xf0000000;
+
+const CRC_TABLE = (() => {
+    const table = new Int32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c;
+    }
+    return table;
+})();
+
+function crc32(crc: number, data: Buffer): number {
+    let c = ~crc;
+    for (let i = 0; i < data.length; i++) {
+        c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return ~c >>> 0;
+}
+
+/** Passes data through while updating a CRC-32 and byte count. */
+function checksum(onData: (chunk: Buffer) => void): Transform {
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            onData(chunk);
+            callback(null, chunk);
+        },
+    });
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Writes `sources` to a new deflated zip at `zipPath`, streaming each file so
+ * multi-GB disk images fit. Uses zip64 fields where sizes or offsets need them.
+ */
+export async function writeZip(
+    zipPath: string,
+    sources: ZipSource[],
+    onFile?: (source: ZipSource, index: number) => void,
+): Promise<void> {
+    const handle = await fs.promises.open(zipPath, 'w');
+    const central: Buffer[] = [];
+    let offset = 0;
+    const write = async (data: Buffer, position: number = offset) => {
+        await handle.write(data, 0, data.length, position);
+        if (position === offset) {
+            offset += data.length;
+        }
+    };
+
+    try {
+        for (const [index, source] of sources.entries()) {
+            onFile?.(source, index);
+            const stat = await fs.promises.stat(source.path);
+            const name = Buffer.from(source.name, 'utf8');
+            const { time, date } = dosDateTime(stat.mtime);
+            const zip64 = stat.size >= ZIP64_THRESHOLD;
+            const headerOffset = offset;
+
+            const local = Buffer.alloc(30 + name.length + (zip64 ? 20 : 0));
+            local.writeUInt32LE(LOCAL_HEADER, 0);
+            local.writeUInt16LE(zip64 ? 45 : 20, 4);
+            local.writeUInt16LE(UTF8_FLAG, 6);
+            local.writeUInt16LE(8, 8);
+            local.writeUInt16LE(time, 10);
+            local.writeUInt16LE(date, 12);
+            local.writeUInt16LE(name.length, 26);
+            local.writeUInt16LE(zip64 ? 20 : 0, 28);
+            name.copy(local, 30);
+            if (zip64) {
+                local.writeUInt32LE(MAX_32, 18);
+                local.writeUInt32LE(MAX_32, 22);
+                local.writeUInt16LE(ZIP64_EXTRA, 30 + name.length);
+                local.writeUInt16LE(16, 32 + name.length);
+            }
+            await write(local);
+
+            let crc = 0;
+            let size = 0;
+            let compressedSize = 0;
+            await pipeline(
+                fs.createReadStream(source.path),
+                checksum((chunk) => {
+                    crc = crc32(crc, chunk);
+                    size += chunk.length;
+                }),
+                zlib.createDeflateRaw(),
+                new Writable({
+                    write(chunk: Buffer, _encoding, callback) {
+                        compressedSize += chunk.length;
+                        write(chunk).then(() => callback(), callback);
+                    },
+                }),
+            );
+            if (!zip64 && (size >= MAX_32 || compressedSize >= MAX_32)) {
+                throw new Error(`${source.path} grew past 4 GB while it was being archived`);
+            }
+
+            // Fill in the header now that CRC and sizes are known
+            const patch = Buffer.alloc(zip64 ? 4 : 12);
+            patch.writeUInt32LE(crc, 0);
+            if (!zip64) {
+                patch.writeUInt32LE(compressedSize, 4);
+                patch.writeUInt32LE(size, 8);
+            }
+            await write(patch, headerOffset + 14);
+            if (zip64) {
+                const sizes = Buffer.alloc(16);
+                sizes.writeBigUInt64LE(BigInt(size), 0);
+                sizes.writeBigUInt64LE(BigInt(compressedSize), 8);
+                await write(sizes, headerOffset + 34 + name.length);
+            }
+
+            const bigOffset = headerOffset >= MAX_32;
+            const extra = Buffer.alloc((zip64 || bigOffset ? 4 : 0) + (zip64 ? 16 : 0) + (bigOffset ? 8 : 0));
+            if (extra.length > 0) {
+                extra.writeUInt16LE(ZIP64_EXTRA, 0);
+                extra.writeUInt16LE(extra.length - 4, 2);
+                let pos = 4;
+                if (zip64) {
+                    extra.writeBigUInt64LE(BigInt(size), pos);
+                    extra.writeBigUInt64LE(BigInt(compressedSize), pos + 8);
+                    pos += 16;
+                }
+                if (bigOffset) {
+                    extra.writeBigUInt64LE(BigInt(headerOffset), pos);
+                }
+            }
+            const entry = Buffer.alloc(46 + name.length + extra.length);
+            entry.writeUInt32LE(CENTRAL_HEADER, 0);
+            entry.writeUInt16LE(45, 4);
+            entry.writeUInt16LE(zip64 || bigOffset ? 45 : 20, 6);
+            entry.writeUInt16LE(UTF8_FLAG, 8);
+            entry.writeUInt16LE(8, 10);
+            entry.writeUInt16LE(time, 12);
+            entry.writeUInt16LE(date, 14);
+            entry.writeUInt32LE(crc, 16);
+            entry.writeUInt32LE(zip64 ? MAX_32 : compressedSize, 20);
+            entry.writeUInt32LE(zip64 ? MAX_32 : size, 24);
+            entry.writeUInt16LE(name.length, 28);
+            entry.writeUInt16LE(extra.length, 30);
+            entry.writeUInt32LE(bigOffset ? MAX_32 : headerOffset, 42);
+            name.copy(entry, 46);
+            extra.copy(entry, 46 + name.length);
+            central.push(entry);
+        }
+
+        const centralOffset = offset;
+        for (const entry of central) {
+            await write(entry);
+        }
+        const centralSize = offset - centralOffset;
+
+        const needsZip64 = central.length >= 0xffff || centralOffset >= MAX_32 || centralSize >= MAX_32;
+        if (needsZip64) {
+            const zip64End = Buffer.alloc(56 + 20);
+            zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIR, 0);
+            zip64End.writeBigUInt64LE(44n, 4);
+            zip64End.writeUInt16LE(45, 12);
+            zip64End.writeUInt16LE(45, 14);
+            zip64End.writeBigUInt64LE(BigInt(central.length), 24);
+            zip64End.writeBigUInt64LE(BigInt(central.length), 32);
+            zip64End.writeBigUInt64LE(BigInt(centralSize), 40);
+            zip64End.writeBigUInt64LE(BigInt(centralOffset), 48);
+            zip64End.writeUInt32LE(ZIP64_LOCATOR, 56);
+            zip64End.writeBigUInt64LE(BigInt(offset), 64);
+            zip64End.writeUInt32LE(1, 72);
+            await write(zip64End);
+        }
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+        end.writeUInt16LE(Math.min(central.length, 0xffff), 8);
+        end.writeUInt16LE(Math.min(central.length, 0xffff), 10);
+        end.writeUInt32LE(Math.min(centralSize, MAX_32), 12);
+        end.writeUInt32LE(Math.min(centralOffset, MAX_32), 16);
+        await write(end);
+    } finally {
+        await handle.close();
+    }
+}
+
+/** Entries of the zip at `zipPath`, from its central directory. */
+export async function readZipEntries(zipPath: string): Promise<ZipEntry[]> {
+    const handle = await fs.promises.open(zipPath, 'r');
+    try {
+        const { size } = await handle.stat();
+        const tailLength = Math.min(size, 22 + 0xffff);
+        const tail = Buffer.alloc(tailLength);
+        await handle.read(tail, 0, tailLength, size - tailLength);
+
+        let endPos = -1;
+        for (let i = tailLength - 22; i >= 0; i--) {
+            if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+                endPos = i;
+                break;
+            }
+        }
+        if (endPos < 0) {
+            throw new Error(`${nodePath.basename(zipPath)} is not a zip archive`);
+        }
+        let count = tail.readUInt16LE(endPos + 10);
+        let centralSize = tail.readUInt32LE(endPos + 12);
+        let centralOffset = tail.readUInt32LE(endPos + 16);
+
+        if (endPos >= 20 && tail.readUInt32LE(endPos - 20) === ZIP64_LOCATOR) {
+            const zip64End = Buffer.alloc(56);
+            await handle.read(zip64End, 0, 56, Number(tail.readBigUInt64LE(endPos - 12)));
+            if (zip64End.readUInt32LE(0) === ZIP64_END_OF_CENTRAL_DIR) {
+                count = Number(zip64End.readBigUInt64LE(32));
+                centralSize = Number(zip64End.readBigUInt64LE(40));
+                centralOffset = Number(zip64End.readBigUInt64LE(48));
+            }
+        }
+
+        const central = Buffer.alloc(centralSize);
+        await handle.read(central, 0, centralSize, centralOffset);
+        const entries: ZipEntry[] = [];
+        let pos = 0;
+        for (let i = 0; i < count && pos + 46 <= central.length; i++) {
+            if (central.readUInt32LE(pos) !== CENTRAL_HEADER) {
+                throw new Error(`${nodePath.basename(zipPath)} has a corrupt central directory`);
+            }
+            const nameLength = central.readUInt16LE(pos + 28);
+            const extraLength = central.readUInt16LE(pos + 30);
+            const commentLength = central.readUInt16LE(pos + 32);
+            const entry: ZipEntry = {
+                name: central.toString('utf8', pos + 46, pos + 46 + nameLength),
+                method: central.readUInt16LE(pos + 10),
+                crc: central.readUInt32LE(pos + 16),
+                compressedSize: central.readUInt32LE(pos + 20),
+                size: central.readUInt32LE(pos + 24),
+                offset: central.readUInt32LE(pos + 42),
+            };
+
+            // zip64 extra: only the fields saturated in the header, in this order
+            let extraPos = pos + 46 + nameLength;
+            const extraEnd = extraPos + extraLength;
+            while (extraPos + 4 <= extraEnd) {
+                const id = central.readUInt16LE(extraPos);
+                const length = central.readUInt16LE(extraPos + 2);
+                if (id === ZIP64_EXTRA) {
+                    let field = extraPos + 4;
+                    for (const key of ['size', 'compressedSize', 'offset'] as const) {
+                        if (entry[key] === MAX_32 && field + 8 <= extraPos + 4 + length) {
+                            entry[key] = Number(central.readBigUInt64LE(field));
+                            field += 8;
+                        }
+                    }
+                }
+                extraPos += 4 + length;
+            }
+
+            entries.push(entry);
+            pos += 46 + nameLength + extraLength + commentLength;
+        }
+        return entries;
+    } finally {
+        await handle.close();
+    }
+}
+
+/** Extracts one file entry to `destPath`, checking its CRC-32 and size. */
+export async function extractZipEntry(zipPath: string, entry: ZipEntry, destPath: string): Promise<void> {
+    if (entry.method !== 0 && entry.method !== 8) {
+        throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+    }
+    const header = Buffer.alloc(30);
+    const handle = await fs.promises.open(zipPath, 'r');
+    try {
+        await handle.read(header, 0, 30, entry.offset);
+    } finally {
+        await handle.close();
+    }
+    if (header.readUInt32LE(0) !== LOCAL_HEADER) {
+        throw new Error(`${entry.name} has a corrupt local header`);
+    }
+    const dataStart = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+    await fs.promises.mkdir(nodePath.dirname(destPath), { recursive: true });
+    let crc = 0;
+    let size = 0;
+    const check = checksum((chunk) => {
+        crc = crc32(crc, chunk);
+        size += chunk.length;
+    });
+    const output = fs.createWriteStream(destPath);
+    if (entry.compressedSize === 0) {
+        output.end();
+        await new Promise<void>((resolve, reject) => output.on('finish', resolve).on('error', reject));
+    } else {
+        const input = fs.createReadStream(zipPath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+        if (entry.method === 8) {
+            await pipeline(input, zlib.createInflateRaw(), check, output);
+        } else {
+            await pipeline(input, check, output);
+        }
+    }
+    if (size !== entry.size || crc !== entry.crc) {
+        throw new Error(`${entry.name} is corrupt (CRC or size mismatch)`);
+    }
+}
+
+/**
+ * Extracts the file entries under `prefix` (e.g. `Pixel_8.avd/`) into
+ * `destDir`, without the prefix. Checks every entry first, so an archive with
+ * a path escaping `destDir` is refused before anything is written.
+ */
+export async function extractZipDirectory(
+    zipPath: string,
+    entries: ZipEntry[],
+    prefix: string,
+    destDir: string,
+    onFile?: (entry: ZipEntry, index: number, count: number) => void,
+): Promise<void> {
+    const root = nodePath.resolve(destDir);
+    const files = entries
+        .filter(entry => entry.name.startsWith(prefix) && !entry.name.endsWith('/'))
+        .map(entry => ({ entry, target: nodePath.resolve(root, entry.name.slice(prefix.length)) }));
+    const escaping = files.find(file => !file.target.startsWith(root + nodePath.sep));
+    if (escaping) {
+        throw new Error(`${escaping.entry.name} points outside ${nodePath.basename(root)}`);
+    }
+    for (const [index, { entry, target }] of files.entries()) {
+        onFile?.(entry, index, files.length);
+        await extractZipEntry(zipPath, entry, target);
+    }
+}
@@ -0,0 +1,314 @@
+import { css, html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/button.js';
+
+interface AvdConfigField {
+    key: string;
+    label: string;
+    group: string;
+    type: 'int' | 'enum' | 'bool';
+    options?: string[];
+    min?: number;
+    max?: number;
+    unit?: string;
+    trueValue?: string;
+    falseValue?: string;
+}
+
+@customElement('asl-avd-config-app')
+export class ASlAvdConfigApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1rem 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				gap: 1.25rem;
+				max-width: 40rem;
+			}
+
+			.header {
+				display: flex;
+				align-items: center;
+				justify-content: space-between;
+				gap: 0.5rem;
+			}
+
+			.header h2 {
+				margin: 0;
+				font-size: 1.1em;
+				font-weight: 600;
+			}
+
+			.actions {
+				display: flex;
+				gap: 0.5rem;
+			}
+
+			.banner {
+				margin: 0;
+				padding: 0.5rem 0.75rem;
+				border-left: 3px solid var(--vscode-editorWarning-foreground);
+				background-color: var(--vscode-textCodeBlock-background);
+			}
+
+			.section {
+				display: flex;
+				flex-direction: column;
+				gap: 0.5rem;
+			}
+
+			.section-title {
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				letter-spacing: 0.04em;
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.field {
+				display: grid;
+				grid-template-columns: 10rem 12rem 1fr;
+				align-items: center;
+				gap: 0.5rem;
+			}
+
+			label {
+				color: var(--vscode-descriptionForeground);
+			}
+
+			input,
+			select {
+				width: 100%;
+				padding: 3px 6px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background-color: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+				outline: none;
+			}
+
+			input:focus,
+			select:focus {
+				border-color: var(--vscode-focusBorder);
+			}
+
+			input[type='checkbox'] {
+				width: auto;
+				justify-self: start;
+			}
+
+			input.invalid {
+				border-color: var(--vscode-inputValidation-errorBorder);
+			}
+
+			.key {
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.error {
+				grid-column: 2 / 4;
+				margin: 0;
+				color: var(--vscode-errorForeground);
+			}
+
+			.hint {
+				margin: 0;
+				color: var(--vscode-descriptionForeground);
+			}
+		`,
+    ];
+
+    @state()
+    private avdName: string = '';
+
+    @state()
+    private runningSerial: string | undefined;
+
+    @state()
+    private fields: AvdConfigField[] = [];
+
+    @state()
+    private values: Record<string, string> = {};
+
+    @state()
+    private otherKeys: number = 0;
+
+    /** By key: input that failed validation, with its message. */
+    @state()
+    private errors: Record<string, string> = {};
+
+    private vscode: any;
+
+    private applyState(s: any) {
+        if (!s) {
+            return;
+        }
+        if (s.avdName) {
+            this.avdName = s.avdName;
+        }
+        if ('runningSerial' in s) {
+            this.runningSerial = s.runningSerial ?? undefined;
+        }
+        if (s.fields) {
+            this.fields = s.fields;
+        }
+        if (s.values) {
+            this.values = s.values;
+            this.otherKeys = s.otherKeys ?? 0;
+        }
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                this.applyState(message.params?.state);
+                break;
+            case 'update-state':
+                this.applyState(message.params);
+                break;
+            case 'edit-error':
+                this.errors = { ...this.errors, [message.params?.key]: message.params?.message };
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                this.applyState(bootstrap);
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    private post(type: string, params?: any) {
+        this.vscode?.postMessage({ type, params });
+    }
+
+    private setValue(field: AvdConfigField, value: string) {
+        const { [field.key]: _, ...errors } = this.errors;
+        if (field.type === 'int') {
+            const n = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN;
+            if (isNaN(n) || (field.min !== undefined && n < field.min) || (field.max !== undefined && n > field.max)) {
+                this.errors = { ...errors, [field.key]: `Enter a whole number between ${field.min} and ${field.max}` };
+                return;
+            }
+            value = String(n);
+        }
+        this.errors = errors;
+        this.post('set-value', { key: field.key, value });
+    }
+
+    private renderInput(field: AvdConfigField) {
+        const value = this.values[field.key];
+        switch (field.type) {
+            case 'int':
+                return html`<input type="number" min=${field.min ?? ''} max=${field.max ?? ''}
+					class=${this.errors[field.key] ? 'invalid' : ''}
+					.value=${value ? String(parseInt(value, 10)) : ''}
+					placeholder="Not set"
+					@change=${(e: Event) => this.setValue(field, (e.target as HTMLInputElement).value)} />`;
+            case 'enum':
+                return html`<select @change=${(e: Event) => this.setValue(field, (e.target as HTMLSelectElement).value)}>
+					${value === undefined ? html`<option value="" selected disabled>Not set</option>` : ''}
+					${value !== undefined && !field.options?.includes(value) ? html`<option selected disabled>${value}</option>` : ''}
+					${field.options?.map(option => html`<option value=${option} ?selected=${option === value}>${option}</option>`)}
+				</select>`;
+            case 'bool':
+                return html`<input type="checkbox" .checked=${value === (field.trueValue ?? 'yes')}
+					@change=${(e: Event) => this.setValue(field,
+						(e.target as HTMLInputElement).checked ? field.trueValue ?? 'yes' : field.falseValue ?? 'no')} />`;
+        }
+    }
+
+    private renderGroup(group: string) {
+        return html`
+			<div class="section">
+				<h3 class="section-title">${group}</h3>
+				${this.fields.filter(f => f.group === group).map(field => html`
+					<div class="field">
+						<label>${field.label}${field.unit ? ` (${field.unit})` : ''}</label>
+						${this.renderInput(field)}
+						<span class="key">${field.key}</span>
+						${this.errors[field.key] ? html`<p class="error">${this.errors[field.key]}</p>` : ''}
+					</div>
+				`)}
+			</div>
+		`;
+    }
+
+    override render() {
+        const groups = [...new Set(this.fields.map(f => f.group))];
+        return html`
+			<div class="container">
+				<div class="header">
+					<h2>${this.avdName} · config.ini</h2>
+					<div class="actions">
+						<asl-button label="Save" @button-click=${() => this.post('save')}></asl-button>
+						<asl-button variant="secondary" label="Open as Text" @button-click=${() => this.post('open-text')}></asl-button>
+					</div>
+				</div>
+
+				${this.runningSerial
+					? html`<p class="banner">${this.avdName} is running as ${this.runningSerial}. Changes take effect after a cold boot.</p>`
+					: ''}
+
+				${groups.map(group => this.renderGroup(group))}
+
+				<p class="hint">${this.otherKeys} other ${this.otherKeys === 1 ? 'key is' : 'keys are'} kept as they are, along with comments.</p>
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-avd-config-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-avd-config-app');
+        document.body.appendChild(app);
+    }
+}
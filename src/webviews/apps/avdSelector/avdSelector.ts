@@ -22,15 +22,19 @@ const progressSpinnerIcon = `<svg width="16" height="16" viewBox="0 0 16 16" fil
 <rect x="1.63599" y="3.05025" width="2" height="5" rx="1" transform="rotate(-45 1.63599 3.05025)" fill="white" fill-opacity="0.7"/>
 </svg>`;
 
-interface AVD {
-    name: string;
-    basedOn: string;
-    device: string;
-    path: string;
-    sdCard: string;
-    skin: string;
-    tagAbi: string;
-    target: string;
+interface RunTarget {
+    id: string;
+    kind: 'avd' | 'device';
+    label: string;
+    description: string;
+    avdName?: string;
+    serial?: string;
+    state?: string;
+}
+
+interface LaunchProfileChoice {
+    profiles: string[];
+    selected?: string;
 }
 
 interface Module {
@@ -119,10 +123,10 @@ export class ASlAVDSelectorApp extends ASlElement {
     ];
 
     @state()
-    private avds: AVD[] = [];
+    private targets: RunTarget[] = [];
 
     @state()
-    private selectedAVD: string = '';
+    private selectedTarget: string = '';
 
     @state()
     private modules: Module[] = [];
@@ -145,17 +149,28 @@ export class ASlAVDSelectorApp extends ASlElement {
     @state()
     private isAndroidProject: boolean = true;
 
+    /** By AVD name; see `AVDSelectorWebviewState.launchProfiles`. */
+    @state()
+    private launchProfiles: Record<string, LaunchProfileChoice> = {};
+
     private vscode: any;
     private buildCancellationToken: string | null = null;
 
-    private get avdOptions(): DropdownOption[] {
-        return this.avds.map(avd => ({
-            value: avd.name,
-            label: avd.name,
-            avd,
+    private get targetOptions(): DropdownOption[] {
+        return this.targets.map(target => ({
+            value: target.id,
+            label: target.description ? `${target.label} — ${target.description}` : target.label,
+            target,
         }));
     }
 
+    /** Launch profiles of the selected AVD; undefined for devices and AVDs without profiles. */
+    private get selectedLaunchProfiles(): (LaunchProfileChoice & { avdName: string }) | undefined {
+        const avdName = this.targets.find(t => t.id === this.selectedTarget)?.avdName;
+        const choice = avdName ? this.launchProfiles[avdName] : undefined;
+        return choice ? { ...choice, avdName: avdName! } : undefined;
+    }
+
     private get moduleOptions(): DropdownOption[] {
         return this.modules.map(module => ({
             value: module.module,
@@ -164,19 +179,45 @@ export class ASlAVDSelectorApp extends ASlElement {
         }));
     }
 
-    private handleAVDChange(e: CustomEvent) {
+    private handleTargetChange(e: CustomEvent) {
         const { value } = e.detail;
-        if (value !== this.selectedAVD) {
-            this.selectedAVD = value;
+        if (value !== this.selectedTarget) {
+            this.selectedTarget = value;
             if (this.vscode) {
                 this.vscode.postMessage({
-                    type: 'select-avd',
-                    params: { avdName: value },
+                    type: 'select-target',
+                    params: { targetId: value },
                 });
             }
         }
     }
 
+    /** Keeps the current selection if it still exists, otherwise picks the first target. */
+    private setTargets(targets: RunTarget[], selected?: string) {
+        this.targets = targets;
+        const preferred = selected ?? this.selectedTarget;
+        if (!targets.some(t => t.id === preferred)) {
+            this.selectedTarget = targets.length > 0 ? targets[0].id : '';
+        } else {
+            this.selectedTarget = preferred;
+        }
+    }
+
+    private handleLaunchProfileChange(e: CustomEvent) {
+        const choice = this.selectedLaunchProfiles;
+        if (!choice) {
+            return;
+        }
+        const { value } = e.detail;
+        this.launchProfiles = { ...this.launchProfiles, [choice.avdName]: { ...choice, selected: value || undefined } };
+        if (this.vscode) {
+            this.vscode.postMessage({
+                type: 'select-launch-profile',
+                params: { avdName: choice.avdName, profile: value },
+            });
+        }
+    }
+
     private handleModuleChange(e: CustomEvent) {
         const { value } = e.detail;
         if (value !== this.selectedModule) {
@@ -191,7 +232,7 @@ export class ASlAVDSelectorApp extends ASlElement {
     }
 
     private handleRunClick() {
-        if (!this.selectedAVD || !this.selectedModule || this.isBuilding) {
+        if (!this.selectedTarget || !this.selectedModule || this.isBuilding) {
             return;
         }
 
@@ -203,7 +244,29 @@ export class ASlAVDSelectorApp extends ASlElement {
             this.vscode.postMessage({
                 type: 'run-app',
                 params: {
-                    avdName: this.selectedAVD,
+                    targetId: this.selectedTarget,
+                    moduleName: this.selectedModule,
+                    cancellationToken: this.buildCancellationToken,
+                },
+            });
+        }
+    }
+
+    /** The host asks which devices to use; the webview only supplies the module. */
+    private handleRunMultipleClick() {
+        if (!this.selectedModule || this.isBuilding) {
+            return;
+        }
+
+        if (this.vscode) {
+            this.isBuilding = true;
+            this.buildCancellable = true;
+            this.buildCancellationToken = `cancel-${Date.now()}`;
+
+            this.vscode.postMessage({
+                type: 'run-app',
+                params: {
+                    multiple: true,
                     moduleName: this.selectedModule,
                     cancellationToken: this.buildCancellationToken,
                 },
@@ -241,14 +304,22 @@ export class ASlAVDSelectorApp extends ASlElement {
     private handleMessage = (event: MessageEvent) => {
         const message = event.data;
         switch (message.type) {
-            case 'update-avds':
-                const { avds } = message.params || {};
-                if (avds) {
-                    this.avds = avds;
-                    // Select first AVD if none selected
-                    if (!this.selectedAVD && avds.length > 0) {
-                        this.selectedAVD = avds[0].name;
-                    }
+            case 'target-selected':
+                if (message.params?.targetId && this.targets.some(t => t.id === message.params.targetId)) {
+                    this.selectedTarget = message.params.targetId;
+                }
+                break;
+            case 'module-selected':
+                if (message.params?.moduleName && this.modules.some(m => m.module === message.params.moduleName)) {
+                    this.selectedModule = message.params.moduleName;
+                }
+                break;
+            case 'update-targets':
+                if (Array.isArray(message.params?.targets)) {
+                    this.setTargets(message.params.targets);
+                }
+                if (message.params?.launchProfiles) {
+                    this.launchProfiles = message.params.launchProfiles;
                 }
                 break;
             case 'update-modules':
@@ -265,13 +336,11 @@ export class ASlAVDSelectorApp extends ASlElement {
                 // Handle bootstrap data from ready response
                 if (message.params && message.params.state) {
                     const state = message.params.state;
-                    if (state.avds) {
-                        this.avds = state.avds;
-                        if (state.selectedAVD) {
-                            this.selectedAVD = state.selectedAVD;
-                        } else if (this.avds.length > 0) {
-                            this.selectedAVD = this.avds[0].name;
-                        }
+                    if (Array.isArray(state.targets)) {
+                        this.setTargets(state.targets, state.selectedTarget);
+                    }
+                    if (state.launchProfiles) {
+                        this.launchProfiles = state.launchProfiles;
                     }
                     if (state.modules) {
                         this.modules = state.modules;
@@ -331,9 +400,9 @@ export class ASlAVDSelectorApp extends ASlElement {
         // Listen for messages from extension
         window.addEventListener('message', this.handleMessage);
 
-        // Request initial AVD list and modules
+        // Request initial run targets and modules
         if (this.vscode) {
-            this.vscode.postMessage({ type: 'refresh-avds' });
+            this.vscode.postMessage({ type: 'refresh-targets' });
             this.vscode.postMessage({ type: 'refresh-modules' });
         }
 
@@ -345,13 +414,11 @@ export class ASlAVDSelectorApp extends ASlElement {
                 const bootstrap = typeof bootstrapStr === 'string'
                     ? JSON.parse(atob(bootstrapStr))
                     : bootstrapStr;
-                if (bootstrap && bootstrap.avds) {
-                    this.avds = bootstrap.avds;
-                    if (bootstrap.selectedAVD) {
-                        this.selectedAVD = bootstrap.selectedAVD;
-                    } else if (this.avds.length > 0) {
-                        this.selectedAVD = this.avds[0].name;
-                    }
+                if (Array.isArray(bootstrap?.targets)) {
+                    this.setTargets(bootstrap.targets, bootstrap.selectedTarget);
+                }
+                if (bootstrap?.launchProfiles) {
+                    this.launchProfiles = bootstrap.launchProfiles;
                 }
                 if (bootstrap && bootstrap.modules) {
                     this.modules = bootstrap.modules;
@@ -383,6 +450,27 @@ export class ASlAVDSelectorApp extends ASlElement {
         window.removeEventListener('message', this.handleMessage);
     }
 
+    private renderLaunchProfile() {
+        const choice = this.selectedLaunchProfiles;
+        if (!choice) {
+            return '';
+        }
+        const options: DropdownOption[] = [
+            { value: '', label: 'Default' },
+            ...choice.profiles.map(name => ({ value: name, label: name })),
+        ];
+        return html`
+			<div class="dropdown-container">
+				<div class="dropdown-label">Launch Profile</div>
+				<asl-dropdown
+					.options=${options}
+					.value=${choice.selected ?? ''}
+					@change=${this.handleLaunchProfileChange}
+				></asl-dropdown>
+			</div>
+		`;
+    }
+
     override render() {
         if (!this.isAndroidProject) {
             return html`
@@ -405,15 +493,17 @@ export class ASlAVDSelectorApp extends ASlElement {
 				<h2 class="section-title">Android Studio Lite</h2>
 
 				<div class="dropdown-container">
-					<div class="dropdown-label">Select AVD</div>
+					<div class="dropdown-label">Select Device</div>
 					<asl-dropdown
-						.options=${this.avdOptions}
-						.value=${this.selectedAVD}
-						placeholder="No AVDs available"
-						@change=${this.handleAVDChange}
+						.options=${this.targetOptions}
+						.value=${this.selectedTarget}
+						placeholder="No devices or AVDs available"
+						@change=${this.handleTargetChange}
 					></asl-dropdown>
 				</div>
 
+				${this.renderLaunchProfile()}
+
 				<div class="dropdown-container">
 					<div class="dropdown-label">Select Module</div>
 					<asl-dropdown
@@ -428,7 +518,7 @@ export class ASlAVDSelectorApp extends ASlElement {
 					<asl-button
 						icon=${this.isBuilding ? progressSpinnerIcon : playIcon}
 						label=${this.isBuilding ? 'Building...' : 'Run'}
-						?disabled=${!this.selectedAVD || !this.selectedModule || this.isBuilding}
+						?disabled=${!this.selectedTarget || !this.selectedModule || this.isBuilding}
 						@button-click=${this.handleRunClick}
 					></asl-button>
 					<asl-button
@@ -446,6 +536,12 @@ export class ASlAVDSelectorApp extends ASlElement {
 							></asl-toggle-button>`
 						: ''}
 				</div>
+				<asl-button
+					variant="secondary"
+					label="Run on Multiple Devices..."
+					?disabled=${!this.selectedModule || this.isBuilding}
+					@button-click=${this.handleRunMultipleClick}
+				></asl-button>
 			</div>
 		`;
     }
@@ -0,0 +1,462 @@
+import { css, html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/dropdown.js';
+import '../shared/components/button.js';
+import type { DropdownOption } from '../shared/components/dropdown.js';
+
+interface DeviceDefinition {
+    id: number;
+    name: string;
+    oem: string;
+}
+
+interface SystemImage {
+    path: string;
+    apiLevel: string;
+    tag: string;
+    tagDisplay: string;
+    abi: string;
+    description: string;
+}
+
+interface Hardware {
+    ramMb: number;
+    storageGb: number;
+    sdCardMb: number;
+    orientation: 'portrait' | 'landscape';
+}
+
+interface CreateResult {
+    ok: boolean;
+    message: string;
+}
+
+/** Must match `NAME_PATTERN` in createAvdProvider. */
+const NAME_PATTERN = /^[a-zA-Z0-9_]+$/;
+
+const NO_DEVICE = -1;
+
+@customElement('asl-create-avd-app')
+export class ASlCreateAvdApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1rem 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				gap: 1.25rem;
+				max-width: 40rem;
+			}
+
+			.section {
+				display: flex;
+				flex-direction: column;
+				gap: 0.5rem;
+			}
+
+			.section-title {
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				letter-spacing: 0.04em;
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.field {
+				display: grid;
+				grid-template-columns: 8rem 1fr;
+				align-items: center;
+				gap: 0.5rem;
+			}
+
+			label {
+				color: var(--vscode-descriptionForeground);
+			}
+
+			input,
+			select {
+				width: 100%;
+				padding: 3px 6px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background-color: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+				outline: none;
+			}
+
+			input:focus,
+			select:focus {
+				border-color: var(--vscode-focusBorder);
+			}
+
+			input.invalid {
+				border-color: var(--vscode-inputValidation-errorBorder);
+			}
+
+			.hint {
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.error {
+				margin: 0;
+				color: var(--vscode-errorForeground);
+			}
+
+			.package {
+				margin: 0;
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.actions {
+				display: flex;
+				gap: 0.5rem;
+				align-items: center;
+			}
+
+			.result.failed {
+				color: var(--vscode-errorForeground);
+			}
+		`,
+    ];
+
+    @state()
+    private devices: DeviceDefinition[] = [];
+
+    @state()
+    private images: SystemImage[] = [];
+
+    @state()
+    private existingNames: string[] = [];
+
+    @state()
+    private deviceId: number = NO_DEVICE;
+
+    @state()
+    private apiLevel: string = '';
+
+    @state()
+    private tag: string = '';
+
+    @state()
+    private abi: string = '';
+
+    @state()
+    private name: string = '';
+
+    /** Until the user types a name, it follows the device and API level. */
+    @state()
+    private nameEdited: boolean = false;
+
+    @state()
+    private hardware: Hardware = { ramMb: 2048, storageGb: 6, sdCardMb: 512, orientation: 'portrait' };
+
+    @state()
+    private creating: boolean = false;
+
+    @state()
+    private result: CreateResult | undefined;
+
+    private vscode: any;
+
+    private applyState(s: any) {
+        if (!s) {
+            return;
+        }
+        if (s.devices) {
+            this.devices = s.devices;
+        }
+        if (s.existingNames) {
+            this.existingNames = s.existingNames;
+        }
+        if (s.images) {
+            this.images = s.images;
+            const preselected = this.images.find(i => i.path === s.selectedImage);
+            if (preselected) {
+                this.selectImage(preselected.apiLevel, preselected.tag, preselected.abi);
+            } else if (!this.selectedImage) {
+                this.selectImage(this.apiLevels[0] ?? '');
+            }
+        }
+        this.suggestName();
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                this.applyState(message.params?.state);
+                break;
+            case 'create-result':
+                this.creating = false;
+                this.result = message.params;
+                if (this.result?.ok) {
+                    this.existingNames = [...this.existingNames, this.name];
+                    this.suggestName();
+                }
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                this.applyState(bootstrap);
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    private post(type: string, params?: any) {
+        this.vscode?.postMessage({ type, params });
+    }
+
+    /** Newest first. */
+    private get apiLevels(): string[] {
+        return [...new Set(this.images.map(i => i.apiLevel))]
+            .sort((a, b) => (parseInt(b, 10) || 0) - (parseInt(a, 10) || 0));
+    }
+
+    private get tags(): SystemImage[] {
+        const images = this.images.filter(i => i.apiLevel === this.apiLevel);
+        return images.filter((image, index) => images.findIndex(i => i.tag === image.tag) === index);
+    }
+
+    private get abis(): string[] {
+        return this.images.filter(i => i.apiLevel === this.apiLevel && i.tag === this.tag).map(i => i.abi);
+    }
+
+    private get selectedImage(): SystemImage | undefined {
+        return this.images.find(i => i.apiLevel === this.apiLevel && i.tag === this.tag && i.abi === this.abi);
+    }
+
+    /** Picks the closest image to the given parts, falling back to the first match at each level. */
+    private selectImage(apiLevel: string, tag?: string, abi?: string) {
+        this.apiLevel = apiLevel;
+        const tags = this.tags.map(i => i.tag);
+        this.tag = tag && tags.includes(tag) ? tag : tags.find(t => t === 'google_apis_playstore') ?? tags[0] ?? '';
+        const abis = this.abis;
+        this.abi = abi && abis.includes(abi) ? abi : abis.find(a => a === 'x86_64' || a === 'arm64-v8a') ?? abis[0] ?? '';
+        this.suggestName();
+    }
+
+    private suggestName() {
+        if (this.nameEdited) {
+            return;
+        }
+        const device = this.devices.find(d => d.id === this.deviceId);
+        const base = `${device ? device.name : 'AVD'}${this.apiLevel ? `_API_${this.apiLevel}` : ''}`.replace(/[^a-zA-Z0-9_]+/g, '_');
+        let name = base;
+        for (let i = 2; this.existingNames.includes(name); i++) {
+            name = `${base}_${i}`;
+        }
+        this.name = name;
+    }
+
+    private get nameError(): string | undefined {
+        if (!this.name) {
+            return "Can't be blank";
+        }
+        if (!NAME_PATTERN.test(this.name)) {
+            return 'Use letters, digits and _ only';
+        }
+        return this.existingNames.includes(this.name) ? `${this.name} already exists` : undefined;
+    }
+
+    private get hardwareError(): string | undefined {
+        const { ramMb, storageGb, sdCardMb } = this.hardware;
+        if (!Number.isInteger(ramMb) || ramMb < 512 || ramMb > 65536) {
+            return 'RAM must be between 512 and 65536 MB';
+        }
+        if (!Number.isInteger(storageGb) || storageGb < 1 || storageGb > 512) {
+            return 'Internal storage must be between 1 and 512 GB';
+        }
+        if (!Number.isInteger(sdCardMb) || (sdCardMb !== 0 && sdCardMb < 10)) {
+            return 'The SD card must be 0 (none) or at least 10 MB';
+        }
+        return undefined;
+    }
+
+    private setHardware<K extends keyof Hardware>(key: K, value: Hardware[K]) {
+        this.hardware = { ...this.hardware, [key]: value };
+    }
+
+    private handleCreate() {
+        const image = this.selectedImage;
+        if (!image || this.nameError || this.hardwareError || this.creating) {
+            return;
+        }
+        this.creating = true;
+        this.result = undefined;
+        this.post('create-avd', {
+            name: this.name,
+            deviceId: this.deviceId,
+            image: image.path,
+            ...this.hardware,
+        });
+    }
+
+    private renderDevice() {
+        const options: DropdownOption[] = [
+            { value: String(NO_DEVICE), label: 'Default (No device definition)' },
+            ...this.devices.map(d => ({ value: String(d.id), label: d.oem ? `${d.name} (${d.oem})` : d.name })),
+        ];
+        return html`
+			<div class="section">
+				<h3 class="section-title">Device Definition</h3>
+				<asl-dropdown
+					.options=${options}
+					.value=${String(this.deviceId)}
+					@change=${(e: CustomEvent) => { this.deviceId = Number(e.detail.value); this.suggestName(); }}
+				></asl-dropdown>
+			</div>
+		`;
+    }
+
+    private renderSystemImage() {
+        if (this.images.length === 0) {
+            return html`
+				<div class="section">
+					<h3 class="section-title">System Image</h3>
+					<p class="hint">No system images are installed. Install one with sdkmanager, then reload.</p>
+					<div class="actions">
+						<asl-button variant="secondary" label="Reload" @button-click=${() => this.post('refresh')}></asl-button>
+					</div>
+				</div>
+			`;
+        }
+        const image = this.selectedImage;
+        return html`
+			<div class="section">
+				<h3 class="section-title">System Image</h3>
+				<div class="field">
+					<label>API level</label>
+					<asl-dropdown
+						.options=${this.apiLevels.map(api => ({ value: api, label: `API ${api}` }))}
+						.value=${this.apiLevel}
+						@change=${(e: CustomEvent) => this.selectImage(e.detail.value, this.tag, this.abi)}
+					></asl-dropdown>
+				</div>
+				<div class="field">
+					<label>Target</label>
+					<asl-dropdown
+						.options=${this.tags.map(i => ({ value: i.tag, label: i.tagDisplay }))}
+						.value=${this.tag}
+						@change=${(e: CustomEvent) => this.selectImage(this.apiLevel, e.detail.value, this.abi)}
+					></asl-dropdown>
+				</div>
+				<div class="field">
+					<label>ABI</label>
+					<asl-dropdown
+						.options=${this.abis.map(abi => ({ value: abi, label: abi }))}
+						.value=${this.abi}
+						@change=${(e: CustomEvent) => this.selectImage(this.apiLevel, this.tag, e.detail.value)}
+					></asl-dropdown>
+				</div>
+				${image ? html`<p class="package">${image.description ? `${image.description} · ` : ''}${image.path}</p>` : ''}
+			</div>
+		`;
+    }
+
+    private renderHardware() {
+        const h = this.hardware;
+        const numberField = (label: string, key: 'ramMb' | 'storageGb' | 'sdCardMb', unit: string) => html`
+			<div class="field">
+				<label>${label} (${unit})</label>
+				<input type="number" min="0" .value=${String(h[key])}
+					@input=${(e: Event) => this.setHardware(key, Number((e.target as HTMLInputElement).value))} />
+			</div>
+		`;
+        return html`
+			<div class="section">
+				<h3 class="section-title">Hardware</h3>
+				${numberField('RAM', 'ramMb', 'MB')}
+				${numberField('Internal storage', 'storageGb', 'GB')}
+				${numberField('SD card', 'sdCardMb', 'MB')}
+				<div class="field">
+					<label>Orientation</label>
+					<select @change=${(e: Event) => this.setHardware('orientation', (e.target as HTMLSelectElement).value as Hardware['orientation'])}>
+						<option value="portrait" ?selected=${h.orientation === 'portrait'}>Portrait</option>
+						<option value="landscape" ?selected=${h.orientation === 'landscape'}>Landscape</option>
+					</select>
+				</div>
+				${this.hardwareError ? html`<p class="error">${this.hardwareError}</p>` : html`<p class="hint">Set the SD card to 0 to create the AVD without one.</p>`}
+			</div>
+		`;
+    }
+
+    override render() {
+        const nameError = this.nameError;
+        const canCreate = !!this.selectedImage && !nameError && !this.hardwareError && !this.creating;
+        return html`
+			<div class="container">
+				${this.renderDevice()}
+				${this.renderSystemImage()}
+
+				<div class="section">
+					<h3 class="section-title">AVD Name</h3>
+					<input class=${nameError ? 'invalid' : ''} .value=${this.name}
+						@input=${(e: Event) => { this.name = (e.target as HTMLInputElement).value; this.nameEdited = true; }} />
+					${nameError ? html`<p class="error">${nameError}</p>` : ''}
+				</div>
+
+				${this.renderHardware()}
+
+				<div class="actions">
+					<asl-button label=${this.creating ? 'Creating...' : 'Create AVD'} ?disabled=${!canCreate} @button-click=${this.handleCreate}></asl-button>
+					${this.result ? html`<span class="result ${this.result.ok ? '' : 'failed'}">${this.result.message}</span>` : ''}
+				</div>
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-create-avd-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-create-avd-app');
+        document.body.appendChild(app);
+    }
+}
@@ -0,0 +1,388 @@
+import { css, html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/dropdown.js';
+import '../shared/components/button.js';
+import type { DropdownOption } from '../shared/components/dropdown.js';
+
+interface BatteryState {
+    acOnline: boolean;
+    status: string;
+    capacity: number;
+}
+
+interface CommandResult {
+    ok: boolean;
+    action: string;
+    message: string;
+}
+
+@customElement('asl-emulator-console-app')
+export class ASlEmulatorConsoleApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1rem 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				gap: 1.25rem;
+				max-width: 40rem;
+			}
+
+			.section {
+				display: flex;
+				flex-direction: column;
+				gap: 0.5rem;
+			}
+
+			.section-title {
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				letter-spacing: 0.04em;
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.row {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				gap: 0.5rem;
+			}
+
+			label {
+				display: flex;
+				align-items: center;
+				gap: 0.4rem;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			input,
+			select {
+				padding: 3px 6px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background-color: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+				outline: none;
+			}
+
+			input:focus,
+			select:focus {
+				border-color: var(--vscode-focusBorder);
+			}
+
+			input[type='number'] {
+				width: 7rem;
+			}
+
+			input[type='range'] {
+				width: 12rem;
+				padding: 0;
+				border: none;
+				background: none;
+			}
+
+			input[type='checkbox'] {
+				width: auto;
+			}
+
+			.grow {
+				flex: 1;
+				min-width: 12rem;
+			}
+
+			.hint {
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.result {
+				margin: 0;
+				padding: 0.5rem;
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+				background-color: var(--vscode-textCodeBlock-background);
+			}
+
+			.result.failed {
+				color: var(--vscode-errorForeground);
+			}
+		`,
+    ];
+
+    @state()
+    private emulators: { serial: string; label: string }[] = [];
+
+    @state()
+    private serial: string = '';
+
+    @state()
+    private networkSpeeds: string[] = [];
+
+    @state()
+    private networkDelays: string[] = [];
+
+    @state()
+    private batteryStatuses: string[] = [];
+
+    @state()
+    private latitude: string = '37.4220';
+
+    @state()
+    private longitude: string = '-122.0841';
+
+    @state()
+    private altitude: string = '';
+
+    @state()
+    private battery: BatteryState = { acOnline: true, status: 'charging', capacity: 100 };
+
+    @state()
+    private speed: string = 'full';
+
+    @state()
+    private delay: string = 'none';
+
+    @state()
+    private phoneNumber: string = '5551234567';
+
+    @state()
+    private smsText: string = '';
+
+    @state()
+    private fingerId: string = '1';
+
+    @state()
+    private busy: string | undefined;
+
+    @state()
+    private result: CommandResult | undefined;
+
+    private vscode: any;
+
+    private applyState(s: any) {
+        if (!s) {
+            return;
+        }
+        if (s.emulators) {
+            this.emulators = s.emulators;
+            // Keep the user's choice while that emulator is running
+            if (!this.emulators.some(e => e.serial === this.serial)) {
+                this.serial = s.selectedSerial ?? this.emulators[0]?.serial ?? '';
+            }
+        }
+        if (s.battery) {
+            this.battery = s.battery;
+        }
+        if (s.networkSpeeds) {
+            this.networkSpeeds = s.networkSpeeds;
+        }
+        if (s.networkDelays) {
+            this.networkDelays = s.networkDelays;
+        }
+        if (s.batteryStatuses) {
+            this.batteryStatuses = s.batteryStatuses;
+        }
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                this.applyState(message.params?.state);
+                break;
+            case 'update-state':
+                this.applyState(message.params);
+                break;
+            case 'command-result':
+                this.busy = undefined;
+                this.result = message.params;
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                this.applyState(bootstrap);
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    private send(action: string, params: any = {}) {
+        this.busy = action;
+        this.result = undefined;
+        this.vscode?.postMessage({ type: 'console-command', params: { serial: this.serial, action, params } });
+    }
+
+    private selectEmulator(serial: string) {
+        this.serial = serial;
+        this.result = undefined;
+        this.vscode?.postMessage({ type: 'select-emulator', params: { serial } });
+    }
+
+    private value(e: Event): string {
+        return (e.target as HTMLInputElement | HTMLSelectElement).value;
+    }
+
+    private button(action: string, label: string, params?: () => any, variant = 'secondary') {
+        return html`
+			<asl-button
+				variant=${variant}
+				label=${this.busy === action ? `${label}...` : label}
+				?disabled=${!this.serial || this.busy !== undefined}
+				@button-click=${() => this.send(action, params?.())}
+			></asl-button>
+		`;
+    }
+
+    private renderSelectOptions(values: string[], selected: string) {
+        return values.map(v => html`<option value=${v} ?selected=${v === selected}>${v}</option>`);
+    }
+
+    override render() {
+        const options: DropdownOption[] = this.emulators.map(e => ({ value: e.serial, label: e.label }));
+        return html`
+			<div class="container">
+				<div class="section">
+					<h3 class="section-title">Emulator</h3>
+					<asl-dropdown
+						.options=${options}
+						.value=${this.serial}
+						placeholder=${this.emulators.length === 0 ? 'No running emulators' : 'Select an emulator'}
+						?disabled=${this.emulators.length === 0}
+						@change=${(e: CustomEvent) => this.selectEmulator(e.detail.value)}
+					></asl-dropdown>
+					${this.result
+						? html`<p class="result ${this.result.ok ? '' : 'failed'}">${this.result.message}</p>`
+						: ''}
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Rotation</h3>
+					<div class="row">${this.button('rotate', 'Rotate 90°')}</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Location</h3>
+					<div class="row">
+						<label>Latitude <input type="number" step="any" .value=${this.latitude} @input=${(e: Event) => { this.latitude = this.value(e); }} /></label>
+						<label>Longitude <input type="number" step="any" .value=${this.longitude} @input=${(e: Event) => { this.longitude = this.value(e); }} /></label>
+						<label>Altitude <input type="number" step="any" placeholder="m" .value=${this.altitude} @input=${(e: Event) => { this.altitude = this.value(e); }} /></label>
+					</div>
+					<div class="row">
+						${this.button('location', 'Set Location', () => ({ latitude: this.latitude, longitude: this.longitude, altitude: this.altitude }))}
+					</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Battery</h3>
+					<div class="row">
+						<label>
+							Level
+							<input type="range" min="0" max="100" .value=${String(this.battery.capacity)}
+								@input=${(e: Event) => { this.battery = { ...this.battery, capacity: Number(this.value(e)) }; }} />
+							${this.battery.capacity}%
+						</label>
+					</div>
+					<div class="row">
+						<label>
+							<input type="checkbox" .checked=${this.battery.acOnline}
+								@change=${(e: Event) => { this.battery = { ...this.battery, acOnline: (e.target as HTMLInputElement).checked }; }} />
+							Charger connected
+						</label>
+						<label>
+							Status
+							<select @change=${(e: Event) => { this.battery = { ...this.battery, status: this.value(e) }; }}>
+								${this.renderSelectOptions(this.batteryStatuses, this.battery.status)}
+							</select>
+						</label>
+					</div>
+					<div class="row">${this.button('battery', 'Apply', () => this.battery)}</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Network</h3>
+					<div class="row">
+						<label>Speed <select @change=${(e: Event) => { this.speed = this.value(e); }}>${this.renderSelectOptions(this.networkSpeeds, this.speed)}</select></label>
+						<label>Latency <select @change=${(e: Event) => { this.delay = this.value(e); }}>${this.renderSelectOptions(this.networkDelays, this.delay)}</select></label>
+						${this.button('network', 'Apply', () => ({ speed: this.speed, delay: this.delay }))}
+					</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Phone</h3>
+					<div class="row">
+						<label>From <input type="tel" .value=${this.phoneNumber} @input=${(e: Event) => { this.phoneNumber = this.value(e); }} /></label>
+						${this.button('call', 'Call', () => ({ phoneNumber: this.phoneNumber }))}
+						${this.button('cancel-call', 'Hang Up', () => ({ phoneNumber: this.phoneNumber }))}
+					</div>
+					<div class="row">
+						<input class="grow" placeholder="SMS text" .value=${this.smsText} @input=${(e: Event) => { this.smsText = this.value(e); }} />
+						${this.button('sms', 'Send SMS', () => ({ phoneNumber: this.phoneNumber, message: this.smsText }))}
+					</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Fingerprint</h3>
+					<div class="row">
+						<label>Finger <select @change=${(e: Event) => { this.fingerId = this.value(e); }}>
+							${this.renderSelectOptions(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'], this.fingerId)}
+						</select></label>
+						${this.button('fingerprint', 'Touch Sensor', () => ({ fingerId: this.fingerId }))}
+					</div>
+					<p class="hint">Enroll the finger first in the emulator's Settings > Security.</p>
+				</div>
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-emulator-console-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-emulator-console-app');
+        document.body.appendChild(app);
+    }
+}
@@ -0,0 +1,552 @@
+import { css, html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/dropdown.js';
+import '../shared/components/button.js';
+import type { DropdownOption } from '../shared/components/dropdown.js';
+
+type ExtraType = 'string' | 'int' | 'bool';
+
+interface IntentExtra {
+    type: ExtraType;
+    key: string;
+    value: string;
+}
+
+interface IntentSpec {
+    action?: string;
+    data?: string;
+    categories?: string[];
+    component?: string;
+    flags?: string[];
+    extras?: IntentExtra[];
+}
+
+interface DeepLink {
+    uri: string;
+    activity: string;
+    autoVerify: boolean;
+}
+
+interface LaunchResult {
+    ok: boolean;
+    message: string;
+    command?: string;
+}
+
+const COMMON_ACTIONS = [
+    'android.intent.action.VIEW',
+    'android.intent.action.MAIN',
+    'android.intent.action.SEND',
+    'android.intent.action.EDIT',
+    'android.settings.APPLICATION_DETAILS_SETTINGS',
+];
+
+const COMMON_CATEGORIES = [
+    'android.intent.category.BROWSABLE',
+    'android.intent.category.DEFAULT',
+    'android.intent.category.LAUNCHER',
+];
+
+const EXTRA_TYPES: { value: ExtraType; label: string }[] = [
+    { value: 'string', label: 'String (--es)' },
+    { value: 'int', label: 'Int (--ei)' },
+    { value: 'bool', label: 'Boolean (--ez)' },
+];
+
+@customElement('asl-intent-launcher-app')
+export class ASlIntentLauncherApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1rem 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				gap: 1.25rem;
+				max-width: 44rem;
+			}
+
+			.section {
+				display: flex;
+				flex-direction: column;
+				gap: 0.5rem;
+			}
+
+			.section-title {
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				letter-spacing: 0.04em;
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.field {
+				display: grid;
+				grid-template-columns: 7rem 1fr;
+				align-items: center;
+				gap: 0.5rem;
+			}
+
+			label {
+				color: var(--vscode-descriptionForeground);
+			}
+
+			input,
+			select {
+				width: 100%;
+				padding: 3px 6px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background-color: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+				outline: none;
+			}
+
+			input:focus,
+			select:focus {
+				border-color: var(--vscode-focusBorder);
+			}
+
+			.flags {
+				display: grid;
+				grid-template-columns: repeat(auto-fill, minmax(17rem, 1fr));
+				gap: 0.25rem 1rem;
+			}
+
+			.flags label {
+				display: flex;
+				align-items: center;
+				gap: 0.4rem;
+				color: var(--vscode-foreground);
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+			}
+
+			.flags input {
+				width: auto;
+			}
+
+			.extra {
+				display: grid;
+				grid-template-columns: 9rem 1fr 1fr auto;
+				gap: 0.5rem;
+				align-items: center;
+			}
+
+			.list {
+				display: flex;
+				flex-direction: column;
+				gap: 2px;
+			}
+
+			.list-item {
+				display: flex;
+				align-items: center;
+				gap: 0.5rem;
+				padding: 3px 6px;
+				border-radius: 3px;
+				cursor: pointer;
+			}
+
+			.list-item:hover {
+				background-color: var(--vscode-list-hoverBackground);
+			}
+
+			.list-item .primary {
+				flex: 1;
+				overflow: hidden;
+				text-overflow: ellipsis;
+				white-space: nowrap;
+				font-family: var(--vscode-editor-font-family);
+			}
+
+			.list-item .secondary {
+				color: var(--vscode-descriptionForeground);
+				white-space: nowrap;
+			}
+
+			.link {
+				background: none;
+				border: none;
+				padding: 0;
+				color: var(--vscode-textLink-foreground);
+				cursor: pointer;
+				font: inherit;
+			}
+
+			.hint {
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.actions {
+				display: flex;
+				gap: 0.5rem;
+				align-items: center;
+			}
+
+			.result {
+				margin: 0;
+				padding: 0.5rem;
+				white-space: pre-wrap;
+				word-break: break-all;
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+				background-color: var(--vscode-textCodeBlock-background);
+			}
+
+			.result.failed {
+				color: var(--vscode-errorForeground);
+			}
+		`,
+    ];
+
+    @state()
+    private devices: { serial: string; label: string }[] = [];
+
+    @state()
+    private serial: string = '';
+
+    @state()
+    private applicationId: string = '';
+
+    @state()
+    private deepLinks: DeepLink[] = [];
+
+    @state()
+    private manifestPath: string = '';
+
+    @state()
+    private merged: boolean = false;
+
+    @state()
+    private recent: IntentSpec[] = [];
+
+    @state()
+    private flagNames: string[] = [];
+
+    @state()
+    private spec: IntentSpec = { action: 'android.intent.action.VIEW' };
+
+    @state()
+    private launching: boolean = false;
+
+    @state()
+    private result: LaunchResult | undefined;
+
+    private vscode: any;
+
+    private applyState(s: any) {
+        if (!s) {
+            return;
+        }
+        if (s.devices) {
+            this.devices = s.devices;
+            // Keep the user's choice while that device stays online
+            if (!this.devices.some(d => d.serial === this.serial)) {
+                this.serial = s.selectedSerial ?? this.devices[0]?.serial ?? '';
+            }
+        }
+        if ('applicationId' in s) {
+            this.applicationId = s.applicationId ?? '';
+        }
+        if (s.deepLinks) {
+            this.deepLinks = s.deepLinks;
+            this.manifestPath = s.manifestPath ?? '';
+            this.merged = !!s.merged;
+        }
+        if (s.recent) {
+            this.recent = s.recent;
+        }
+        if (s.flags) {
+            this.flagNames = s.flags;
+        }
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                this.applyState(message.params?.state);
+                break;
+            case 'update-state':
+                this.applyState(message.params);
+                break;
+            case 'launch-result':
+                this.launching = false;
+                this.result = message.params;
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                this.applyState(bootstrap);
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    private post(type: string, params?: any) {
+        this.vscode?.postMessage({ type, params });
+    }
+
+    private setField<K extends keyof IntentSpec>(key: K, value: IntentSpec[K]) {
+        this.spec = { ...this.spec, [key]: value };
+    }
+
+    private handleLaunch() {
+        this.launching = true;
+        this.result = undefined;
+        this.post('launch-intent', { spec: this.spec, serial: this.serial });
+    }
+
+    private handleClear() {
+        this.spec = {};
+        this.result = undefined;
+    }
+
+    private useDeepLink(link: DeepLink) {
+        this.spec = {
+            action: 'android.intent.action.VIEW',
+            data: link.uri,
+            categories: ['android.intent.category.BROWSABLE'],
+        };
+        this.result = undefined;
+    }
+
+    private toggleFlag(name: string, checked: boolean) {
+        const flags = new Set(this.spec.flags ?? []);
+        if (checked) {
+            flags.add(name);
+        } else {
+            flags.delete(name);
+        }
+        this.setField('flags', [...flags]);
+    }
+
+    private updateExtra(index: number, patch: Partial<IntentExtra>) {
+        const extras = [...(this.spec.extras ?? [])];
+        extras[index] = { ...extras[index], ...patch };
+        this.setField('extras', extras);
+    }
+
+    private addExtra() {
+        this.setField('extras', [...(this.spec.extras ?? []), { type: 'string', key: '', value: '' }]);
+    }
+
+    private removeExtra(index: number) {
+        this.setField('extras', (this.spec.extras ?? []).filter((_, i) => i !== index));
+    }
+
+    private describe(spec: IntentSpec): string {
+        return spec.data ?? spec.component ?? spec.action ?? '';
+    }
+
+    private renderTarget() {
+        const options: DropdownOption[] = this.devices.map(d => ({ value: d.serial, label: d.label }));
+        return html`
+			<div class="section">
+				<h3 class="section-title">Device</h3>
+				<asl-dropdown
+					.options=${options}
+					.value=${this.serial}
+					placeholder=${this.devices.length === 0 ? 'No connected devices' : 'Select a device'}
+					?disabled=${this.devices.length === 0}
+					@change=${(e: CustomEvent) => { this.serial = e.detail.value; }}
+				></asl-dropdown>
+			</div>
+		`;
+    }
+
+    private renderDeepLinks() {
+        const source = this.manifestPath
+            ? (this.merged ? 'merged manifest' : 'source manifest; build the app for the merged one')
+            : 'no manifest found';
+        return html`
+			<div class="section">
+				<h3 class="section-title">Deep links${this.applicationId ? ` · ${this.applicationId}` : ''}</h3>
+				${this.deepLinks.length === 0
+					? html`<p class="hint">No deep links declared (${source}).</p>`
+					: html`
+						<div class="list">
+							${this.deepLinks.map(link => html`
+								<div class="list-item" title=${link.activity} @click=${() => this.useDeepLink(link)}>
+									<span class="primary">${link.uri}</span>
+									<span class="secondary">${link.activity.split('.').pop()}${link.autoVerify ? ' · App Link' : ''}</span>
+								</div>
+							`)}
+						</div>
+						<p class="hint">From the ${source}. Click a link to fill in the form.</p>
+					`}
+				<div class="actions">
+					<button class="link" @click=${() => this.post('refresh')}>Reload</button>
+				</div>
+			</div>
+		`;
+    }
+
+    private renderForm() {
+        const spec = this.spec;
+        return html`
+			<div class="section">
+				<h3 class="section-title">Intent</h3>
+				<div class="field">
+					<label for="action">Action</label>
+					<input id="action" list="actions" .value=${spec.action ?? ''}
+						@input=${(e: InputEvent) => this.setField('action', (e.target as HTMLInputElement).value)} />
+				</div>
+				<div class="field">
+					<label for="data">Data URI</label>
+					<input id="data" placeholder="https://example.com/path" .value=${spec.data ?? ''}
+						@input=${(e: InputEvent) => this.setField('data', (e.target as HTMLInputElement).value)} />
+				</div>
+				<div class="field">
+					<label for="categories">Categories</label>
+					<input id="categories" list="categories-list" placeholder="Comma separated"
+						.value=${(spec.categories ?? []).join(', ')}
+						@change=${(e: Event) => this.setField('categories', (e.target as HTMLInputElement).value.split(',').map(c => c.trim()).filter(c => c))} />
+				</div>
+				<div class="field">
+					<label for="component">Component</label>
+					<input id="component"
+						placeholder=${this.applicationId ? `${this.applicationId}/.MainActivity` : 'com.example/.MainActivity'}
+						.value=${spec.component ?? ''}
+						@input=${(e: InputEvent) => this.setField('component', (e.target as HTMLInputElement).value)} />
+				</div>
+				<datalist id="actions">${COMMON_ACTIONS.map(a => html`<option value=${a}></option>`)}</datalist>
+				<datalist id="categories-list">${COMMON_CATEGORIES.map(c => html`<option value=${c}></option>`)}</datalist>
+			</div>
+
+			<div class="section">
+				<h3 class="section-title">Flags</h3>
+				<div class="flags">
+					${this.flagNames.map(name => html`
+						<label>
+							<input type="checkbox" .checked=${(spec.flags ?? []).includes(name)}
+								@change=${(e: Event) => this.toggleFlag(name, (e.target as HTMLInputElement).checked)} />
+							${name.replace(/^FLAG_/, '')}
+						</label>
+					`)}
+				</div>
+			</div>
+
+			<div class="section">
+				<h3 class="section-title">Extras</h3>
+				${(spec.extras ?? []).map((extra, i) => html`
+					<div class="extra">
+						<select .value=${extra.type}
+							@change=${(e: Event) => this.updateExtra(i, { type: (e.target as HTMLSelectElement).value as ExtraType })}>
+							${EXTRA_TYPES.map(t => html`<option value=${t.value} ?selected=${t.value === extra.type}>${t.label}</option>`)}
+						</select>
+						<input placeholder="key" .value=${extra.key}
+							@input=${(e: InputEvent) => this.updateExtra(i, { key: (e.target as HTMLInputElement).value })} />
+						<input placeholder=${extra.type === 'bool' ? 'true / false' : 'value'} .value=${extra.value}
+							@input=${(e: InputEvent) => this.updateExtra(i, { value: (e.target as HTMLInputElement).value })} />
+						<button class="link" @click=${() => this.removeExtra(i)}>Remove</button>
+					</div>
+				`)}
+				<div class="actions">
+					<button class="link" @click=${this.addExtra}>Add extra</button>
+				</div>
+			</div>
+		`;
+    }
+
+    private renderRecent() {
+        if (this.recent.length === 0) {
+            return '';
+        }
+        return html`
+			<div class="section">
+				<h3 class="section-title">Recent</h3>
+				<div class="list">
+					${this.recent.map(spec => html`
+						<div class="list-item" title="Load into the form" @click=${() => { this.spec = { ...spec }; this.result = undefined; }}>
+							<span class="primary">${this.describe(spec)}</span>
+							<span class="secondary">${spec.extras?.length ? `${spec.extras.length} extra${spec.extras.length === 1 ? '' : 's'}` : ''}</span>
+							<button class="link" @click=${(e: MouseEvent) => {
+								e.stopPropagation();
+								this.spec = { ...spec };
+								this.handleLaunch();
+							}}>Launch</button>
+						</div>
+					`)}
+				</div>
+				<div class="actions">
+					<button class="link" @click=${() => this.post('clear-recent')}>Clear recent</button>
+				</div>
+			</div>
+		`;
+    }
+
+    override render() {
+        return html`
+			<div class="container">
+				${this.renderTarget()}
+				${this.renderDeepLinks()}
+				${this.renderForm()}
+				<div class="actions">
+					<asl-button
+						label=${this.launching ? 'Launching...' : 'Launch'}
+						?disabled=${this.launching || !this.serial}
+						@button-click=${this.handleLaunch}
+					></asl-button>
+					<asl-button variant="secondary" label="Clear" @button-click=${this.handleClear}></asl-button>
+				</div>
+				${this.result
+					? html`<pre class="result ${this.result.ok ? '' : 'failed'}">${this.result.command ? `$ ${this.result.command}\n` : ''}${this.result.message}</pre>`
+					: ''}
+				${this.renderRecent()}
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-intent-launcher-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-intent-launcher-app');
+        document.body.appendChild(app);
+    }
+}
@@ -0,0 +1,324 @@
+import { css, html } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/dropdown.js';
+import '../shared/components/button.js';
+import type { DropdownOption } from '../shared/components/dropdown.js';
+
+interface RoutePoint {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+    time?: number;
+}
+
+interface PlaybackState {
+    fileName?: string;
+    pointCount: number;
+    index: number;
+    elapsedMs: number;
+    durationMs: number;
+    timed: boolean;
+    current?: RoutePoint;
+    serial?: string;
+    status: 'idle' | 'playing' | 'paused';
+    speed: number;
+    loop: boolean;
+    error?: string;
+}
+
+@customElement('asl-route-playback-app')
+export class ASlRoutePlaybackApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1rem 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				gap: 1.25rem;
+				max-width: 40rem;
+			}
+
+			.section {
+				display: flex;
+				flex-direction: column;
+				gap: 0.5rem;
+			}
+
+			.section-title {
+				font-size: 11px;
+				font-weight: 600;
+				text-transform: uppercase;
+				letter-spacing: 0.04em;
+				color: var(--vscode-descriptionForeground);
+				margin: 0;
+			}
+
+			.row {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				gap: 0.5rem;
+			}
+
+			label {
+				display: flex;
+				align-items: center;
+				gap: 0.4rem;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			select {
+				padding: 3px 6px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background-color: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+				outline: none;
+			}
+
+			.file {
+				font-family: var(--vscode-editor-font-family);
+			}
+
+			.muted {
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.timeline {
+				width: 100%;
+				margin: 0;
+			}
+
+			.times {
+				display: flex;
+				justify-content: space-between;
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.point {
+				display: grid;
+				grid-template-columns: 6rem 1fr;
+				gap: 0.25rem 0.5rem;
+				font-family: var(--vscode-editor-font-family);
+				font-size: 12px;
+			}
+
+			.error {
+				margin: 0;
+				color: var(--vscode-errorForeground);
+			}
+		`,
+    ];
+
+    @state()
+    private emulators: { serial: string; label: string }[] = [];
+
+    @state()
+    private serial: string = '';
+
+    @state()
+    private speeds: number[] = [1];
+
+    @state()
+    private playback: PlaybackState = { pointCount: 0, index: 0, elapsedMs: 0, durationMs: 0, timed: false, status: 'idle', speed: 1, loop: false };
+
+    @state()
+    private message: string | undefined;
+
+    private vscode: any;
+
+    private applyState(s: any) {
+        if (!s) {
+            return;
+        }
+        if (s.emulators) {
+            this.emulators = s.emulators;
+            // Keep the user's choice while that emulator is running
+            if (!this.emulators.some(e => e.serial === this.serial)) {
+                this.serial = s.selectedSerial ?? this.emulators[0]?.serial ?? '';
+            }
+        }
+        if (s.speeds) {
+            this.speeds = s.speeds;
+        }
+        if (s.playback) {
+            this.playback = s.playback;
+            this.message = s.playback.error;
+        }
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                this.applyState(message.params?.state);
+                break;
+            case 'update-state':
+                this.applyState(message.params);
+                break;
+            case 'playback-error':
+                this.message = message.params?.message;
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                this.applyState(bootstrap);
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    private post(type: string, params?: any) {
+        this.message = undefined;
+        this.vscode?.postMessage({ type, params });
+    }
+
+    private formatDuration(ms: number): string {
+        const total = Math.round(ms / 1000);
+        const hours = Math.floor(total / 3600);
+        const minutes = Math.floor((total % 3600) / 60);
+        const seconds = String(total % 60).padStart(2, '0');
+        return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+    }
+
+    private renderControls() {
+        const p = this.playback;
+        const loaded = p.pointCount > 0;
+        const canPlay = loaded && !!this.serial;
+        return html`
+			<div class="row">
+				${p.status === 'playing'
+					? html`<asl-button label="Pause" @button-click=${() => this.post('pause')}></asl-button>`
+					: p.status === 'paused'
+						? html`<asl-button label="Resume" ?disabled=${!canPlay} @button-click=${() => this.post('resume')}></asl-button>`
+						: html`<asl-button label="Play" ?disabled=${!canPlay} @button-click=${() => this.post('play', { serial: this.serial })}></asl-button>`}
+				<asl-button variant="secondary" label="Stop" ?disabled=${p.status === 'idle'} @button-click=${() => this.post('stop')}></asl-button>
+				<label>
+					Speed
+					<select @change=${(e: Event) => this.post('set-speed', { speed: Number((e.target as HTMLSelectElement).value) })}>
+						${this.speeds.map(s => html`<option value=${s} ?selected=${s === p.speed}>${s}x</option>`)}
+					</select>
+				</label>
+				<label>
+					<input type="checkbox" .checked=${p.loop}
+						@change=${(e: Event) => this.post('set-loop', { loop: (e.target as HTMLInputElement).checked })} />
+					Loop
+				</label>
+			</div>
+		`;
+    }
+
+    private renderTimeline() {
+        const p = this.playback;
+        if (p.pointCount === 0) {
+            return html`<p class="muted">Load a GPX or KML file to play it back.</p>`;
+        }
+        const point = p.current;
+        return html`
+			<input class="timeline" type="range" min="0" max=${p.pointCount - 1} .value=${String(p.index)}
+				@change=${(e: Event) => this.post('seek', { index: Number((e.target as HTMLInputElement).value) })} />
+			<div class="times">
+				<span>${this.formatDuration(p.elapsedMs)}</span>
+				<span>Point ${p.index + 1} of ${p.pointCount}</span>
+				<span>${this.formatDuration(p.durationMs)}</span>
+			</div>
+			${point
+				? html`
+					<div class="point">
+						<span class="muted">Latitude</span><span>${point.latitude.toFixed(6)}</span>
+						<span class="muted">Longitude</span><span>${point.longitude.toFixed(6)}</span>
+						${point.altitude !== undefined ? html`<span class="muted">Altitude</span><span>${point.altitude.toFixed(1)} m</span>` : ''}
+						${point.time !== undefined ? html`<span class="muted">Recorded</span><span>${new Date(point.time).toLocaleString()}</span>` : ''}
+					</div>
+				`
+				: ''}
+			${p.timed ? '' : html`<p class="muted">The file has no timestamps; points are played one second apart.</p>`}
+		`;
+    }
+
+    override render() {
+        const options: DropdownOption[] = this.emulators.map(e => ({ value: e.serial, label: e.label }));
+        const p = this.playback;
+        return html`
+			<div class="container">
+				<div class="section">
+					<h3 class="section-title">Route</h3>
+					<div class="row">
+						<asl-button variant="secondary" label="Load GPX / KML..." @button-click=${() => this.post('open-file')}></asl-button>
+						${p.fileName ? html`<span class="file">${p.fileName}</span><span class="muted">${p.pointCount} points</span>` : ''}
+					</div>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Emulator</h3>
+					<asl-dropdown
+						.options=${options}
+						.value=${this.serial}
+						placeholder=${this.emulators.length === 0 ? 'No running emulators' : 'Select an emulator'}
+						?disabled=${this.emulators.length === 0 || p.status !== 'idle'}
+						@change=${(e: CustomEvent) => { this.serial = e.detail.value; }}
+					></asl-dropdown>
+				</div>
+
+				<div class="section">
+					<h3 class="section-title">Playback</h3>
+					${this.renderControls()}
+					${this.renderTimeline()}
+					${this.message ? html`<p class="error">${this.message}</p>` : ''}
+				</div>
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-route-playback-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-route-playback-app');
+        document.body.appendChild(app);
+    }
+}
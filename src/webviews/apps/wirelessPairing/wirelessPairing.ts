@@ -0,0 +1,219 @@
+import { css, html, svg } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import * as QRCode from 'qrcode';
+import { ASlElement } from '../shared/components/element.js';
+import { elementBase } from '../shared/components/styles/base.css.js';
+import '../shared/components/button.js';
+
+type PairingStatus =
+    | { state: 'waiting' }
+    | { state: 'pairing'; address: string }
+    | { state: 'connecting'; address: string }
+    | { state: 'paired'; address: string; message: string }
+    | { state: 'failed'; error: string };
+
+const QR_QUIET_ZONE = 4;
+
+@customElement('asl-wireless-pairing-app')
+export class ASlWirelessPairingApp extends ASlElement {
+    static override styles = [
+        elementBase,
+        css`
+			:host {
+				display: block;
+				padding: 1.5rem;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			.container {
+				display: flex;
+				flex-direction: column;
+				align-items: center;
+				gap: 1rem;
+				max-width: 28rem;
+				margin: 0 auto;
+				text-align: center;
+			}
+
+			.section-title {
+				font-size: 1rem;
+				font-weight: 600;
+				margin: 0;
+			}
+
+			.qr {
+				width: 16rem;
+				height: 16rem;
+				background: #fff;
+			}
+
+			.qr.dimmed {
+				opacity: 0.3;
+			}
+
+			.steps {
+				margin: 0;
+				padding-left: 1.25rem;
+				text-align: left;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.status {
+				min-height: 1.5em;
+			}
+
+			.status.failed {
+				color: var(--vscode-errorForeground);
+			}
+
+			.status.paired {
+				color: var(--vscode-testing-iconPassed);
+			}
+		`,
+    ];
+
+    @state()
+    private qrText: string = '';
+
+    @state()
+    private status: PairingStatus = { state: 'waiting' };
+
+    private vscode: any;
+
+    private handleRestartClick() {
+        this.status = { state: 'waiting' };
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'restart-pairing' });
+        }
+    }
+
+    private handleMessage = (event: MessageEvent) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'webview/ready':
+                if (message.params?.state?.qrText) {
+                    this.qrText = message.params.state.qrText;
+                }
+                break;
+            case 'update-qr':
+                if (message.params?.qrText) {
+                    this.qrText = message.params.qrText;
+                }
+                break;
+            case 'pairing-status':
+                if (message.params?.state) {
+                    this.status = message.params;
+                }
+                break;
+        }
+    };
+
+    override connectedCallback() {
+        super.connectedCallback();
+
+        if (typeof (window as any).acquireVsCodeApi !== 'undefined') {
+            this.vscode = (window as any).acquireVsCodeApi();
+        }
+
+        window.addEventListener('message', this.handleMessage);
+
+        if (typeof (window as any).bootstrap !== 'undefined') {
+            try {
+                const bootstrapStr = (window as any).bootstrap;
+                const bootstrap = typeof bootstrapStr === 'string'
+                    ? JSON.parse(atob(bootstrapStr))
+                    : bootstrapStr;
+                if (bootstrap?.qrText) {
+                    this.qrText = bootstrap.qrText;
+                }
+            } catch (e) {
+                console.error('Failed to parse bootstrap data:', e);
+            }
+        }
+
+        if (this.vscode) {
+            this.vscode.postMessage({ type: 'webview/ready' });
+        }
+    }
+
+    override disconnectedCallback() {
+        super.disconnectedCallback();
+        window.removeEventListener('message', this.handleMessage);
+    }
+
+    /** Draws the QR matrix as a single SVG path; the webview CSP does not allow images. */
+    private renderQr() {
+        if (!this.qrText) {
+            return html`<div class="qr"></div>`;
+        }
+        const { size, data } = QRCode.create(this.qrText, { errorCorrectionLevel: 'M' }).modules;
+        let path = '';
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (data[y * size + x]) {
+                    path += `M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`;
+                }
+            }
+        }
+        const extent = size + QR_QUIET_ZONE * 2;
+        const dimmed = this.status.state === 'paired' || this.status.state === 'failed';
+        return html`
+			<svg class="qr ${dimmed ? 'dimmed' : ''}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">
+				${svg`<path d=${path} fill="#000"></path>`}
+			</svg>
+		`;
+    }
+
+    private get statusText(): string {
+        switch (this.status.state) {
+            case 'waiting':
+                return 'Waiting for the device to scan the QR code...';
+            case 'pairing':
+                return `Pairing with ${this.status.address}...`;
+            case 'connecting':
+                return `Paired. Connecting to ${this.status.address}...`;
+            case 'paired':
+                return `Connected to ${this.status.address}`;
+            case 'failed':
+                return this.status.error;
+        }
+    }
+
+    override render() {
+        const finished = this.status.state === 'paired' || this.status.state === 'failed';
+        return html`
+			<div class="container">
+				<h2 class="section-title">Pair Device over Wi-Fi</h2>
+				<ol class="steps">
+					<li>Connect the device to the same network as this computer.</li>
+					<li>Open Developer options &gt; Wireless debugging.</li>
+					<li>Tap "Pair device with QR code" and scan this code.</li>
+				</ol>
+				${this.renderQr()}
+				<div class="status ${this.status.state}">${this.statusText}</div>
+				${finished
+					? html`<asl-button
+							variant="secondary"
+							label=${this.status.state === 'paired' ? 'Pair Another Device' : 'Try Again'}
+							@button-click=${this.handleRestartClick}
+						></asl-button>`
+					: ''}
+			</div>
+		`;
+    }
+}
+
+// Initialize the app when the module loads
+if (typeof window !== 'undefined') {
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+            const app = document.createElement('asl-wireless-pairing-app');
+            document.body.appendChild(app);
+        });
+    } else {
+        const app = document.createElement('asl-wireless-pairing-app');
+        document.body.appendChild(app);
+    }
+}
@@ -0,0 +1,164 @@
+import * as nodePath from 'path';
+import type { Disposable, TextDocument } from 'vscode';
+import { commands, Range, window, workspace, WorkspaceEdit } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { Manager } from '../core';
+import type { AVD } from '../cmd/AVDManager.js';
+import { parseIni, patchIni } from '../utils/iniFile.js';
+import { AVD_CONFIG_FIELDS, validateAvdConfigValue } from '../utils/avdConfig.js';
+import type { AvdConfigField } from '../utils/avdConfig.js';
+
+export interface AvdConfigEditorWebviewState extends WebviewState {
+    avdName: string;
+    /** Serial of the running emulator, if any. */
+    runningSerial?: string;
+    fields: AvdConfigField[];
+    values: Record<string, string>;
+    /** Keys in the file that have no field; kept untouched. */
+    otherKeys: number;
+}
+
+/**
+ * Structured editor for an AVD's `config.ini`. Field changes are applied to
+ * the text document with `patchIni`, so comments, unknown keys and their
+ * order survive; undo and save go through the normal text document.
+ */
+export class AvdConfigEditorProvider implements WebviewProvider<AvdConfigEditorWebviewState> {
+    private readonly disposables: Disposable[] = [];
+    private avdName: string;
+    /** Set while a save confirmed in the webview runs, so it is not warned about twice. */
+    private confirmedSave = false;
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly manager: Manager,
+        private readonly document: TextDocument,
+    ) {
+        this.avdName = parseIni(document.getText())['AvdId']
+            ?? nodePath.basename(nodePath.dirname(document.uri.fsPath)).replace(/\.avd$/, '');
+        void this.resolveAvdName();
+
+        this.disposables.push(
+            workspace.onDidChangeTextDocument((e) => {
+                if (e.document === this.document && e.contentChanges.length > 0) {
+                    void this.host.notify('update-state', this.getValues());
+                }
+            }),
+            workspace.onWillSaveTextDocument((e) => {
+                if (e.document === this.document && !this.confirmedSave && this.runningSerial) {
+                    void window.showWarningMessage(
+                        `${this.avdName} is running (${this.runningSerial}). The emulator reads config.ini at boot; cold boot it to apply the changes.`);
+                }
+            }),
+            this.manager.deviceTracker.onDidChangeDevices(() => {
+                void this.host.notify('update-state', { runningSerial: this.runningSerial ?? null });
+            }),
+        );
+    }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    includeBootstrap(): AvdConfigEditorWebviewState {
+        return {
+            ...this.host.baseWebviewState,
+            avdName: this.avdName,
+            runningSerial: this.runningSerial,
+            fields: AVD_CONFIG_FIELDS,
+            ...this.getValues(),
+        };
+    }
+
+    onMessageReceived?(e: any): void {
+        const params = e.params ?? {};
+        switch (e.type) {
+            case 'set-value':
+                void this.setValue(params.key, params.value);
+                break;
+            case 'save':
+                void this.save();
+                break;
+            case 'open-text':
+                void commands.executeCommand('vscode.openWith', this.document.uri, 'default');
+                break;
+        }
+    }
+
+    private get runningSerial(): string | undefined {
+        const device = this.manager.deviceTracker.findByAvdName(this.avdName);
+        return device?.state === 'device' ? device.serial : undefined;
+    }
+
+    /** Prefers the name avdmanager reports for this folder over `AvdId`, which copies may leave stale. */
+    private async resolveAvdName(): Promise<void> {
+        const avds = ((await this.manager.avd.getAVDList().catch(() => undefined)) as AVD[] | undefined) ?? [];
+        const dir = nodePath.dirname(this.document.uri.fsPath);
+        const avd = avds.find(a => a.path && nodePath.resolve(a.path) === nodePath.resolve(dir));
+        if (avd && avd.name !== this.avdName) {
+            this.avdName = avd.name;
+            await this.host.notify('update-state', { avdName: this.avdName, runningSerial: this.runningSerial ?? null });
+        }
+    }
+
+    private getValues(): Pick<AvdConfigEditorWebviewState, 'values' | 'otherKeys'> {
+        const values = parseIni(this.document.getText());
+        const known = new Set(AVD_CONFIG_FIELDS.map(f => f.key));
+        return { values, otherKeys: Object.keys(values).filter(k => !known.has(k)).length };
+    }
+
+    private async setValue(key: string, value: string): Promise<void> {
+        const field = AVD_CONFIG_FIELDS.find(f => f.key === key);
+        const error = field ? validateAvdConfigValue(field, String(value ?? '')) : `Unknown field ${key}`;
+        if (error) {
+            await this.host.notify('edit-error', { key, message: error });
+            return;
+        }
+        const text = this.document.getText();
+        const previous = parseIni(text)[key];
+        if (previous === value) {
+            return;
+        }
+        // Keep the unit suffix the file already uses for sizes (hw.ramSize=2048M)
+        const written = field!.type === 'int' && /\d\s*M$/i.test(previous ?? '') && /^\d+$/.test(value) ? `${value}M` : value;
+        const edit = new WorkspaceEdit();
+        edit.replace(
+            this.document.uri,
+            new Range(0, 0, this.document.lineCount, 0),
+            patchIni(text, { [key]: written }),
+        );
+        await workspace.applyEdit(edit);
+    }
+
+    private async save(): Promise<void> {
+        const serial = this.runningSerial;
+        if (serial) {
+            const answer = await window.showWarningMessage(
+                `${this.avdName} is running (${serial}). The emulator only reads config.ini at boot and may overwrite it when it exits. Save anyway?`,
+                { modal: true },
+                'Save',
+            );
+            if (answer !== 'Save') {
+                return;
+            }
+        }
+        this.confirmedSave = true;
+        try {
+            await this.document.save();
+        } finally {
+            this.confirmedSave = false;
+        }
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,33 +1,48 @@
 import type { Disposable, ExtensionContext } from 'vscode';
-import { Disposable as VSCodeDisposable, window, commands, workspace, ProgressLocation, CancellationTokenSource } from 'vscode';
+import { window, commands, workspace } from 'vscode';
 import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
 import type { WebviewState } from './protocol.js';
 import { Manager } from '../core';
-import type { AVD } from '../cmd/AVDManager';
 import type { MuduleBuildVariant } from '../service/BuildVariantService';
-import { EmulatorBootService } from '../device/EmulatorBootService.js';
-import { LogcatService } from '../service/LogcatService.js';
+import { listRunTargets } from '../device/RunTarget.js';
+import type { RunTarget } from '../device/RunTarget.js';
+import type { AppRunService } from '../service/AppRunService.js';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService.js';
+import type { LaunchProfileService } from '../service/LaunchProfileService.js';
+
+/** Launch profiles offered for one AVD and the one chosen for it. */
+export interface LaunchProfileChoice {
+    profiles: string[];
+    selected?: string;
+}
 
 export interface AVDSelectorWebviewState extends WebviewState {
-    avds?: AVD[];
-    selectedAVD?: string;
+    /** AVDs merged with connected devices; see `listRunTargets`. */
+    targets?: RunTarget[];
+    selectedTarget?: string;
     modules?: MuduleBuildVariant[];
     selectedModule?: string;
     /** When false, show "Open an Android project" placeholder. */
     isAndroidProject?: boolean;
     /** When false, logcat modules are not available; hide Logcat toggle. */
     logcatAvailable?: boolean;
+    /** By AVD name; only AVDs that have launch profiles. */
+    launchProfiles?: Record<string, LaunchProfileChoice>;
 }
 
 export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewState> {
     private readonly disposables: Disposable[] = [];
     private readonly manager: Manager;
-    private buildCancellationTokens = new Map<string, CancellationTokenSource>();
+    /** Token the webview sent with its last run-app, echoed back in build-started. */
+    private pendingCancellationToken: string | undefined;
     private logcatActive: boolean = false;
 
     constructor(
         private readonly host: WebviewHost,
         private readonly context: ExtensionContext,
+        private readonly appRun: AppRunService,
+        private readonly selectedDevice: SelectedDeviceService,
+        private readonly launchProfiles: LaunchProfileService,
         private readonly logcatAvailable: boolean = false,
     ) {
         this.manager = Manager.getInstance();
@@ -41,6 +56,26 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
                     await this.sendModules();
                 }
             }),
+            this.manager.deviceTracker.onDidChangeDevices(() => {
+                void this.sendTargets();
+            }),
+            this.launchProfiles.onDidChange(() => {
+                void this.sendTargets();
+            }),
+            this.selectedDevice.onDidChangeSelection((targetId) => {
+                void this.host.notify('target-selected', { targetId });
+            }),
+            this.appRun.onDidChangeSelectedModule((moduleName) => {
+                void this.host.notify('module-selected', { moduleName });
+            }),
+            this.appRun.onDidStartRun(() => {
+                const cancellationToken = this.pendingCancellationToken ?? `run-${Date.now()}`;
+                this.pendingCancellationToken = undefined;
+                void this.host.notify('build-started', { cancellationToken });
+            }),
+            this.appRun.onDidEndRun(({ outcome, error }) => {
+                void this.host.notify(`build-${outcome}`, outcome === 'failed' ? { error } : {});
+            }),
         );
     }
 
@@ -52,9 +87,9 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
     }
 
     async includeBootstrap(): Promise<AVDSelectorWebviewState> {
-        const avds = await this.manager.avd.getAVDList();
-        const avdList = avds || [];
-        const selectedAVD = avdList.length > 0 ? avdList[0].name : undefined;
+        const targets = await listRunTargets(this.manager);
+        const selectedTarget = targets.find(t => t.id === this.selectedDevice.targetId)?.id
+            ?? (targets.length > 0 ? targets[0].id : undefined);
 
         const isAndroidProject = this.manager.buildVariant.isAndroidProject();
 
@@ -68,7 +103,8 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
                 console.error('[AVDSelectorProvider] Error loading modules:', error);
             }
         }
-        const selectedModule = modules.length > 0 ? modules[0].module : undefined;
+        const selectedModule = modules.find(m => m.module === this.appRun.selectedModule)?.module
+            ?? (modules.length > 0 ? modules[0].module : undefined);
 
         // Check current logcat state
         try {
@@ -81,19 +117,20 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
 
         return {
             ...this.host.baseWebviewState,
-            avds: avdList,
-            selectedAVD,
+            targets,
+            selectedTarget,
             modules,
             selectedModule,
             isAndroidProject,
             logcatAvailable: this.logcatAvailable,
+            launchProfiles: this.getLaunchProfiles(targets),
         };
     }
 
     async onReady(): Promise<void> {
         console.log('[AVDSelector] Ready');
-        // Send initial AVD list and modules
-        await this.sendAVDList();
+        // Send initial run targets and modules
+        await this.sendTargets();
         await this.sendModules();
         // Send initial logcat state
         await this.host.notify('logcat-state-changed', { active: this.logcatActive });
@@ -104,186 +141,47 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
             void commands.executeCommand('workbench.action.files.openFolder');
             return;
         }
-        if (e.type === 'refresh-avds') {
-            void this.sendAVDList();
+        if (e.type === 'refresh-targets') {
+            void this.sendTargets();
         } else if (e.type === 'refresh-modules') {
             void this.sendModules();
-        } else if (e.type === 'select-avd') {
-            const { avdName } = e.params || {};
+        } else if (e.type === 'select-target') {
+            const { targetId } = e.params || {};
+            if (targetId) {
+                void this.selectedDevice.select(targetId);
+            }
+        } else if (e.type === 'select-launch-profile') {
+            const { avdName, profile } = e.params || {};
             if (avdName) {
-                void this.host.notify('avd-selected', { avdName });
+                void this.launchProfiles.select(avdName, profile || undefined);
             }
         } else if (e.type === 'select-module') {
             const { moduleName } = e.params || {};
             if (moduleName) {
-                void this.host.notify('module-selected', { moduleName });
+                this.appRun.setSelectedModule(moduleName);
             }
         } else if (e.type === 'run-app') {
             void this.handleRunApp(e.params);
         } else if (e.type === 'cancel-build') {
-            void this.handleCancelBuild(e.params);
+            this.appRun.cancel();
         } else if (e.type === 'toggle-logcat') {
             void this.handleToggleLogcat(e.params);
         }
     }
 
     private async handleRunApp(params: any): Promise<void> {
-        const { avdName, moduleName, cancellationToken } = params || {};
-        if (!avdName || !moduleName) {
-            await this.host.notify('build-failed', { error: 'AVD and Module must be selected' });
+        const { targetId, moduleName, cancellationToken, multiple } = params || {};
+        if ((!targetId && !multiple) || !moduleName) {
+            await this.host.notify('build-failed', { error: 'Device and Module must be selected' });
             return;
         }
-
-        // Create cancellation token
-        const cancelToken = new CancellationTokenSource();
-        if (cancellationToken) {
-            this.buildCancellationTokens.set(cancellationToken, cancelToken);
-        }
-
-        try {
-            await this.host.notify('build-started', { cancellationToken });
-
-            const adbPath = this.getAdbPath();
-            const emulatorPath = this.manager.android.getEmulator();
-            if (!adbPath || !emulatorPath) {
-                await this.host.notify('build-failed', { error: 'SDK path or emulator not configured. Run Setup Wizard.' });
-                return;
-            }
-
-            // Get selected build variant for the module
-            const modules = await this.manager.buildVariant.getModuleBuildVariants(this.context);
-            const module = modules.find(m => m.module === moduleName && m.type === 'application');
-            if (!module || !module.variants || module.variants.length === 0) {
-                await this.host.notify('build-failed', { error: 'No build variants found for module' });
-                return;
-            }
-
-            // Get selected variant (use first one as default)
-            const selectedVariants = this.context.workspaceState.get<Record<string, string>>(
-                'android-studio-lite.selectedBuildVariants',
-                {}
-            );
-            const variantName = selectedVariants[moduleName] || module.variants[0].name;
-            const variant = module.variants.find(v => v.name === variantName) || module.variants[0];
-
-            // Get install task (e.g., installDebug, installProductionDebug)
-            if (!variant.tasks.install) {
-                await this.host.notify('build-failed', { error: `No install task found for variant ${variantName}` });
-                return;
-            }
-
-            const installTask = variant.tasks.install;
-
-            // Build and install using GradleService
-            await window.withProgress(
-                {
-                    location: ProgressLocation.Notification,
-                    title: `Building and installing ${variantName}`,
-                    cancellable: true,
-                },
-                async (progress, token) => {
-                    // Link cancellation tokens
-                    token.onCancellationRequested(() => {
-                        cancelToken.cancel();
-                        this.manager.gradle.cancelBuild();
-                    });
-
-                    try {
-                        // Fire-and-forget launch (if needed) + ADB poll until fully booted
-                        const bootService = new EmulatorBootService(
-                            adbPath,
-                            emulatorPath,
-                            { appendLine: (line) => this.manager.output.append(line) },
-                        );
-                        const serial = await bootService.launchAndWait(
-                            avdName,
-                            progress,
-                            cancelToken.token,
-                        );
-
-                        if (cancelToken.token.isCancellationRequested) {
-                            throw new Error('Build was cancelled');
-                        }
-
-                        progress.report({ increment: 0, message: `Installing ${installTask}...` });
-                        console.log(`[AVDSelectorProvider] Starting gradle install task: ${installTask}`);
-
-                        // Install variant (this will build and install)
-                        await this.manager.gradle.installVariant(
-                            installTask,
-                            (output) => {
-                                // Show progress from Gradle output
-                                const lines = output.split('\n').filter(l => l.trim());
-                                const lastLine = lines[lines.length - 1];
-                                if (lastLine && lastLine.length < 100) {
-                                    progress.report({ message: lastLine });
-                                }
-                            },
-                            cancelToken.token
-                        );
-
-                        console.log(`[AVDSelectorProvider] Gradle install task completed successfully: ${installTask}`);
-
-                        progress.report({ increment: 90, message: 'Installation completed! Launching app...' });
-
-                        // Launch the app after installation
-                        try {
-                            const applicationId = variant.applicationId;
-                            if (!applicationId) {
-                                throw new Error(`No applicationId found for variant ${variantName}. Please ensure the gradle script includes applicationId for application modules.`);
-                            }
-                            await this.launchApp(applicationId, serial);
-                            LogcatService.setLastRun(this.context, applicationId, serial);
-                            progress.report({ increment: 100, message: 'App launched successfully!' });
-                            window.showInformationMessage(`App installed and launched on ${avdName}`);
-                        } catch (launchError: any) {
-                            console.error('[AVDSelectorProvider] Error launching app:', launchError);
-                            // Don't fail the whole process if launch fails
-                            progress.report({ increment: 100, message: 'Installation completed (launch failed)' });
-                            window.showWarningMessage(`App installed but failed to launch: ${launchError.message || String(launchError)}`);
-                        }
-
-                        await this.host.notify('build-completed', {});
-                    } catch (error: any) {
-                        if (cancelToken.token.isCancellationRequested || token.isCancellationRequested) {
-                            throw new Error('Build was cancelled');
-                        }
-                        throw error;
-                    }
-                }
-            );
-        } catch (error: any) {
-            console.error('[AVDSelectorProvider] Error in handleRunApp:', error);
-            if (error.name === 'CancellationError' || cancelToken.token.isCancellationRequested || error.message === 'Build was cancelled') {
-                await this.host.notify('build-cancelled', {});
-                window.showInformationMessage('Build was cancelled');
-            } else {
-                // Extract error message more reliably
-                let errorMessage = this.extractBuildErrorMessage(error);
-
-                console.error('[AVDSelectorProvider] Build failed with error:', errorMessage);
-                console.error('[AVDSelectorProvider] Full error object:', error);
-                await this.host.notify('build-failed', { error: errorMessage });
-                window.showErrorMessage(`Build failed: ${errorMessage}`);
-            }
-        } finally {
-            if (cancellationToken) {
-                this.buildCancellationTokens.delete(cancellationToken);
-            }
-            cancelToken.dispose();
-        }
-    }
-
-    private async handleCancelBuild(params: any): Promise<void> {
-        const { cancellationToken } = params || {};
-        if (cancellationToken) {
-            const cancelToken = this.buildCancellationTokens.get(cancellationToken);
-            if (cancelToken) {
-                cancelToken.cancel();
-                this.manager.gradle.cancelBuild();
-                this.buildCancellationTokens.delete(cancellationToken);
-                await this.host.notify('build-cancelled', {});
-            }
+        this.pendingCancellationToken = cancellationToken;
+        const result = multiple
+            ? await this.appRun.runOnMultipleDevices(moduleName)
+            : await this.appRun.run({ targetId, moduleName });
+        if (!result && !this.appRun.isRunning) {
+            this.pendingCancellationToken = undefined;
+            await this.host.notify('build-cancelled', {});
         }
     }
 
@@ -314,256 +212,32 @@ export class AVDSelectorProvider implements WebviewProvider<AVDSelectorWebviewSt
         }
     }
 
-    private async ensureAVDRunning(avdName: string, cancellationToken: any): Promise<void> {
-        // Check if AVD is already running by checking ADB devices
-        const isRunning = await this.checkIfAVDRunning(avdName);
-
-        if (isRunning) {
-            console.log(`[AVDSelectorProvider] AVD ${avdName} is already running, skipping launch`);
-            return;
-        }
-
-        console.log(`[AVDSelectorProvider] AVD ${avdName} is not running, launching emulator...`);
-
-        // Launch the emulator with progress notification
-        try {
-            await window.withProgress(
-                {
-                    location: ProgressLocation.Notification,
-                    title: `Booting emulator: ${avdName}`,
-                    cancellable: false,
-                },
-                async (progress) => {
-                    try {
-                        progress.report({ increment: 0, message: 'Starting emulator...' });
-                        // Launch emulator (this spawns and returns immediately)
-                        await this.manager.avd.launchEmulator(avdName);
-
-                        // Wait for device to be ready (poll for up to 60 seconds)
-                        progress.report({ increment: 30, message: 'Waiting for device...' });
-                        let deviceFound = false;
-                        for (let i = 0; i < 60; i++) {
-                            if (cancellationToken.isCancellationRequested) {
-                                throw new Error('Build was cancelled');
-                            }
-
-                            await new Promise(resolve => setTimeout(resolve, 1000));
-                            const running = await this.checkIfAVDRunning(avdName);
-                            if (running) {
-                                deviceFound = true;
-                                break;
-                            }
-                            progress.report({
-                                increment: 30 + (i / 60) * 40,
-                                message: `Waiting for device... (${i + 1}/60)`,
-                            });
-                        }
-
-                        if (!deviceFound) {
-                            throw new Error('Emulator started but device not detected. Please check if emulator is running.');
-                        }
-                        progress.report({ increment: 100, message: 'Device ready!' });
-                        // Small delay to ensure notification closes properly
-                        await new Promise(resolve => setTimeout(resolve, 500));
-                    } catch (error: any) {
-                        // Re-throw to be caught by outer try-catch
-                        throw error;
-                    }
-                }
-            );
-        } catch (error: any) {
-            console.error('[AVDSelectorProvider] Error launching emulator:', error);
-            // Check if error is because emulator is already running
-            const errorMessage = error?.message || error?.toString() || String(error);
-            if (errorMessage.includes('Running multiple emulators') || errorMessage.includes('already running')) {
-                console.log('[AVDSelectorProvider] Emulator appears to be already running, checking again...');
-                // Wait a moment and check again
-                await new Promise(resolve => setTimeout(resolve, 2000));
-                const isRunningNow = await this.checkIfAVDRunning(avdName);
-                if (isRunningNow) {
-                    console.log('[AVDSelectorProvider] Emulator is now detected as running');
-                    return; // Success - emulator is running
-                }
-            }
-            throw error;
-        }
-    }
-
-    private async launchApp(applicationId: string, serial?: string): Promise<void> {
-        const config = this.manager.getConfig();
-        const sdkPath = config.sdkPath;
-        if (!sdkPath) {
-            throw new Error('SDK path not configured');
-        }
-
-        const path = await import('path');
-        const platformToolsPath = path.join(sdkPath, 'platform-tools');
-        const adbPath = path.join(platformToolsPath, process.platform === 'win32' ? 'adb.exe' : 'adb');
-
-        console.log(`[AVDSelectorProvider] Launching app with applicationId: ${applicationId}`);
-
-        const serialArg = serial ? `-s ${serial} ` : '';
-        const launchCommand = `"${adbPath}" ${serialArg}shell monkey -p ${applicationId} -c android.intent.category.LAUNCHER 1`;
-        try {
-            const { exec } = await import('child_process');
-            const { promisify } = await import('util');
-            const execAsync = promisify(exec);
-            const result = await execAsync(launchCommand);
-            console.log(`[AVDSelectorProvider] App launch command output: ${result.stdout}`);
-        } catch (error: any) {
-            // Check if it's just a warning about monkey
-            if (error.stdout && !error.stdout.includes('Error')) {
-                console.log(`[AVDSelectorProvider] App launched (monkey output): ${error.stdout}`);
-                return;
-            }
-            throw new Error(`Failed to launch app: ${error.message || String(error)}`);
-        }
-    }
-
-    private extractBuildErrorMessage(error: any): string {
-        // Extract error message more reliably
-        let errorMessage = 'Unknown error';
-        if (error?.message) {
-            errorMessage = error.message;
-        } else if (error?.toString && typeof error.toString === 'function') {
-            errorMessage = error.toString();
-        } else if (typeof error === 'string') {
-            errorMessage = error;
-        } else {
-            errorMessage = JSON.stringify(error);
-        }
-
-        // Try to extract the most relevant error from Gradle output
-        // Common patterns:
-        // 1. "What went wrong:" followed by error description
-        // 2. "FAILURE: Build failed with an exception."
-        // 3. Task-specific errors like "Execution failed for task"
-
-        const lines = errorMessage.split('\n');
-        const relevantLines: string[] = [];
-
-        // Look for key error indicators
-        let captureNext = false;
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            // Capture "What went wrong:" section
-            if (line.includes('What went wrong:') || line.includes('FAILURE:')) {
-                captureNext = true;
-                if (line.includes('FAILURE:')) {
-                    relevantLines.push(line);
-                }
-                continue;
-            }
-
-            // Capture "Execution failed for task" lines
-            if (line.includes('Execution failed for task')) {
-                relevantLines.push(line);
-                captureNext = true;
-                continue;
-            }
-
-            // Capture lines after "What went wrong:" (usually the actual error)
-            if (captureNext && line && !line.startsWith('*') && !line.startsWith('>') && !line.includes('Try:') && !line.includes('Run with')) {
-                if (line.length > 0 && !line.match(/^\s*$/)) {
-                    relevantLines.push(line);
-                    // Stop capturing after we get a meaningful error line
-                    if (line.length > 20 && !line.includes('Get more help')) {
-                        captureNext = false;
-                    }
-                }
-            }
-
-            // Stop capturing on certain markers
-            if (line.includes('Try:') || line.includes('Run with') || line.includes('Get more help')) {
-                captureNext = false;
-            }
-        }
-
-        // If we found relevant lines, use them; otherwise use the original message
-        if (relevantLines.length > 0) {
-            // Join relevant lines, but limit to first 3-4 most important ones
-            const extracted = relevantLines.slice(0, 4).join(' ').trim();
-            if (extracted.length > 0) {
-                return extracted;
-            }
-        }
-
-        // Fallback: try to find the first meaningful error line
-        for (const line of lines) {
-            const trimmed = line.trim();
-            if (trimmed &&
-                trimmed.length > 20 &&
-                !trimmed.includes('BUILD FAILED') &&
-                !trimmed.includes('FAILURE:') &&
-                !trimmed.includes('Try:') &&
-                !trimmed.includes('Run with') &&
-                (trimmed.includes('failed') || trimmed.includes('error') || trimmed.includes('Error'))) {
-                return trimmed;
-            }
-        }
-
-        return errorMessage;
-    }
-
-    /** Returns the first running emulator serial (e.g. "emulator-5554") or null. */
-    private async getRunningEmulatorSerial(): Promise<string | null> {
-        try {
-            const adbPath = this.getAdbPath();
-            if (!adbPath) return null;
-
-            const { exec } = await import('child_process');
-            const { promisify } = await import('util');
-            const execAsync = promisify(exec);
-
-            const result = await execAsync(`"${adbPath}" devices`);
-            const output = result.stdout;
-
-            const lines = output.split('\n').filter((line: string) => {
-                const trimmed = line.trim();
-                return trimmed && !trimmed.startsWith('List of devices');
-            });
-
-            for (const line of lines) {
-                const parts = line.trim().split(/\s+/);
-                if (parts.length >= 2 && parts[0].startsWith('emulator-') && parts[1] === 'device') {
-                    console.log(`[AVDSelectorProvider] Found running emulator device: ${parts[0]}`);
-                    return parts[0];
-                }
-            }
-            return null;
-        } catch {
-            return null;
-        }
-    }
-
-    private getAdbPath(): string | null {
-        const config = this.manager.getConfig();
-        const sdkPath = config.sdkPath;
-        if (!sdkPath) return null;
-        const path = require('path');
-        const platformToolsPath = path.join(sdkPath, 'platform-tools');
-        return path.join(platformToolsPath, process.platform === 'win32' ? 'adb.exe' : 'adb');
-    }
-
-    private async checkIfAVDRunning(_avdName: string): Promise<boolean> {
-        const serial = await this.getRunningEmulatorSerial();
-        return serial !== null;
-    }
-
     async onRefresh?(force?: boolean): Promise<void> {
         if (force) {
             await this.manager.avd.getAVDList(true);
             this.manager.buildVariant.clearCache();
         }
-        await this.sendAVDList();
+        await this.sendTargets();
         await this.sendModules();
     }
 
-    private async sendAVDList(): Promise<void> {
-        const avds = await this.manager.avd.getAVDList();
-        const avdList = avds || [];
-        await this.host.notify('update-avds', { avds: avdList });
+    private async sendTargets(): Promise<void> {
+        const targets = await listRunTargets(this.manager);
+        await this.host.notify('update-targets', { targets, launchProfiles: this.getLaunchProfiles(targets) });
+    }
+
+    private getLaunchProfiles(targets: RunTarget[]): Record<string, LaunchProfileChoice> {
+        const choices: Record<string, LaunchProfileChoice> = {};
+        for (const target of targets) {
+            const profiles = target.avdName ? this.launchProfiles.profilesFor(target.avdName) : [];
+            if (profiles.length > 0) {
+                choices[target.avdName!] = {
+                    profiles: profiles.map(p => p.name),
+                    selected: this.launchProfiles.selected(target.avdName!)?.name,
+                };
+            }
+        }
+        return choices;
     }
 
     private async sendModules(): Promise<void> {
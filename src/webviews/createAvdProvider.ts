@@ -0,0 +1,144 @@
+import type { Disposable } from 'vscode';
+import { commands } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { Manager } from '../core';
+import type { AVD, AVDDevice } from '../cmd/AVDManager.js';
+import type { SystemImage } from '../service/AVDService.js';
+
+export type Orientation = 'portrait' | 'landscape';
+
+export interface CreateAvdWebviewState extends WebviewState {
+    devices: { id: number; name: string; oem: string }[];
+    images: Omit<SystemImage, 'dir'>[];
+    existingNames: string[];
+    /** Package path to preselect, e.g. when opened from a system image. */
+    selectedImage?: string;
+}
+
+export interface CreateAvdRequest {
+    name: string;
+    /** Index from `avdmanager list device`; -1 for no device definition. */
+    deviceId: number;
+    image: string;
+    ramMb: number;
+    storageGb: number;
+    /** 0 for no SD card. */
+    sdCardMb: number;
+    orientation: Orientation;
+}
+
+/** Same rule as rename; avdmanager itself also allows `.` and `-`. */
+const NAME_PATTERN = /^[a-zA-Z0-9_]+$/;
+
+/**
+ * Create AVD wizard: device definition, installed system image, name and
+ * hardware. The AVD is created with `avdmanager create avd`, then its
+ * `config.ini` is patched with the hardware options.
+ */
+export class CreateAvdProvider implements WebviewProvider<CreateAvdWebviewState> {
+    private creating = false;
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly manager: Manager,
+        private readonly getSelectedImage: () => string | undefined,
+    ) { }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    async includeBootstrap(): Promise<CreateAvdWebviewState> {
+        const [devices, images, avds] = await Promise.all([
+            this.manager.avd.getAVDDeviceList().then(list => (list as AVDDevice[] | undefined) ?? []).catch(() => []),
+            this.manager.avd.getSystemImages(true),
+            this.manager.avd.getAVDList().then(list => (list as AVD[] | undefined) ?? []).catch(() => []),
+        ]);
+        return {
+            ...this.host.baseWebviewState,
+            devices: devices.map(d => ({ id: Number(d.id), name: d.name, oem: d.oem })),
+            images: images.map(({ dir, ...image }) => image),
+            existingNames: avds.map(a => a.name),
+            selectedImage: this.getSelectedImage(),
+        };
+    }
+
+    onMessageReceived?(e: any): void {
+        if (e.type === 'create-avd') {
+            void this.create(e.params ?? {});
+        } else if (e.type === 'refresh') {
+            void this.host.refresh(true);
+        }
+    }
+
+    private async create(request: CreateAvdRequest): Promise<void> {
+        if (this.creating) {
+            return;
+        }
+        const error = await this.validate(request);
+        if (error) {
+            await this.host.notify('create-result', { ok: false, message: error });
+            return;
+        }
+        this.creating = true;
+        try {
+            const image = (await this.manager.avd.getSystemImages()).find(i => i.path === request.image)!;
+            await this.manager.avd.createAVD(
+                request.name,
+                image.path,
+                image.description,
+                request.deviceId,
+                request.sdCardMb > 0 ? `${request.sdCardMb}M` : undefined,
+            );
+            await this.manager.avd.updateAVDConfig(request.name, {
+                'hw.ramSize': String(request.ramMb),
+                'disk.dataPartition.size': `${request.storageGb}G`,
+                'hw.initialOrientation': request.orientation,
+            });
+            await commands.executeCommand('android-studio-lite.avdlist-refresh');
+            await this.host.notify('create-result', { ok: true, message: `${request.name} created` });
+        } catch (error: any) {
+            const message = String(error?.message ?? error).trim() || 'avdmanager failed';
+            this.manager.output.append(`[Create AVD] ${request.name}: ${message}`, 'error');
+            await this.host.notify('create-result', { ok: false, message });
+        } finally {
+            this.creating = false;
+        }
+    }
+
+    private async validate(request: CreateAvdRequest): Promise<string | undefined> {
+        const avds = ((await this.manager.avd.getAVDList(true)) as AVD[] | undefined) ?? [];
+        if (!request.name || !NAME_PATTERN.test(request.name)) {
+            return 'The name must be [a-zA-Z0-9_]';
+        }
+        if (avds.some(a => a.name === request.name)) {
+            return `${request.name} already exists`;
+        }
+        if (!(await this.manager.avd.getSystemImages()).some(i => i.path === request.image)) {
+            return 'Select an installed system image';
+        }
+        if (!Number.isInteger(request.ramMb) || request.ramMb < 512 || request.ramMb > 65536) {
+            return 'RAM must be between 512 and 65536 MB';
+        }
+        if (!Number.isInteger(request.storageGb) || request.storageGb < 1 || request.storageGb > 512) {
+            return 'Internal storage must be between 1 and 512 GB';
+        }
+        if (!Number.isInteger(request.sdCardMb) || (request.sdCardMb !== 0 && request.sdCardMb < 10)) {
+            return 'The SD card must be 0 (none) or at least 10 MB';
+        }
+        if (request.orientation !== 'portrait' && request.orientation !== 'landscape') {
+            return 'Orientation must be portrait or landscape';
+        }
+        return undefined;
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void { }
+}
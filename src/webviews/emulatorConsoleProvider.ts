@@ -0,0 +1,201 @@
+import type { Disposable } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { Manager } from '../core';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService.js';
+import { BATTERY_STATUSES, EmulatorConsoleClient, NETWORK_DELAYS, NETWORK_SPEEDS } from '../device/EmulatorConsoleClient.js';
+import type { EmulatorBatteryState } from '../device/EmulatorConsoleClient.js';
+
+export interface EmulatorConsoleWebviewState extends WebviewState {
+    emulators: { serial: string; label: string }[];
+    selectedSerial?: string;
+    /** Current battery of the selected emulator, read with `power display`. */
+    battery?: EmulatorBatteryState;
+    networkSpeeds: string[];
+    networkDelays: string[];
+    batteryStatuses: string[];
+}
+
+const PHONE_NUMBER = /^\+?\d{1,20}$/;
+
+/**
+ * Panel driving the emulator console: rotation, location, battery, network
+ * speed and latency, SMS, incoming calls and fingerprint touches.
+ * One console connection is kept per emulator while the panel is open.
+ */
+export class EmulatorConsoleProvider implements WebviewProvider<EmulatorConsoleWebviewState> {
+    private readonly disposables: Disposable[] = [];
+    private readonly clients = new Map<string, EmulatorConsoleClient>();
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly manager: Manager,
+        private readonly selectedDevice: SelectedDeviceService,
+    ) {
+        this.disposables.push(
+            this.manager.deviceTracker.onDidChangeDevices(() => void this.host.notify('update-state', this.getEmulators())),
+            this.manager.deviceTracker.onDeviceRemoved((device) => {
+                this.clients.get(device.serial)?.close();
+                this.clients.delete(device.serial);
+            }),
+        );
+    }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    async includeBootstrap(): Promise<EmulatorConsoleWebviewState> {
+        const emulators = this.getEmulators();
+        const selected = await this.selectedDevice.getTarget();
+        const selectedSerial = emulators.emulators.find(e => e.serial === selected?.serial)?.serial ?? emulators.selectedSerial;
+        return {
+            ...this.host.baseWebviewState,
+            ...emulators,
+            selectedSerial,
+            battery: selectedSerial ? await this.client(selectedSerial).getBattery().catch(() => undefined) : undefined,
+            networkSpeeds: NETWORK_SPEEDS,
+            networkDelays: NETWORK_DELAYS,
+            batteryStatuses: BATTERY_STATUSES,
+        };
+    }
+
+    onMessageReceived?(e: any): void {
+        switch (e.type) {
+            case 'select-emulator':
+                void this.handleSelect(e.params?.serial);
+                break;
+            case 'console-command':
+                void this.handleCommand(e.params?.serial, e.params?.action, e.params?.params ?? {});
+                break;
+        }
+    }
+
+    private async handleSelect(serial?: string): Promise<void> {
+        if (!serial) {
+            return;
+        }
+        const battery = await this.client(serial).getBattery().catch(() => undefined);
+        await this.host.notify('update-state', { battery });
+    }
+
+    private async handleCommand(serial: string | undefined, action: string, params: any): Promise<void> {
+        try {
+            if (!serial) {
+                throw new Error('Select a running emulator');
+            }
+            const message = await this.run(this.client(serial), action, params);
+            this.manager.output.append(`[Emulator] ${serial}: ${message}`);
+            await this.host.notify('command-result', { ok: true, action, message });
+        } catch (error: any) {
+            const message = error?.message ?? String(error);
+            this.manager.output.append(`[Emulator] ${serial ?? ''}: ${action} failed: ${message}`, 'error');
+            await this.host.notify('command-result', { ok: false, action, message });
+        }
+    }
+
+    /** Runs one panel action; returns the status line shown in the panel. */
+    private async run(client: EmulatorConsoleClient, action: string, params: any): Promise<string> {
+        switch (action) {
+            case 'rotate':
+                await client.rotate();
+                return 'Rotated';
+            case 'location': {
+                const latitude = Number(params.latitude);
+                const longitude = Number(params.longitude);
+                const altitude = params.altitude === '' || params.altitude === undefined ? undefined : Number(params.altitude);
+                if (!isFinite(latitude) || Math.abs(latitude) > 90 || !isFinite(longitude) || Math.abs(longitude) > 180) {
+                    throw new Error('Latitude must be between -90 and 90 and longitude between -180 and 180');
+                }
+                if (altitude !== undefined && !isFinite(altitude)) {
+                    throw new Error('Altitude must be a number');
+                }
+                await client.setLocation(latitude, longitude, altitude);
+                return `Location set to ${latitude}, ${longitude}`;
+            }
+            case 'battery': {
+                const capacity = Number(params.capacity);
+                if (!Number.isInteger(capacity) || capacity < 0 || capacity > 100) {
+                    throw new Error('Battery level must be between 0 and 100');
+                }
+                await client.setBattery({ acOnline: !!params.acOnline, status: checkOneOf(params.status, BATTERY_STATUSES, 'battery status'), capacity });
+                return `Battery set to ${capacity}% (${params.status}${params.acOnline ? ', charger connected' : ''})`;
+            }
+            case 'network':
+                await client.setNetwork(checkOneOf(params.speed, NETWORK_SPEEDS, 'network speed'), checkOneOf(params.delay, NETWORK_DELAYS, 'network latency'));
+                return `Network set to ${params.speed} speed, ${params.delay} latency`;
+            case 'call':
+                await client.call(checkPhoneNumber(params.phoneNumber));
+                return `Incoming call from ${params.phoneNumber}`;
+            case 'cancel-call':
+                await client.cancelCall(checkPhoneNumber(params.phoneNumber));
+                return `Call from ${params.phoneNumber} ended`;
+            case 'sms': {
+                const text = String(params.message ?? '').trim();
+                if (!text) {
+                    throw new Error('Enter a message');
+                }
+                await client.sendSms(checkPhoneNumber(params.phoneNumber), text);
+                return `SMS sent from ${params.phoneNumber}`;
+            }
+            case 'fingerprint': {
+                const fingerId = Number(params.fingerId);
+                if (!Number.isInteger(fingerId) || fingerId < 1 || fingerId > 10) {
+                    throw new Error('Finger id must be between 1 and 10');
+                }
+                await client.touchFingerprint(fingerId);
+                await client.liftFingerprint();
+                return `Fingerprint ${fingerId} touched`;
+            }
+            default:
+                throw new Error(`Unknown action ${action}`);
+        }
+    }
+
+    private client(serial: string): EmulatorConsoleClient {
+        let client = this.clients.get(serial);
+        if (!client) {
+            client = EmulatorConsoleClient.forSerial(serial);
+            if (!client) {
+                throw new Error(`${serial} is not an emulator`);
+            }
+            this.clients.set(serial, client);
+        }
+        return client;
+    }
+
+    private getEmulators(): Pick<EmulatorConsoleWebviewState, 'emulators' | 'selectedSerial'> {
+        const emulators = this.manager.deviceTracker.devices
+            .filter(device => device.state === 'device' && device.serial.startsWith('emulator-'))
+            .map(device => ({ serial: device.serial, label: `${device.avdName || device.model?.replace(/_/g, ' ') || device.serial} (${device.serial})` }));
+        return { emulators, selectedSerial: emulators[0]?.serial };
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.clients.forEach(client => client.close());
+        this.clients.clear();
+    }
+}
+
+function checkPhoneNumber(value: unknown): string {
+    const phoneNumber = String(value ?? '').replace(/[\s()-]/g, '');
+    if (!PHONE_NUMBER.test(phoneNumber)) {
+        throw new Error('Enter a phone number, digits only (an optional leading +)');
+    }
+    return phoneNumber;
+}
+
+function checkOneOf(value: unknown, allowed: string[], what: string): string {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+        throw new Error(`Unknown ${what} "${value}"`);
+    }
+    return value;
+}
@@ -0,0 +1,106 @@
+import type { Disposable } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { Manager } from '../core';
+import type { DeepLink } from '../utils/manifestParser.js';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService.js';
+import { INTENT_FLAGS } from '../service/IntentLauncherService.js';
+import type { IntentLauncherService, IntentSpec } from '../service/IntentLauncherService.js';
+
+export interface IntentLauncherWebviewState extends WebviewState {
+    devices: { serial: string; label: string }[];
+    selectedSerial?: string;
+    applicationId?: string;
+    deepLinks: DeepLink[];
+    /** Where the deep links were read from; `merged` is false for the source manifest. */
+    manifestPath?: string;
+    merged: boolean;
+    recent: IntentSpec[];
+    flags: string[];
+}
+
+/** Panel for building and replaying `am start` intents. */
+export class IntentLauncherProvider implements WebviewProvider<IntentLauncherWebviewState> {
+    private readonly disposables: Disposable[] = [];
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly manager: Manager,
+        private readonly selectedDevice: SelectedDeviceService,
+        private readonly launcher: IntentLauncherService,
+    ) {
+        this.disposables.push(
+            this.manager.deviceTracker.onDidChangeDevices(() => void this.notifyDevices()),
+            this.launcher.onDidChangeRecent(() => void this.host.notify('update-state', { recent: this.launcher.recent })),
+        );
+    }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    async includeBootstrap(): Promise<IntentLauncherWebviewState> {
+        const app = await this.launcher.getAppInfo().catch(() => ({ deepLinks: [], merged: false }));
+        return {
+            ...this.host.baseWebviewState,
+            ...(await this.getDevices()),
+            ...app,
+            recent: this.launcher.recent,
+            flags: Object.keys(INTENT_FLAGS),
+        };
+    }
+
+    onMessageReceived?(e: any): void {
+        switch (e.type) {
+            case 'launch-intent':
+                void this.handleLaunch(e.params?.spec ?? {}, e.params?.serial);
+                break;
+            case 'refresh':
+                void this.handleRefresh();
+                break;
+            case 'clear-recent':
+                void this.launcher.clearRecent();
+                break;
+        }
+    }
+
+    private async handleLaunch(spec: IntentSpec, serial?: string): Promise<void> {
+        try {
+            const result = await this.launcher.launch(spec, serial || undefined);
+            if (result) {
+                await this.host.notify('launch-result', { ok: true, command: result.command, message: result.output || `Launched on ${result.serial}` });
+            }
+        } catch (error: any) {
+            await this.host.notify('launch-result', { ok: false, message: error?.message ?? String(error) });
+        }
+    }
+
+    private async handleRefresh(): Promise<void> {
+        const app = await this.launcher.getAppInfo().catch(() => ({ deepLinks: [], merged: false }));
+        await this.host.notify('update-state', { ...(await this.getDevices()), ...app });
+    }
+
+    private async notifyDevices(): Promise<void> {
+        await this.host.notify('update-state', await this.getDevices());
+    }
+
+    private async getDevices(): Promise<Pick<IntentLauncherWebviewState, 'devices' | 'selectedSerial'>> {
+        const devices = this.manager.deviceTracker.devices
+            .filter(device => device.state === 'device')
+            .map(device => ({ serial: device.serial, label: `${device.avdName || device.model?.replace(/_/g, ' ') || device.serial} (${device.serial})` }));
+        const selected = await this.selectedDevice.getTarget();
+        const selectedSerial = devices.find(d => d.serial === selected?.serial)?.serial ?? devices[0]?.serial;
+        return { devices, selectedSerial };
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
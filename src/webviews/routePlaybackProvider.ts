@@ -0,0 +1,127 @@
+import type { Disposable, Uri } from 'vscode';
+import { window, workspace } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { Manager } from '../core';
+import type { SelectedDeviceService } from '../service/SelectedDeviceService.js';
+import type { RoutePlaybackService, RoutePlaybackState } from '../service/RoutePlaybackService.js';
+
+export interface RoutePlaybackWebviewState extends WebviewState {
+    emulators: { serial: string; label: string }[];
+    selectedSerial?: string;
+    playback: RoutePlaybackState;
+    speeds: number[];
+}
+
+const SPEEDS = [0.5, 1, 2, 5, 10, 20, 50];
+
+/** Panel for loading a GPX / KML route and controlling its playback on an emulator. */
+export class RoutePlaybackProvider implements WebviewProvider<RoutePlaybackWebviewState> {
+    private readonly disposables: Disposable[] = [];
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly manager: Manager,
+        private readonly selectedDevice: SelectedDeviceService,
+        private readonly playback: RoutePlaybackService,
+    ) {
+        this.disposables.push(
+            this.manager.deviceTracker.onDidChangeDevices(() => void this.host.notify('update-state', this.getEmulators())),
+            this.playback.onDidChangeState((playback) => void this.host.notify('update-state', { playback })),
+        );
+    }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    async includeBootstrap(): Promise<RoutePlaybackWebviewState> {
+        const emulators = this.getEmulators();
+        const selected = await this.selectedDevice.getTarget();
+        return {
+            ...this.host.baseWebviewState,
+            ...emulators,
+            selectedSerial: this.playback.state.serial
+                ?? emulators.emulators.find(e => e.serial === selected?.serial)?.serial
+                ?? emulators.selectedSerial,
+            playback: this.playback.state,
+            speeds: SPEEDS,
+        };
+    }
+
+    onMessageReceived?(e: any): void {
+        const params = e.params ?? {};
+        switch (e.type) {
+            case 'open-file':
+                void this.openFile();
+                break;
+            case 'play':
+                this.run(() => this.playback.play(params.serial));
+                break;
+            case 'pause':
+                this.playback.pause();
+                break;
+            case 'resume':
+                this.run(() => this.playback.resume());
+                break;
+            case 'stop':
+                this.playback.stop();
+                break;
+            case 'seek':
+                this.playback.seek(Number(params.index));
+                break;
+            case 'set-speed':
+                this.playback.setSpeed(Number(params.speed));
+                break;
+            case 'set-loop':
+                this.playback.setLoop(!!params.loop);
+                break;
+        }
+    }
+
+    private async openFile(): Promise<void> {
+        const picked = await window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: workspace.workspaceFolders?.[0]?.uri,
+            filters: { 'Routes': ['gpx', 'kml'] },
+            openLabel: 'Load Route',
+        });
+        if (picked?.[0]) {
+            await this.load(picked[0]);
+        }
+    }
+
+    private async load(uri: Uri): Promise<void> {
+        try {
+            await this.playback.load(uri);
+        } catch (error: any) {
+            await this.host.notify('playback-error', { message: error?.message ?? String(error) });
+        }
+    }
+
+    private run(action: () => void): void {
+        try {
+            action();
+        } catch (error: any) {
+            void this.host.notify('playback-error', { message: error?.message ?? String(error) });
+        }
+    }
+
+    private getEmulators(): Pick<RoutePlaybackWebviewState, 'emulators' | 'selectedSerial'> {
+        const emulators = this.manager.deviceTracker.devices
+            .filter(device => device.state === 'device' && device.serial.startsWith('emulator-'))
+            .map(device => ({ serial: device.serial, label: `${device.avdName || device.model?.replace(/_/g, ' ') || device.serial} (${device.serial})` }));
+        return { emulators, selectedSerial: emulators[0]?.serial };
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,7 +1,7 @@
 import type { Disposable, Webview, WebviewPanel, WebviewView } from 'vscode';
 import { Disposable as VSCodeDisposable, Uri, window, workspace } from 'vscode';
 import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
-import type { WebviewPanelDescriptor, WebviewViewDescriptor } from './webviewDescriptors.js';
+import type { CustomEditorDescriptor, WebviewPanelDescriptor, WebviewViewDescriptor } from './webviewDescriptors.js';
 import type { WebviewState } from './protocol.js';
 
 function getNonce(): string {
@@ -26,7 +26,7 @@ export class WebviewController implements WebviewHost, Disposable {
 
     constructor(
         private readonly context: any,
-        private readonly descriptor: WebviewPanelDescriptor | WebviewViewDescriptor,
+        private readonly descriptor: WebviewPanelDescriptor | WebviewViewDescriptor | CustomEditorDescriptor,
         public readonly instanceId: string,
         public readonly parent: WebviewPanel | WebviewView,
         resolveProvider: (host: WebviewHost) => Promise<WebviewProvider<any, any, any>>,
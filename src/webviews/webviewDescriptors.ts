@@ -22,3 +22,12 @@ export interface WebviewViewDescriptor {
     };
     readonly allowMultipleInstances?: never;
 }
+
+/** A `CustomTextEditorProvider`; the editor tab takes its title from the document. */
+export interface CustomEditorDescriptor {
+    id: string;
+    readonly fileName: string;
+    readonly title: string;
+    readonly webviewOptions?: WebviewOptions;
+    readonly allowMultipleInstances?: never;
+}
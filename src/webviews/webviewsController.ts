@@ -9,7 +9,7 @@ function uuid(): string {
         return v.toString(16);
     });
 }
-import type { WebviewPanelDescriptor, WebviewViewDescriptor } from './webviewDescriptors.js';
+import type { CustomEditorDescriptor, WebviewPanelDescriptor, WebviewViewDescriptor } from './webviewDescriptors.js';
 import { WebviewController } from './webviewController.js';
 import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
 
@@ -83,6 +83,45 @@ export class WebviewsController implements Disposable {
         return disposable;
     }
 
+    /**
+     * Registers a `CustomTextEditorProvider`. Each opened document gets its own
+     * controller and provider; the provider edits the `TextDocument`, so undo,
+     * dirty state and saving stay with the editor.
+     */
+    registerCustomTextEditor<State, SerializedState = State>(
+        descriptor: CustomEditorDescriptor,
+        resolveProvider: (host: WebviewHost, document: vscode.TextDocument) => Promise<WebviewProvider<State, SerializedState>>,
+    ): Disposable {
+        const context = this.context;
+
+        const disposable = window.registerCustomEditorProvider(
+            descriptor.id,
+            {
+                async resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: WebviewPanel) {
+                    webviewPanel.webview.options = {
+                        enableCommandUris: true,
+                        enableScripts: true,
+                        localResourceRoots: [Uri.file(context.extensionPath)],
+                        ...descriptor.webviewOptions,
+                    };
+
+                    const controller = new WebviewController(
+                        context,
+                        descriptor,
+                        uuid(),
+                        webviewPanel,
+                        (host) => resolveProvider(host, document),
+                    );
+                    await controller.show(true);
+                },
+            },
+            { webviewOptions: { retainContextWhenHidden: true } },
+        );
+
+        this.disposables.push(disposable);
+        return disposable;
+    }
+
     registerWebviewPanel<State, SerializedState = State, ShowingArgs extends unknown[] = unknown[]>(
         descriptor: WebviewPanelDescriptor,
         resolveProvider: (host: WebviewHost) => Promise<WebviewProvider<State, SerializedState, ShowingArgs>>,
@@ -0,0 +1,83 @@
+import type { Disposable } from 'vscode';
+import { CancellationTokenSource } from 'vscode';
+import type { WebviewProvider, WebviewHost } from './webviewProvider.js';
+import type { WebviewState } from './protocol.js';
+import type { QrPairingStatus, WirelessDebuggingService } from '../service/WirelessDebuggingService.js';
+
+export interface WirelessPairingWebviewState extends WebviewState {
+    /** Text to render as a QR code; scanned from "Pair device with QR code" on the device. */
+    qrText?: string;
+}
+
+/**
+ * Panel showing a wireless debugging QR code. A new pairing session starts each
+ * time the panel is opened and is cancelled when it closes.
+ */
+export class WirelessPairingProvider implements WebviewProvider<WirelessPairingWebviewState> {
+    private readonly disposables: Disposable[] = [];
+    private cancellation: CancellationTokenSource | undefined;
+    private qrText: string | undefined;
+    private lastStatus: QrPairingStatus | undefined;
+
+    constructor(
+        private readonly host: WebviewHost,
+        private readonly wireless: WirelessDebuggingService,
+    ) { }
+
+    getTelemetryContext(): Record<string, string | number | boolean | undefined> {
+        return {
+            'webview.id': this.host.id,
+            'webview.instanceId': this.host.instanceId,
+        };
+    }
+
+    includeBootstrap(): WirelessPairingWebviewState {
+        if (!this.qrText) {
+            this.startSession();
+        }
+        return {
+            ...this.host.baseWebviewState,
+            qrText: this.qrText,
+        };
+    }
+
+    async onReady(): Promise<void> {
+        if (this.lastStatus) {
+            await this.host.notify('pairing-status', this.lastStatus);
+        }
+    }
+
+    onMessageReceived?(e: any): void {
+        if (e.type === 'restart-pairing') {
+            this.startSession();
+            void this.host.notify('update-qr', { qrText: this.qrText });
+        }
+    }
+
+    private startSession(): void {
+        this.cancellation?.cancel();
+        this.cancellation?.dispose();
+        this.cancellation = new CancellationTokenSource();
+        this.lastStatus = undefined;
+
+        const token = this.cancellation.token;
+        const session = this.wireless.startQrPairing((status) => {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            this.lastStatus = status;
+            void this.host.notify('pairing-status', status);
+        }, token);
+        this.qrText = session.qrText;
+    }
+
+    registerCommands(): Disposable[] {
+        return [];
+    }
+
+    dispose(): void {
+        this.cancellation?.cancel();
+        this.cancellation?.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -13,6 +13,17 @@ import esbuild from 'esbuild';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/** Webview apps under `src/webviews/apps/<name>/`, each with `<name>.ts` and `<name>.html`. */
+const webviews = [
+    'avdSelector',
+    'wirelessPairing',
+    'intentLauncher',
+    'emulatorConsole',
+    'routePlayback',
+    'createAvd',
+    'avdConfig',
+];
+
 /**
  * @param {any} env
  * @param {any} argv
@@ -38,32 +49,14 @@ function getWebviewsConfig(mode, env, isProduction) {
 
     /** @type WebpackConfig['plugins'] | any */
     const plugins = [
-        new HtmlPlugin({
-            template: path.join(basePath, 'avdSelector', 'avdSelector.html'),
-            chunks: ['avdSelector'],
-            filename: path.join(__dirname, 'dist', 'webviews', 'avdSelector.html'),
-            inject: true,
-            scriptLoading: 'module',
-            minify: isProduction ? {
-                removeComments: true,
-                collapseWhitespace: true,
-                removeRedundantAttributes: false,
-                useShortDoctype: true,
-                removeEmptyAttributes: true,
-                removeStyleLinkTypeAttributes: true,
-                keepClosingSlash: true,
-                minifyCSS: true,
-            } : false,
-        }),
+        ...webviews.map(name => getHtmlPlugin(basePath, name, isProduction)),
         new MiniCssExtractPlugin({ filename: '[name].css' }),
     ];
 
     return {
         name: 'webviews',
         context: basePath,
-        entry: {
-            avdSelector: './avdSelector/avdSelector.ts',
-        },
+        entry: Object.fromEntries(webviews.map(name => [name, `./${name}/${name}.ts`])),
         mode: mode,
         target: 'web',
         devtool: isProduction ? false : 'source-map',
@@ -175,3 +168,28 @@ function getWebviewsConfig(mode, env, isProduction) {
     };
 }
 
+/**
+ * @param {string} basePath
+ * @param {string} name
+ * @param {boolean} isProduction
+ * @returns {HtmlPlugin}
+ */
+function getHtmlPlugin(basePath, name, isProduction) {
+    return new HtmlPlugin({
+        template: path.join(basePath, name, `${name}.html`),
+        chunks: [name],
+        filename: path.join(__dirname, 'dist', 'webviews', `${name}.html`),
+        inject: true,
+        scriptLoading: 'module',
+        minify: isProduction ? {
+            removeComments: true,
+            collapseWhitespace: true,
+            removeRedundantAttributes: false,
+            useShortDoctype: true,
+            removeEmptyAttributes: true,
+            removeStyleLinkTypeAttributes: true,
+            keepClosingSlash: true,
+            minifyCSS: true,
+        } : false,
+    });
+}